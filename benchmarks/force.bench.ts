@@ -0,0 +1,44 @@
+/**
+ * Benchmark comparing exact and Barnes–Hut repulsion in the force layout
+ * Run with `npm run bench`
+ */
+import { bench, describe } from 'vitest';
+import { forceLayout } from '../src/layouts/force';
+import { Node, Edge } from '../src/types/graph';
+
+/**
+ * Generate a service-map-like graph: clusters of nodes with sparse links between them
+ */
+function createGraph(nodeCount: number): { nodes: Node[]; edges: Edge[] } {
+  const nodes: Node[] = [];
+  const edges: Edge[] = [];
+  const clusterSize = 20;
+
+  for (let i = 0; i < nodeCount; i++) {
+    nodes.push({ id: `n${i}` });
+
+    const clusterStart = i - (i % clusterSize);
+    if (i > clusterStart) {
+      edges.push({ id: `e${i}`, source: `n${clusterStart}`, target: `n${i}` });
+    } else if (i > 0) {
+      edges.push({ id: `e${i}`, source: `n${i - clusterSize}`, target: `n${i}` });
+    }
+  }
+
+  return { nodes, edges };
+}
+
+[500, 2000].forEach(nodeCount => {
+  const { nodes, edges } = createGraph(nodeCount);
+  const options = { iterations: 50, randomizeInitialPositions: false };
+
+  describe(`forceLayout with ${nodeCount} nodes`, () => {
+    bench('exact', () => {
+      forceLayout(nodes, edges, 1600, 1200, { ...options, approximation: 'exact' });
+    }, { iterations: 3, time: 0 });
+
+    bench('barnes-hut (theta 0.9)', () => {
+      forceLayout(nodes, edges, 1600, 1200, { ...options, approximation: 'barnes-hut', theta: 0.9 });
+    }, { iterations: 3, time: 0 });
+  });
+});
@@ -6,7 +6,12 @@ import {
   ForceLayoutOptions,
   GridLayoutOptions,
   RadialLayoutOptions,
-  TreeLayoutOptions
+  TreeLayoutOptions,
+  LayeredLayoutOptions,
+  SpiralLayoutOptions,
+  StressLayoutOptions,
+  TidyTreeLayoutOptions,
+  GroupedLayoutOptions
 } from '../src';
 
 // Sample data for the demo
@@ -153,12 +158,36 @@ const layoutOptions = {
     verticalSpacing: 120,
   } as TreeLayoutOptions,
   
+  layered: {
+    direction: 'top-down',
+    layerSpacing: 140,
+    nodeSpacing: 200,
+  } as LayeredLayoutOptions,
+  
+  stress: {
+    edgeLength: 180,
+  } as StressLayoutOptions,
+  
+  'tidy-tree': {
+    direction: 'top-down',
+    nodeSpacing: 200,
+    levelSpacing: 140,
+  } as TidyTreeLayoutOptions,
+  
+  dendrogram: {
+    nodeSpacing: 200,
+  } as TidyTreeLayoutOptions,
+  
+  grouped: {
+    groupBy: 'type',
+    innerLayout: 'circular',
+    groupSpacing: 120,
+  } as GroupedLayoutOptions,
+  
   spiral: {
-    centerNodeId: 'node1',
-    initialRadius: 100,
-    radiusIncrement: 40,
-    sortNodesAtLevel: true,
-  } as RadialLayoutOptions,
+    orderBy: 'degree',
+    spacing: 160,
+  } as SpiralLayoutOptions,
   
   donut: {
     startAngle: Math.PI / 3,
@@ -190,6 +219,12 @@ export const LayoutDemo: React.FC = () => {
             <option value="grid">Grid</option>
             <option value="radial">Radial</option>
             <option value="tree">Tree</option>
+            <option value="layered">Layered</option>
+            <option value="stress">Stress</option>
+            <option value="tidy-tree">Tidy Tree</option>
+            <option value="dendrogram">Dendrogram</option>
+            <option value="grouped">Grouped</option>
+            <option value="auto">Auto (best of several)</option>
             <option value="spiral">Spiral</option>
             <option value="donut">Donut</option>
           </select>
@@ -223,6 +258,24 @@ export const LayoutDemo: React.FC = () => {
           {layoutType === 'tree' && (
             <p>Tree layout arranges nodes in a hierarchical tree structure.</p>
           )}
+          {layoutType === 'layered' && (
+            <p>Layered layout ranks nodes by dependency depth and orders each layer to reduce edge crossings.</p>
+          )}
+          {layoutType === 'stress' && (
+            <p>Stress layout places nodes so that their distances on screen match their distances in the graph.</p>
+          )}
+          {layoutType === 'tidy-tree' && (
+            <p>Tidy tree layout packs subtrees as closely as possible without overlaps.</p>
+          )}
+          {layoutType === 'dendrogram' && (
+            <p>Dendrogram layout wraps a tidy tree around the center with all leaves on the outer ring.</p>
+          )}
+          {layoutType === 'grouped' && (
+            <p>Grouped layout arranges nodes of the same type together, then arranges the groups.</p>
+          )}
+          {layoutType === 'auto' && (
+            <p>Auto layout tries several layouts and keeps the one with the fewest crossings and overlaps.</p>
+          )}
           {layoutType === 'spiral' && (
             <p>Spiral layout organizes nodes in a spiral pattern emanating from the center.</p>
           )}
@@ -247,6 +300,7 @@ export const LayoutDemo: React.FC = () => {
           data={sampleData}
           autoLayout={layoutType}
           layoutOptions={layoutOptions[layoutType]}
+          layoutTransition={{ duration: 600, easing: 'ease-in-out' }}
           theme={theme}
           height={700}
           interactionOptions={{
@@ -3,6 +3,7 @@
  * These types define the contract for data adapters in the library
  */
 import { GraphData } from '../types/graph';
+import { TreeLayoutOptions } from '../layouts/tree';
 
 /**
  * Base interface for data adapters
@@ -137,4 +138,86 @@ export interface JSONGraphFormat {
       [key: string]: unknown;
     }[];
   };
-} 
\ No newline at end of file
+} 
+
+/**
+ * GraphML document as XML text
+ * @see http://graphml.graphdrawing.org/
+ */
+export type GraphMLData = string;
+
+/**
+ * Graphviz DOT document as text
+ * @see https://graphviz.org/doc/info/lang.html
+ */
+export type DOTData = string;
+
+/**
+ * A named DOT subgraph or cluster, as stored in `metadata.groups`
+ */
+export interface DOTGroup {
+  /** Subgraph ID; IDs starting with 'cluster' are drawn as boxes by Graphviz */
+  id: string;
+  /** ID of the subgraph containing this one */
+  parent?: string;
+  /** Graph attributes set inside the subgraph, such as label and color */
+  attributes: Record<string, string>;
+}
+
+/**
+ * Mermaid flowchart definition as text
+ * @see https://mermaid.js.org/syntax/flowchart.html
+ */
+export type MermaidData = string;
+
+/**
+ * A Mermaid subgraph, as stored in `metadata.groups`
+ */
+export interface MermaidGroup {
+  /** Subgraph ID */
+  id: string;
+  /** Title shown on the subgraph */
+  label?: string;
+  /** ID of the subgraph containing this one */
+  parent?: string;
+  /** Direction set inside the subgraph */
+  direction?: TreeLayoutOptions['direction'];
+}
+
+/**
+ * GEXF document as XML text
+ * @see https://gexf.net/
+ */
+export type GEXFData = string;
+
+/**
+ * Point in time of a dynamic GEXF graph; numbers for the 'double' and
+ * 'integer' time formats, ISO strings for 'date' and 'dateTime'
+ */
+export type GEXFTime = number | string;
+
+/**
+ * Interval in which a node or edge exists; open ends are unbounded
+ */
+export interface GEXFSpell {
+  start?: GEXFTime;
+  end?: GEXFTime;
+}
+
+/**
+ * Value of a dynamic attribute during an interval
+ */
+export interface GEXFTimedValue extends GEXFSpell {
+  value: unknown;
+}
+
+/**
+ * CSV tables describing a graph: an edge list and an optional node list
+ * Both tables start with a header row naming their columns
+ */
+export interface CSVData {
+  /** Edge list with one row per edge */
+  edges: string;
+  /** Node list with one row per node */
+  nodes?: string;
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { CSVAdapter } from './CSVAdapter';
+import { GraphData } from '../types/graph';
+
+describe('CSVAdapter', () => {
+  it('reads edge lists with the default columns', () => {
+    const graph = new CSVAdapter().toGraph({
+      edges: 'Source,Target,Weight,since,note\na,b,2.5,2021,\nb,c,heavy,x,"one, two"\n',
+    });
+
+    expect(graph.nodes).toEqual([
+      { id: 'a', label: 'a', data: {} },
+      { id: 'b', label: 'b', data: {} },
+      { id: 'c', label: 'c', data: {} },
+    ]);
+    expect(graph.edges).toEqual([
+      { id: 'e0', source: 'a', target: 'b', type: undefined, label: undefined, data: { since: 2021, weight: 2.5 } },
+      {
+        id: 'e1',
+        source: 'b',
+        target: 'c',
+        type: undefined,
+        label: undefined,
+        data: { since: 'x', note: 'one, two', weight: 'heavy' },
+      },
+    ]);
+  });
+
+  it('round trips quoted fields', () => {
+    const adapter = new CSVAdapter();
+    const graph: GraphData = {
+      nodes: [
+        { id: 'a', label: 'x, "y"', data: { note: 'line one\nline two' } },
+        { id: 'b', label: 'b', data: {} },
+      ],
+      edges: [{ id: 'ab', source: 'a', target: 'b', label: '"quoted"', data: {} }],
+    };
+
+    const csv = adapter.fromGraph(graph);
+
+    expect(csv.nodes).toContain('"x, ""y"""');
+    expect(csv.edges).toContain('"""quoted"""');
+    expect(adapter.toGraph(csv)).toEqual({
+      nodes: graph.nodes,
+      edges: [{ ...graph.edges[0], type: undefined }],
+      metadata: {},
+    });
+  });
+
+  it('reads a custom delimiter and column mapping', () => {
+    const adapter = new CSVAdapter({
+      delimiter: ';',
+      edgeColumns: { source: 'From', target: 'To', type: 'Relation' },
+      nodeColumns: { id: 'Name', label: 'Title' },
+      parseValues: false,
+    });
+
+    const graph = adapter.toGraph({
+      edges: 'from;to;relation;since\napi;db;reads;2021\napi;cache;"reads; writes";2023\n',
+      nodes: 'name;title;owner\napi;Public API;platform\ndb;Postgres;data\n',
+    });
+
+    expect(graph.nodes).toEqual([
+      { id: 'api', label: 'Public API', type: undefined, data: { owner: 'platform' } },
+      { id: 'db', label: 'Postgres', type: undefined, data: { owner: 'data' } },
+      { id: 'cache', label: 'cache', data: {} },
+    ]);
+    expect(graph.edges.map(edge => [edge.source, edge.target, edge.type, edge.data])).toEqual([
+      ['api', 'db', 'reads', { since: '2021' }],
+      ['api', 'cache', 'reads; writes', { since: '2023' }],
+    ]);
+
+    const csv = adapter.fromGraph(graph);
+    expect(csv.edges.split('\n')[0]).toBe('id;From;To;Relation;since');
+    expect(adapter.toGraph(csv).edges).toEqual(graph.edges);
+  });
+
+  it('gives every edge a unique ID', () => {
+    const graph = new CSVAdapter().toGraph({ edges: 'id,source,target\n,a,b\ne0,b,c\ne0,c,d\n,d,a\n' });
+
+    expect(graph.edges.map(edge => edge.id)).toEqual(['e1', 'e0', 'e2', 'e3']);
+  });
+
+  it('rejects invalid tables and options', () => {
+    const adapter = new CSVAdapter();
+
+    expect(() => adapter.toGraph({ edges: 'from,target\na,b\n' })).toThrow('CSV edge list has no "source" column');
+    expect(() => adapter.toGraph({ edges: 'source,target\na,\n' }))
+      .toThrow('CSV edge list row at line 2 is missing source or target');
+    expect(() => adapter.toGraph({ edges: 'source,target\n', nodes: 'id,label\n,x\n' }))
+      .toThrow('CSV node list row at line 2 has no ID');
+    expect(() => adapter.toGraph({} as never)).toThrow('Invalid CSV data format');
+    expect(() => new CSVAdapter({ delimiter: '"' })).toThrow('Invalid CSV delimiter');
+  });
+});
@@ -0,0 +1,403 @@
+/**
+ * CSVAdapter - Converts between CSV edge and node lists and our internal graph format
+ */
+import { DataAdapter, CSVData } from './AdapterTypes';
+import { GraphData, Node, Edge } from '../types/graph';
+
+/**
+ * Names of the edge list columns with a special meaning
+ */
+export interface CSVEdgeColumns {
+  /** Column with the edge ID; rows get generated IDs when it is missing */
+  id?: string;
+  /** Column with the source node ID */
+  source?: string;
+  /** Column with the target node ID */
+  target?: string;
+  /** Column with the edge label */
+  label?: string;
+  /** Column with the edge type */
+  type?: string;
+  /** Column with the edge weight, stored as a number in `data.weight` */
+  weight?: string;
+}
+
+/**
+ * Names of the node list columns with a special meaning
+ */
+export interface CSVNodeColumns {
+  /** Column with the node ID */
+  id?: string;
+  /** Column with the node label */
+  label?: string;
+  /** Column with the node type */
+  type?: string;
+}
+
+export interface CSVAdapterOptions {
+  /** Character separating the fields of a row, e.g. ';' or '\t' */
+  delimiter?: string;
+  /** Column names of the edge list; header names are matched case-insensitively */
+  edgeColumns?: CSVEdgeColumns;
+  /** Column names of the node list; header names are matched case-insensitively */
+  nodeColumns?: CSVNodeColumns;
+  /** Convert numbers and true/false in other columns to numbers and booleans */
+  parseValues?: boolean;
+}
+
+const DEFAULT_EDGE_COLUMNS: Required<CSVEdgeColumns> = {
+  id: 'id',
+  source: 'source',
+  target: 'target',
+  label: 'label',
+  type: 'type',
+  weight: 'weight',
+};
+
+const DEFAULT_NODE_COLUMNS: Required<CSVNodeColumns> = {
+  id: 'id',
+  label: 'label',
+  type: 'type',
+};
+
+/**
+ * Adapter for spreadsheet-style CSV tables
+ *
+ * Mapped columns fill the fields of the same name; all other columns go into
+ * `data`, keyed by their header. Empty cells are left out. Nodes that only
+ * appear in the edge list are created with their ID as label.
+ */
+export class CSVAdapter implements DataAdapter<CSVData> {
+  private readonly delimiter: string;
+  private readonly edgeColumns: Required<CSVEdgeColumns>;
+  private readonly nodeColumns: Required<CSVNodeColumns>;
+  private readonly parseValues: boolean;
+
+  constructor(options: CSVAdapterOptions = {}) {
+    const { delimiter = ',', edgeColumns, nodeColumns, parseValues = true } = options;
+    if (delimiter.length !== 1 || delimiter === '"' || delimiter === '\n' || delimiter === '\r') {
+      throw new Error(`Invalid CSV delimiter: ${JSON.stringify(delimiter)}`);
+    }
+
+    this.delimiter = delimiter;
+    this.edgeColumns = { ...DEFAULT_EDGE_COLUMNS, ...edgeColumns };
+    this.nodeColumns = { ...DEFAULT_NODE_COLUMNS, ...nodeColumns };
+    this.parseValues = parseValues;
+  }
+
+  /**
+   * Convert CSV tables to our internal graph format
+   * @param data CSV edge list and optional node list
+   * @returns Our internal graph format
+   */
+  toGraph(data: CSVData): GraphData {
+    if (!data || typeof data.edges !== 'string') {
+      throw new Error('Invalid CSV data format');
+    }
+
+    const nodes = new Map<string, Node>();
+
+    if (data.nodes !== undefined) {
+      const table = this.readTable(data.nodes, 'node list');
+      const columns = this.nodeColumns;
+      const idColumn = findColumn(table.header, columns.id);
+      if (idColumn === -1) {
+        throw new Error(`CSV node list has no "${columns.id}" column`);
+      }
+      const labelColumn = findColumn(table.header, columns.label);
+      const typeColumn = findColumn(table.header, columns.type);
+
+      table.rows.forEach(({ cells, line }) => {
+        const id = cells[idColumn];
+        if (!id) {
+          throw new Error(`CSV node list row at line ${line} has no ID`);
+        }
+
+        nodes.set(id, {
+          id,
+          label: cells[labelColumn] || id,
+          type: cells[typeColumn] || undefined,
+          data: this.readData(table.header, cells, [idColumn, labelColumn, typeColumn])
+        });
+      });
+    }
+
+    const table = this.readTable(data.edges, 'edge list');
+    const columns = this.edgeColumns;
+    const sourceColumn = findColumn(table.header, columns.source);
+    const targetColumn = findColumn(table.header, columns.target);
+    if (sourceColumn === -1 || targetColumn === -1) {
+      throw new Error(
+        `CSV edge list has no "${sourceColumn === -1 ? columns.source : columns.target}" column`
+      );
+    }
+    const idColumn = findColumn(table.header, columns.id);
+    const labelColumn = findColumn(table.header, columns.label);
+    const typeColumn = findColumn(table.header, columns.type);
+    const weightColumn = findColumn(table.header, columns.weight);
+
+    // Rows without an ID, or repeating one, are numbered around the IDs given in the table
+    const givenIds = new Set(table.rows.map(({ cells }) => cells[idColumn]).filter(Boolean));
+    const usedIds = new Set<string>();
+    const claimEdgeId = (id: string | undefined, index: number): string => {
+      let claimed = id && !usedIds.has(id) ? id : undefined;
+      for (let n = index; claimed === undefined; n++) {
+        const candidate = `e${n}`;
+        if (!givenIds.has(candidate) && !usedIds.has(candidate)) claimed = candidate;
+      }
+      usedIds.add(claimed);
+      return claimed;
+    };
+
+    const edges: Edge[] = table.rows.map(({ cells, line }, index) => {
+      const source = cells[sourceColumn];
+      const target = cells[targetColumn];
+      if (!source || !target) {
+        throw new Error(`CSV edge list row at line ${line} is missing source or target`);
+      }
+
+      // Nodes that are only named in the edge list
+      [source, target].forEach(id => {
+        if (!nodes.has(id)) nodes.set(id, { id, label: id, data: {} });
+      });
+
+      const edgeData = this.readData(
+        table.header,
+        cells,
+        [sourceColumn, targetColumn, idColumn, labelColumn, typeColumn, weightColumn]
+      );
+      const weight = cells[weightColumn];
+      if (weight) {
+        const value = Number(weight);
+        edgeData.weight = Number.isNaN(value) ? weight : value;
+      }
+
+      return {
+        id: claimEdgeId(cells[idColumn], index),
+        source,
+        target,
+        type: cells[typeColumn] || undefined,
+        label: cells[labelColumn] || undefined,
+        data: edgeData
+      };
+    });
+
+    return {
+      nodes: Array.from(nodes.values()),
+      edges,
+      metadata: {}
+    };
+  }
+
+  /**
+   * Convert our internal graph format to CSV tables
+   * The node list is always written so that nodes without edges are kept
+   * @param graphData Our internal graph data
+   * @returns CSV edge list and node list
+   */
+  fromGraph(graphData: GraphData): CSVData {
+    if (!graphData || !graphData.nodes || !graphData.edges) {
+      throw new Error('Invalid graph data');
+    }
+
+    const edgeColumns = this.edgeColumns;
+    const edgeHeader = [edgeColumns.id, edgeColumns.source, edgeColumns.target];
+    if (graphData.edges.some(edge => edge.label !== undefined)) edgeHeader.push(edgeColumns.label);
+    if (graphData.edges.some(edge => edge.type !== undefined)) edgeHeader.push(edgeColumns.type);
+    if (graphData.edges.some(edge => edge.data?.weight !== undefined)) edgeHeader.push(edgeColumns.weight);
+    const edgeDataColumns = dataColumns(graphData.edges, [...edgeHeader, 'weight']);
+
+    const edgeRows = graphData.edges.map(edge => {
+      const fields: Record<string, unknown> = {
+        [edgeColumns.id]: edge.id,
+        [edgeColumns.source]: edge.source,
+        [edgeColumns.target]: edge.target,
+        [edgeColumns.label]: edge.label,
+        [edgeColumns.type]: edge.type,
+        [edgeColumns.weight]: edge.data?.weight,
+      };
+      return [
+        ...edgeHeader.map(column => fields[column]),
+        ...edgeDataColumns.map(column => edge.data?.[column]),
+      ];
+    });
+
+    const nodeColumns = this.nodeColumns;
+    const nodeHeader = [nodeColumns.id, nodeColumns.label];
+    if (graphData.nodes.some(node => node.type !== undefined)) nodeHeader.push(nodeColumns.type);
+    const nodeDataColumns = dataColumns(graphData.nodes, nodeHeader);
+
+    const nodeRows = graphData.nodes.map(node => {
+      const fields: Record<string, unknown> = {
+        [nodeColumns.id]: node.id,
+        [nodeColumns.label]: node.label,
+        [nodeColumns.type]: node.type,
+      };
+      return [
+        ...nodeHeader.map(column => fields[column]),
+        ...nodeDataColumns.map(column => node.data?.[column]),
+      ];
+    });
+
+    return {
+      edges: this.writeTable([...edgeHeader, ...edgeDataColumns], edgeRows),
+      nodes: this.writeTable([...nodeHeader, ...nodeDataColumns], nodeRows)
+    };
+  }
+
+  /**
+   * Split CSV text into its header and rows, dropping empty lines
+   */
+  private readTable(text: string, name: string): {
+    header: string[];
+    rows: { cells: string[]; line: number }[];
+  } {
+    const records = parseCSV(text.replace(/^\uFEFF/, ''), this.delimiter, name)
+      .filter(record => record.cells.some(cell => cell.trim() !== ''));
+    if (records.length === 0) {
+      throw new Error(`CSV ${name} is empty`);
+    }
+
+    return {
+      header: records[0].cells.map(cell => cell.trim()),
+      rows: records.slice(1),
+    };
+  }
+
+  /**
+   * Values of the unmapped columns of a row, keyed by header
+   */
+  private readData(header: string[], cells: string[], mapped: number[]): Record<string, unknown> {
+    const data: Record<string, unknown> = {};
+    header.forEach((column, index) => {
+      if (mapped.includes(index) || !column) return;
+      const cell = cells[index];
+      if (cell === undefined || cell === '') return;
+      data[column] = this.parseValues ? parseValue(cell) : cell;
+    });
+    return data;
+  }
+
+  /**
+   * Join a header and rows into CSV text
+   */
+  private writeTable(header: string[], rows: unknown[][]): string {
+    return [header, ...rows]
+      .map(row => row.map(value => this.formatField(value)).join(this.delimiter))
+      .join('\n') + '\n';
+  }
+
+  /**
+   * Write one field, quoting it when it contains the delimiter, quotes or line breaks
+   */
+  private formatField(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    const needsQuotes = text.includes(this.delimiter)
+      || /["\r\n]/.test(text)
+      || text !== text.trim();
+    return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
+
+/**
+ * Split CSV text into records, following RFC 4180 quoting
+ */
+function parseCSV(text: string, delimiter: string, name: string): { cells: string[]; line: number }[] {
+  const records: { cells: string[]; line: number }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let line = 1;
+  let recordLine = 1;
+  let index = 0;
+
+  const endRecord = () => {
+    cells.push(cell);
+    records.push({ cells, line: recordLine });
+    cells = [];
+    cell = '';
+  };
+
+  while (index < text.length) {
+    const char = text[index];
+
+    if (char === '"' && cell.trim() === '') {
+      // Quoted field; doubled quotes stand for one quote
+      const quoteLine = line;
+      cell = '';
+      index++;
+      for (;;) {
+        if (index >= text.length) {
+          throw new Error(`CSV ${name} has an unterminated quoted field starting at line ${quoteLine}`);
+        }
+        if (text[index] === '"') {
+          if (text[index + 1] === '"') {
+            cell += '"';
+            index += 2;
+            continue;
+          }
+          index++;
+          break;
+        }
+        if (text[index] === '\n') line++;
+        cell += text[index];
+        index++;
+      }
+      // Anything between the closing quote and the next delimiter is kept
+      while (index < text.length && text[index] !== delimiter && text[index] !== '\n' && text[index] !== '\r') {
+        cell += text[index];
+        index++;
+      }
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+      index++;
+    } else if (char === '\r' || char === '\n') {
+      endRecord();
+      index += char === '\r' && text[index + 1] === '\n' ? 2 : 1;
+      line++;
+      recordLine = line;
+    } else {
+      cell += char;
+      index++;
+    }
+  }
+
+  if (cell !== '' || cells.length > 0) endRecord();
+  return records;
+}
+
+/**
+ * Index of a column by name, ignoring case; -1 when missing
+ */
+function findColumn(header: string[], name: string): number {
+  const lower = name.toLowerCase();
+  return header.findIndex(column => column.toLowerCase() === lower);
+}
+
+/**
+ * Convert cells that hold plain numbers or booleans; other text is kept as is,
+ * so values like '007' survive
+ */
+function parseValue(cell: string): unknown {
+  if (/^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/.test(cell)) return Number(cell);
+  if (cell === 'true') return true;
+  if (cell === 'false') return false;
+  return cell;
+}
+
+/**
+ * Data fields of a list of nodes or edges in order of first appearance,
+ * leaving out those that clash with the mapped columns
+ */
+function dataColumns(items: { data?: Record<string, unknown> }[], mapped: string[]): string[] {
+  const lower = mapped.map(column => column.toLowerCase());
+  const columns = new Set<string>();
+  items.forEach(item => {
+    Object.entries(item.data || {}).forEach(([key, value]) => {
+      if (value === undefined || value === null || lower.includes(key.toLowerCase())) return;
+      columns.add(key);
+    });
+  });
+  return Array.from(columns);
+}
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import { DOTAdapter, DOTParseError } from './DOTAdapter';
+
+const adapter = new DOTAdapter();
+
+const clustered = `digraph G {
+  rankdir=LR;
+  subgraph cluster_outer {
+    label="Outer";
+    a;
+    subgraph cluster_inner {
+      color=blue;
+      b [shape=box];
+    }
+  }
+  subgraph { c }
+  a -> b -> c;
+}`;
+
+describe('DOTAdapter', () => {
+  it('puts nodes of named subgraphs in their innermost group', () => {
+    const graph = adapter.toGraph(clustered);
+
+    expect(graph.nodes.map(node => [node.id, node.data?.group])).toEqual([
+      ['a', 'cluster_outer'],
+      ['b', 'cluster_inner'],
+      ['c', undefined],
+    ]);
+    expect(graph.metadata).toEqual({
+      rankdir: 'LR',
+      id: 'G',
+      directed: true,
+      groups: [
+        { id: 'cluster_outer', parent: undefined, attributes: { label: 'Outer' } },
+        { id: 'cluster_inner', parent: 'cluster_outer', attributes: { color: 'blue' } },
+      ],
+    });
+  });
+
+  it('reads edge chains, ports and attributes', () => {
+    const graph = adapter.toGraph(`digraph {
+      edge [color=red];
+      a:out:e -> b:n -> c [label="two\\nlines", weight=2];
+    }`);
+
+    expect(graph.edges).toEqual([
+      {
+        id: 'e0',
+        source: 'a',
+        target: 'b',
+        type: undefined,
+        label: 'two\nlines',
+        data: { color: 'red', weight: '2', tailport: 'out:e', headport: 'n' },
+      },
+      {
+        id: 'e1',
+        source: 'b',
+        target: 'c',
+        type: undefined,
+        label: 'two\nlines',
+        data: { color: 'red', weight: '2', tailport: 'n' },
+      },
+    ]);
+  });
+
+  it('keeps edge IDs unique', () => {
+    const graph = adapter.toGraph(`digraph {
+      a -> b [id=x];
+      b -> c [id=x];
+      c -> d;
+      d -> a [id=e3];
+      a -> c [id=e2];
+    }`);
+
+    expect(graph.edges.map(edge => edge.id)).toEqual(['x', 'e1', 'e2', 'e3', 'e4']);
+    // Numbered IDs skip the ones given explicitly
+    expect(adapter.toGraph('digraph { a -> b [id=e1]; b -> c; c -> d }').edges.map(edge => edge.id))
+      .toEqual(['e1', 'e2', 'e3']);
+  });
+
+  it('reports the line and column of syntax errors', () => {
+    let error: unknown;
+    try {
+      adapter.toGraph('digraph {\n  a -> ;\n}');
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(DOTParseError);
+    expect(error).toMatchObject({ line: 2, column: 8 });
+
+    expect(() => adapter.toGraph('graph { a -> b }')).toThrow(/"->" is not allowed in an undirected graph at line 1, column 11/);
+    expect(() => adapter.toGraph('digraph { "open }')).toThrow(DOTParseError);
+    expect(() => adapter.toGraph(42 as unknown as string)).toThrow('Invalid DOT data format');
+  });
+
+  it('keeps HTML labels as HTML', () => {
+    const graph = adapter.toGraph(`digraph {
+      label=<<i>deps</i>>;
+      node [label=<<b>default</b>>];
+      a;
+      b [label="plain\\n"];
+      a -> b [label=<<u>x</u>\\n>];
+    }`);
+
+    expect(graph.nodes.map(node => [node.label, node.data])).toEqual([
+      ['<b>default</b>', { htmlLabel: true }],
+      ['plain\n', {}],
+    ]);
+    expect(graph.edges[0]).toMatchObject({ label: '<u>x</u>\\n', data: { htmlLabel: true } });
+    expect(graph.metadata).toMatchObject({ label: '<i>deps</i>', htmlLabel: true });
+
+    const output = adapter.fromGraph(graph);
+
+    expect(output).toContain('a [label=<<b>default</b>>];');
+    expect(output).toContain('b [label="plain\\n"];');
+    expect(output).toContain('a -> b [label=<<u>x</u>\\n>];');
+    expect(output).toContain('label=<<i>deps</i>>;');
+    expect(adapter.toGraph(output)).toEqual(graph);
+  });
+
+  it('round trips groups, ports and attributes', () => {
+    const graph = adapter.toGraph(`strict graph "My graph" {
+      subgraph cluster_x { label="X"; a [label="Start", type=source]; b }
+      a:p1 -- b:s [label=go];
+      b -- "c d";
+    }`);
+
+    const output = adapter.fromGraph(graph);
+
+    expect(output).toContain('strict graph "My graph" {');
+    expect(output).toContain('a:p1 -- b:s [label=go];');
+    expect(adapter.toGraph(output)).toEqual(graph);
+  });
+
+  it('writes a cluster for groups that are not described in the metadata', () => {
+    const output = adapter.fromGraph({
+      nodes: [{ id: 'a', data: { group: 'team' } }, { id: 'b' }],
+      edges: [{ id: 'ab', source: 'a', target: 'b' }],
+    });
+
+    const graph = adapter.toGraph(output);
+
+    expect(graph.nodes.map(node => [node.id, node.data?.group])).toEqual([
+      ['a', 'cluster_team'],
+      ['b', undefined],
+    ]);
+    expect(graph.metadata?.groups).toEqual([{ id: 'cluster_team', parent: undefined, attributes: { label: 'team' } }]);
+  });
+});
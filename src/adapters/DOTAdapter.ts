@@ -0,0 +1,690 @@
+/**
+ * DOTAdapter - Converts between Graphviz DOT documents and our internal graph format
+ * @see https://graphviz.org/doc/info/lang.html
+ */
+import { DataAdapter, DOTData, DOTGroup } from './AdapterTypes';
+import { GraphData, Node, Edge } from '../types/graph';
+
+/**
+ * Syntax error in a DOT document, with the position where it was found
+ */
+export class DOTParseError extends Error {
+  /** Line of the error, starting at 1 */
+  readonly line: number;
+  /** Column of the error, starting at 1 */
+  readonly column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`${message} at line ${line}, column ${column}`);
+    this.name = 'DOTParseError';
+    this.line = line;
+    this.column = column;
+  }
+}
+
+/**
+ * Adapter for Graphviz DOT
+ *
+ * `label` and `type` attributes fill the node and edge fields of the same name;
+ * all other attributes, such as `shape` and `color`, go into `data` as strings.
+ * HTML labels keep their markup and set `htmlLabel`, so they are written back as HTML.
+ * Nodes of a named subgraph or cluster get its ID in `data.group`, and the
+ * subgraphs themselves are described in `metadata.groups`.
+ */
+export class DOTAdapter implements DataAdapter<DOTData> {
+  /**
+   * Convert a DOT document to our internal graph format
+   * @param data DOT document
+   * @returns Our internal graph format
+   * @throws DOTParseError when the document is not valid DOT
+   */
+  toGraph(data: DOTData): GraphData {
+    if (typeof data !== 'string') {
+      throw new Error('Invalid DOT data format');
+    }
+
+    return new DOTParser(tokenize(data)).parse();
+  }
+
+  /**
+   * Convert our internal graph format to a DOT document
+   * @param graphData Our internal graph data
+   * @returns DOT document
+   */
+  fromGraph(graphData: GraphData): DOTData {
+    if (!graphData || !graphData.nodes || !graphData.edges) {
+      throw new Error('Invalid graph data');
+    }
+
+    const metadata = graphData.metadata || {};
+    const directed = metadata.directed !== false;
+    const edgeOp = directed ? '->' : '--';
+
+    // Subgraphs described by the metadata, plus a cluster for any other group
+    const groups = new Map<string, DOTGroup>();
+    if (Array.isArray(metadata.groups)) {
+      (metadata.groups as DOTGroup[]).forEach(group => groups.set(group.id, group));
+    }
+
+    const members = new Map<string, Node[]>();
+    const topLevel: Node[] = [];
+    graphData.nodes.forEach(node => {
+      const group = node.data?.group;
+      if (typeof group !== 'string') {
+        topLevel.push(node);
+        return;
+      }
+      if (!groups.has(group)) {
+        groups.set(group, { id: `cluster_${group}`, attributes: { label: group } });
+      }
+      const id = groups.get(group)!.id;
+      if (!members.has(id)) members.set(id, []);
+      members.get(id)!.push(node);
+    });
+
+    const childGroups = new Map<string | undefined, DOTGroup[]>();
+    const groupIds = new Set(Array.from(groups.values()).map(group => group.id));
+    groups.forEach(group => {
+      const parent = group.parent !== undefined && groupIds.has(group.parent) ? group.parent : undefined;
+      if (!childGroups.has(parent)) childGroups.set(parent, []);
+      childGroups.get(parent)!.push(group);
+    });
+
+    const nodeLine = (node: Node, indent: string): string => {
+      const attributes: Record<string, unknown> = { ...node.data };
+      delete attributes.group;
+      if (node.type !== undefined) attributes.type = node.type;
+      if (node.label !== undefined && (node.label !== node.id || isHTMLLabel(attributes))) {
+        attributes.label = node.label;
+      }
+      return `${indent}${quoteId(node.id)}${formatAttributes(attributes)};`;
+    };
+
+    const written = new Set<string>();
+    const groupLines = (group: DOTGroup, indent: string): string[] => {
+      written.add(group.id);
+      const lines = [`${indent}subgraph ${quoteId(group.id)} {`];
+      const attributes = group.attributes || {};
+      Object.entries(attributes).forEach(([name, value]) => {
+        if (name === HTML_LABEL) return;
+        lines.push(`${indent}  ${quoteId(name)}=${quoteValue(name, value, isHTMLLabel(attributes))};`);
+      });
+      (childGroups.get(group.id) || []).forEach(child => {
+        if (!written.has(child.id)) lines.push(...groupLines(child, `${indent}  `));
+      });
+      (members.get(group.id) || []).forEach(node => lines.push(nodeLine(node, `${indent}  `)));
+      lines.push(`${indent}}`);
+      return lines;
+    };
+
+    const graphId = typeof metadata.id === 'string' ? `${quoteId(metadata.id)} ` : '';
+    const lines = [`${metadata.strict === true ? 'strict ' : ''}${directed ? 'digraph' : 'graph'} ${graphId}{`];
+
+    Object.entries(metadata).forEach(([name, value]) => {
+      if (['id', 'directed', 'strict', 'groups', HTML_LABEL].includes(name)) return;
+      if (value === undefined || value === null || typeof value === 'object') return;
+      lines.push(`  ${quoteId(name)}=${quoteValue(name, value, isHTMLLabel(metadata))};`);
+    });
+
+    (childGroups.get(undefined) || []).forEach(group => lines.push(...groupLines(group, '  ')));
+    // Groups whose parents form a cycle are never reached from the top level
+    groups.forEach(group => {
+      if (!written.has(group.id)) lines.push(...groupLines(group, '  '));
+    });
+    topLevel.forEach(node => lines.push(nodeLine(node, '  ')));
+
+    graphData.edges.forEach(edge => {
+      const attributes: Record<string, unknown> = { ...edge.data };
+      const { tailport, headport } = attributes;
+      delete attributes.tailport;
+      delete attributes.headport;
+      if (edge.type !== undefined) attributes.type = edge.type;
+      if (edge.label !== undefined) attributes.label = edge.label;
+
+      const tail = quoteId(edge.source) + formatPort(tailport);
+      const head = quoteId(edge.target) + formatPort(headport);
+      lines.push(`  ${tail} ${edgeOp} ${head}${formatAttributes(attributes)};`);
+    });
+
+    lines.push('}');
+    return lines.join('\n') + '\n';
+  }
+}
+
+type TokenKind = 'id' | 'punct' | 'edgeop' | 'eof';
+
+interface Token {
+  kind: TokenKind;
+  value: string;
+  /** Whether an ID was quoted or HTML, so it cannot be a keyword */
+  quoted: boolean;
+  /** Whether an ID was an HTML string */
+  html?: boolean;
+  line: number;
+  column: number;
+}
+
+const KEYWORDS = ['strict', 'graph', 'digraph', 'node', 'edge', 'subgraph'];
+
+// Marks a label written as an HTML string; parsed attribute lists set it next to every label
+const HTML_LABEL = 'htmlLabel';
+
+/**
+ * Split a DOT document into tokens, dropping whitespace and comments
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const fail = (message: string, at = index): never => {
+    throw new DOTParseError(message, line, at - lineStart + 1);
+  };
+
+  // Move past a stretch of source, keeping track of line starts
+  const advance = (to: number) => {
+    for (let i = index; i < to; i++) {
+      if (source[i] === '\n') {
+        line++;
+        lineStart = i + 1;
+      }
+    }
+    index = to;
+  };
+
+  while (index < source.length) {
+    const char = source[index];
+    const start = index;
+    const column = index - lineStart + 1;
+    const push = (kind: TokenKind, value: string, quoted = false) => {
+      tokens.push({ kind, value, quoted, line, column });
+    };
+
+    if (/\s/.test(char)) {
+      advance(index + 1);
+    } else if (source.startsWith('//', index)) {
+      const end = source.indexOf('\n', index);
+      advance(end === -1 ? source.length : end);
+    } else if (source.startsWith('/*', index)) {
+      const end = source.indexOf('*/', index + 2);
+      if (end === -1) fail('Unterminated comment');
+      advance(end + 2);
+    } else if (char === '#' && source.slice(lineStart, index).trim() === '') {
+      // Lines starting with # are preprocessor output
+      const end = source.indexOf('\n', index);
+      advance(end === -1 ? source.length : end);
+    } else if (source.startsWith('->', index) || source.startsWith('--', index)) {
+      push('edgeop', source.slice(index, index + 2));
+      advance(index + 2);
+    } else if ('{}[];,=:'.includes(char)) {
+      push('punct', char);
+      advance(index + 1);
+    } else if (char === '"') {
+      const tokenLine = line;
+      let value = '';
+      let i = index + 1;
+      for (;;) {
+        if (i >= source.length) fail('Unterminated string', start);
+        if (source[i] === '"') break;
+        if (source[i] === '\\' && source[i + 1] === '"') {
+          value += '"';
+          i += 2;
+        } else if (source[i] === '\\' && source[i + 1] === '\n') {
+          i += 2;
+        } else if (source[i] === '\\' && source[i + 1] === '\r' && source[i + 2] === '\n') {
+          i += 3;
+        } else {
+          value += source[i];
+          i++;
+        }
+      }
+      advance(i + 1);
+      // Quoted strings joined with + form one ID
+      const previous = tokens[tokens.length - 1];
+      const beforePrevious = tokens[tokens.length - 2];
+      if (previous?.kind === 'punct' && previous.value === '+' && beforePrevious?.quoted) {
+        tokens.pop();
+        beforePrevious.value += value;
+      } else {
+        tokens.push({ kind: 'id', value, quoted: true, line: tokenLine, column });
+      }
+    } else if (char === '+') {
+      push('punct', '+');
+      advance(index + 1);
+    } else if (char === '<') {
+      // HTML string; angle brackets nest
+      let depth = 0;
+      let i = index;
+      do {
+        if (i >= source.length) fail('Unterminated HTML string', start);
+        if (source[i] === '<') depth++;
+        if (source[i] === '>') depth--;
+        i++;
+      } while (depth > 0);
+      const tokenLine = line;
+      const value = source.slice(index + 1, i - 1);
+      advance(i);
+      tokens.push({ kind: 'id', value, quoted: true, html: true, line: tokenLine, column });
+    } else {
+      const match = /^(?:-?(?:\.[0-9]+|[0-9]+(?:\.[0-9]*)?)|[A-Za-z_\u0080-\uffff][A-Za-z_0-9\u0080-\uffff]*)/
+        .exec(source.slice(index, index + 1024));
+      if (!match) fail(`Unexpected character "${char}"`);
+      push('id', match![0]);
+      advance(index + match![0].length);
+    }
+  }
+
+  const stray = tokens.find(token => token.kind === 'punct' && token.value === '+');
+  if (stray) throw new DOTParseError('Unexpected "+"', stray.line, stray.column);
+
+  tokens.push({ kind: 'eof', value: '', quoted: false, line, column: index - lineStart + 1 });
+  return tokens;
+}
+
+/**
+ * Attribute defaults and group of the graph or subgraph being parsed
+ */
+interface Scope {
+  nodeDefaults: Record<string, string>;
+  edgeDefaults: Record<string, string>;
+  group?: string;
+}
+
+/**
+ * Recursive descent parser over the tokens of one DOT graph
+ */
+class DOTParser {
+  private position = 0;
+  private directed = true;
+  private readonly nodeAttributes = new Map<string, Record<string, string>>();
+  private readonly nodeGroups = new Map<string, string>();
+  private readonly edges: Edge[] = [];
+  private readonly edgeIds = new Set<string>();
+  private readonly groups: DOTGroup[] = [];
+  private readonly graphAttributes: Record<string, string> = {};
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): GraphData {
+    const strict = this.acceptKeyword('strict');
+    if (this.acceptKeyword('digraph')) {
+      this.directed = true;
+    } else if (this.acceptKeyword('graph')) {
+      this.directed = false;
+    } else {
+      this.fail('Expected "graph" or "digraph"');
+    }
+
+    const id = this.peek().kind === 'id' ? this.next().value : undefined;
+    this.expect('{');
+    this.parseStatements({ nodeDefaults: {}, edgeDefaults: {} }, this.graphAttributes);
+    this.expect('}');
+    if (this.peek().kind !== 'eof') {
+      this.fail('Expected the end of the document');
+    }
+
+    const nodes: Node[] = [];
+    this.nodeAttributes.forEach((attributes, nodeId) => {
+      const { label, type, [HTML_LABEL]: htmlLabel, ...rest } = attributes;
+      const data: Record<string, unknown> = { ...rest };
+      const group = this.nodeGroups.get(nodeId);
+      if (group !== undefined) data.group = group;
+      if (htmlLabel === 'true') data[HTML_LABEL] = true;
+
+      nodes.push({
+        id: nodeId,
+        // \N stands for the node name
+        label: label !== undefined && label !== '\\N' ? readLabel(label, htmlLabel) : nodeId,
+        type,
+        data
+      });
+    });
+
+    const { [HTML_LABEL]: htmlLabel, ...graphAttributes } = this.graphAttributes;
+    const metadata: Record<string, unknown> = graphAttributes;
+    if (htmlLabel === 'true') metadata[HTML_LABEL] = true;
+    if (id !== undefined) metadata.id = id;
+    metadata.directed = this.directed;
+    if (strict) metadata.strict = true;
+    this.groups.forEach(group => {
+      if (group.attributes[HTML_LABEL] !== 'true') delete group.attributes[HTML_LABEL];
+    });
+    if (this.groups.length > 0) metadata.groups = this.groups;
+
+    return {
+      nodes,
+      edges: this.edges,
+      metadata
+    };
+  }
+
+  /**
+   * Parse statements up to the closing brace of the current graph or subgraph
+   * @returns IDs of the nodes used in the statements
+   */
+  private parseStatements(scope: Scope, graphAttributes: Record<string, string>): Set<string> {
+    const used = new Set<string>();
+
+    while (!this.isPunct('}')) {
+      if (this.peek().kind === 'eof') {
+        this.fail('Expected "}"');
+      }
+
+      if (this.isKeyword('graph') || this.isKeyword('node') || this.isKeyword('edge')) {
+        const target = this.next().value.toLowerCase();
+        const attributes = this.parseAttributeLists(true);
+        if (target === 'graph') Object.assign(graphAttributes, attributes);
+        if (target === 'node') Object.assign(scope.nodeDefaults, attributes);
+        if (target === 'edge') Object.assign(scope.edgeDefaults, attributes);
+      } else if (this.peek().kind === 'id' && this.peekAt(1).kind === 'punct' && this.peekAt(1).value === '='
+        && !this.isKeyword('subgraph')) {
+        this.parseAttribute(graphAttributes);
+      } else {
+        this.parseNodeOrEdge(scope, used);
+      }
+
+      if (this.isPunct(';')) this.next();
+    }
+
+    return used;
+  }
+
+  /**
+   * Parse a node statement or an edge statement with its chain of endpoints
+   */
+  private parseNodeOrEdge(scope: Scope, used: Set<string>): void {
+    const first = this.parseEndpoint(scope, used);
+
+    if (this.peek().kind !== 'edgeop') {
+      if (first.subgraph) return;
+      const attributes = this.parseAttributeLists(false);
+      Object.assign(this.nodeAttributes.get(first.ids[0])!, attributes);
+      return;
+    }
+
+    const chain = [first];
+    while (this.peek().kind === 'edgeop') {
+      const op = this.next();
+      if (op.value !== (this.directed ? '->' : '--')) {
+        throw new DOTParseError(
+          `"${op.value}" is not allowed in ${this.directed ? 'a digraph' : 'an undirected graph'}`,
+          op.line,
+          op.column
+        );
+      }
+      chain.push(this.parseEndpoint(scope, used));
+    }
+
+    const attributes = { ...scope.edgeDefaults, ...this.parseAttributeLists(false) };
+    for (let i = 0; i < chain.length - 1; i++) {
+      chain[i].ids.forEach(source => {
+        chain[i + 1].ids.forEach(target => {
+          const { id, label, type, [HTML_LABEL]: htmlLabel, ...rest } = attributes;
+          const data: Record<string, unknown> = { ...rest };
+          if (chain[i].port !== undefined) data.tailport = chain[i].port;
+          if (chain[i + 1].port !== undefined) data.headport = chain[i + 1].port;
+          if (htmlLabel === 'true') data[HTML_LABEL] = true;
+
+          this.edges.push({
+            id: this.claimEdgeId(id),
+            source,
+            target,
+            type,
+            label: label !== undefined ? readLabel(label, htmlLabel) : undefined,
+            data
+          });
+        });
+      });
+    }
+  }
+
+  /**
+   * Reserve the ID of a new edge, numbering edges without an ID or with one already taken
+   */
+  private claimEdgeId(id: string | undefined): string {
+    let claimed = id;
+    for (let n = this.edges.length; claimed === undefined || this.edgeIds.has(claimed); n++) {
+      claimed = `e${n}`;
+    }
+    this.edgeIds.add(claimed);
+    return claimed;
+  }
+
+  /**
+   * Parse a node ID with an optional port, or a subgraph, as one end of an edge
+   */
+  private parseEndpoint(
+    scope: Scope,
+    used: Set<string>
+  ): { ids: string[]; port?: string; subgraph: boolean } {
+    if (this.isKeyword('subgraph') || this.isPunct('{')) {
+      const ids = this.parseSubgraph(scope);
+      ids.forEach(id => used.add(id));
+      return { ids: Array.from(ids), subgraph: true };
+    }
+
+    const id = this.expectId();
+    let port: string | undefined;
+    if (this.isPunct(':')) {
+      this.next();
+      port = this.expectId();
+      if (this.isPunct(':')) {
+        this.next();
+        port += `:${this.expectId()}`;
+      }
+    }
+
+    this.useNode(id, scope);
+    used.add(id);
+    return { ids: [id], port, subgraph: false };
+  }
+
+  /**
+   * Parse a subgraph; named subgraphs become groups of the nodes in them
+   * @returns IDs of the nodes used in the subgraph
+   */
+  private parseSubgraph(scope: Scope): Set<string> {
+    let name: string | undefined;
+    if (this.acceptKeyword('subgraph') && this.peek().kind === 'id') {
+      name = this.next().value;
+    }
+
+    const attributes: Record<string, string> = {};
+    let group = scope.group;
+    if (name !== undefined) {
+      const existing = this.groups.find(g => g.id === name);
+      if (existing) {
+        Object.assign(attributes, existing.attributes);
+      } else {
+        this.groups.push({ id: name, parent: scope.group, attributes });
+      }
+      group = name;
+    }
+
+    this.expect('{');
+    const used = this.parseStatements({
+      nodeDefaults: { ...scope.nodeDefaults },
+      edgeDefaults: { ...scope.edgeDefaults },
+      group,
+    }, attributes);
+    this.expect('}');
+
+    if (name !== undefined) {
+      const existing = this.groups.find(g => g.id === name)!;
+      existing.attributes = { ...existing.attributes, ...attributes };
+    }
+
+    return used;
+  }
+
+  /**
+   * Create a node the first time it is used and move it into the innermost group it appears in
+   */
+  private useNode(id: string, scope: Scope): void {
+    if (!this.nodeAttributes.has(id)) {
+      this.nodeAttributes.set(id, { ...scope.nodeDefaults });
+    }
+
+    if (scope.group !== undefined) {
+      const current = this.nodeGroups.get(id);
+      if (current === undefined || this.isAncestorGroup(current, scope.group)) {
+        this.nodeGroups.set(id, scope.group);
+      }
+    }
+  }
+
+  /**
+   * Whether a group contains another one, directly or through nested groups
+   */
+  private isAncestorGroup(ancestor: string, group: string): boolean {
+    let current = this.groups.find(g => g.id === group)?.parent;
+    while (current !== undefined) {
+      if (current === ancestor) return true;
+      const parent: string | undefined = this.groups.find(g => g.id === current)?.parent;
+      current = parent;
+    }
+    return false;
+  }
+
+  /**
+   * Parse one or more `[name=value, ...]` lists and merge them
+   */
+  private parseAttributeLists(required: boolean): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    if (required && !this.isPunct('[')) {
+      this.fail('Expected "["');
+    }
+
+    while (this.isPunct('[')) {
+      this.next();
+      while (!this.isPunct(']')) {
+        this.parseAttribute(attributes);
+        if (this.isPunct(',') || this.isPunct(';')) this.next();
+      }
+      this.next();
+    }
+
+    return attributes;
+  }
+
+  /**
+   * Parse one `name=value` pair into a set of attributes
+   */
+  private parseAttribute(attributes: Record<string, string>): void {
+    const name = this.expectId();
+    this.expect('=');
+    const html = this.peek().html === true;
+    attributes[name] = this.expectId();
+    // Set the marker along with every label, so a later plain label clears it
+    if (name === 'label') attributes[HTML_LABEL] = String(html);
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position];
+  }
+
+  private peekAt(offset: number): Token {
+    return this.tokens[Math.min(this.position + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position];
+    if (token.kind !== 'eof') this.position++;
+    return token;
+  }
+
+  private isPunct(value: string): boolean {
+    const token = this.peek();
+    return token.kind === 'punct' && token.value === value;
+  }
+
+  private isKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return token.kind === 'id' && !token.quoted && token.value.toLowerCase() === keyword;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    if (!this.isKeyword(keyword)) return false;
+    this.next();
+    return true;
+  }
+
+  private expect(value: string): void {
+    if (!this.isPunct(value)) {
+      this.fail(`Expected "${value}"`);
+    }
+    this.next();
+  }
+
+  private expectId(): string {
+    const token = this.peek();
+    if (token.kind !== 'id' || (!token.quoted && KEYWORDS.includes(token.value.toLowerCase()))) {
+      this.fail('Expected an ID');
+    }
+    return this.next().value;
+  }
+
+  private fail(message: string, token: Token = this.peek()): never {
+    const found = token.kind === 'eof' ? 'end of input' : `"${token.value}"`;
+    throw new DOTParseError(`${message} but found ${found}`, token.line, token.column);
+  }
+}
+
+/**
+ * Turn the line break escapes of a label into newlines
+ */
+function unescapeLabel(label: string): string {
+  return label.replace(/\\[nlr]/g, '\n');
+}
+
+/**
+ * Read a parsed label; HTML labels are kept as they are
+ */
+function readLabel(label: string, htmlLabel: string | undefined): string {
+  return htmlLabel === 'true' ? label : unescapeLabel(label);
+}
+
+/**
+ * Whether the label in a set of attributes is to be written as HTML
+ */
+function isHTMLLabel(attributes: Record<string, unknown>): boolean {
+  return attributes[HTML_LABEL] === true || attributes[HTML_LABEL] === 'true';
+}
+
+/**
+ * Write an ID bare when DOT allows it and quoted otherwise
+ */
+function quoteId(id: string): string {
+  const bare = /^[A-Za-z_][A-Za-z_0-9]*$/.test(id) && !KEYWORDS.includes(id.toLowerCase());
+  const numeral = /^-?(\.[0-9]+|[0-9]+(\.[0-9]*)?)$/.test(id);
+  return bare || numeral ? id : `"${id.replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Write an attribute value; labels get their newlines escaped, unless they are HTML,
+ * and objects are written as JSON
+ */
+function quoteValue(name: string, value: unknown, htmlLabel = false): string {
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (name === 'label' && htmlLabel) return `<${text}>`;
+  return quoteId(name === 'label' ? text.replace(/\r?\n/g, '\\n') : text);
+}
+
+/**
+ * Write a port and compass point suffix, or nothing when there is no port
+ */
+function formatPort(port: unknown): string {
+  return typeof port === 'string' ? port.split(':').map(part => `:${quoteId(part)}`).join('') : '';
+}
+
+/**
+ * Write an attribute list, or nothing when there are no attributes
+ */
+function formatAttributes(attributes: Record<string, unknown>): string {
+  const htmlLabel = isHTMLLabel(attributes);
+  const entries = Object.entries(attributes)
+    .filter(([name, value]) => value !== undefined && value !== null && name !== HTML_LABEL)
+    .map(([name, value]) => `${quoteId(name)}=${quoteValue(name, value, htmlLabel)}`);
+  return entries.length > 0 ? ` [${entries.join(', ')}]` : '';
+}
@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import { GEXFAdapter } from './GEXFAdapter';
+
+const adapter = new GEXFAdapter();
+
+const dynamicDocument = `<?xml version="1.0" encoding="UTF-8"?>
+<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">
+  <meta lastmodifieddate="2024-01-01">
+    <creator>Gephi</creator>
+    <description>Friends</description>
+  </meta>
+  <graph defaultedgetype="undirected" mode="dynamic" timeformat="double" start="0" end="10">
+    <attributes class="node" mode="static">
+      <attribute id="0" title="tags" type="liststring"/>
+      <attribute id="1" title="scores" type="listinteger"/>
+      <attribute id="2" title="active" type="boolean"><default>true</default></attribute>
+    </attributes>
+    <attributes class="node" mode="dynamic">
+      <attribute id="3" title="score" type="float"/>
+    </attributes>
+    <attributes class="edge" mode="static">
+      <attribute id="0" title="kind" type="string"/>
+    </attributes>
+    <nodes>
+      <node id="a" label="Alice" start="1">
+        <attvalues>
+          <attvalue for="0" value="[red, blue]"/>
+          <attvalue for="1" value="1|2|3"/>
+          <attvalue for="3" value="0.5" start="1" end="4"/>
+          <attvalue for="3" value="0.75" start="4"/>
+        </attvalues>
+        <viz:color r="255" g="128" b="0"/>
+        <viz:position x="10.5" y="-3" z="0"/>
+        <viz:size value="4"/>
+      </node>
+      <node id="b">
+        <attvalues><attvalue for="2" value="false"/></attvalues>
+        <spells>
+          <spell start="2" end="5"/>
+          <spell start="7"/>
+        </spells>
+        <viz:color r="0" g="0" b="255" a="0.5"/>
+        <viz:shape value="square"/>
+      </node>
+    </nodes>
+    <edges>
+      <edge id="ab" source="a" target="b" weight="2" label="knows">
+        <attvalues><attvalue for="0" value="friend"/></attvalues>
+        <viz:thickness value="3"/>
+      </edge>
+    </edges>
+  </graph>
+</gexf>`;
+
+describe('GEXFAdapter', () => {
+  it('reads spells and dynamic attribute values', () => {
+    const graph = adapter.toGraph(dynamicDocument);
+    const [a, b] = graph.nodes;
+
+    expect(a.data?.spells).toEqual([{ start: 1 }]);
+    expect(a.data?.dynamic).toEqual({
+      score: [
+        { value: 0.5, start: 1, end: 4 },
+        { value: 0.75, start: 4 },
+      ],
+    });
+    expect(b.data?.spells).toEqual([{ start: 2, end: 5 }, { start: 7 }]);
+    expect(graph.metadata).toEqual({
+      directed: false,
+      mode: 'dynamic',
+      timeformat: 'double',
+      start: 0,
+      end: 10,
+      lastModified: '2024-01-01',
+      creator: 'Gephi',
+      description: 'Friends',
+    });
+  });
+
+  it('keeps dates as text in date time formats', () => {
+    const graph = adapter.toGraph(`<gexf><graph timeformat="date">
+      <nodes><node id="a" start="2024-01-01" end="2024-02-01"/></nodes>
+    </graph></gexf>`);
+
+    expect(graph.nodes[0].data?.spells).toEqual([{ start: '2024-01-01', end: '2024-02-01' }]);
+  });
+
+  it('reads viz colors, positions, sizes and shapes', () => {
+    const graph = adapter.toGraph(dynamicDocument);
+    const [a, b] = graph.nodes;
+
+    expect(a.data).toMatchObject({ color: '#ff8000', x: 10.5, y: -3, size: 4 });
+    expect(a.data).not.toHaveProperty('z');
+    expect(b.data).toMatchObject({ color: 'rgba(0, 0, 255, 0.5)', shape: 'square' });
+    expect(graph.edges[0]).toEqual({
+      id: 'ab',
+      source: 'a',
+      target: 'b',
+      type: undefined,
+      label: 'knows',
+      data: { kind: 'friend', thickness: 3, weight: 2 },
+    });
+  });
+
+  it('reads list types and defaults', () => {
+    const [a, b] = adapter.toGraph(dynamicDocument).nodes;
+
+    expect(a.data).toMatchObject({ tags: ['red', 'blue'], scores: [1, 2, 3], active: true });
+    expect(b.data).toMatchObject({ active: false });
+    expect(b.label).toBe('b');
+  });
+
+  it('does not let meta children overwrite graph fields', () => {
+    const graph = adapter.toGraph(`<gexf>
+      <meta>
+        <directed>oops</directed>
+        <mode>static</mode>
+        <start>late</start>
+        <keywords>graph, test</keywords>
+      </meta>
+      <graph defaultedgetype="directed" mode="dynamic" start="1"/>
+    </gexf>`);
+
+    expect(graph.metadata).toEqual({ directed: true, mode: 'dynamic', start: 1, keywords: 'graph, test' });
+  });
+
+  it('round trips spells, dynamic values, viz data and lists', () => {
+    const graph = adapter.toGraph(dynamicDocument);
+
+    const output = adapter.fromGraph(graph);
+
+    expect(output).toContain('<meta lastmodifieddate="2024-01-01">');
+    expect(output).toContain('<viz:color r="0" g="0" b="255" a="0.5"/>');
+    expect(output).toMatch(/<attvalue for="\d+" value="\[red, blue\]"\/>/);
+    expect(adapter.toGraph(output)).toEqual(graph);
+  });
+
+  it('declares list attributes typed by their items', () => {
+    const graph = {
+      nodes: [
+        { id: 'a', label: 'a', data: { ranks: [1, 2], flags: [true], mixed: [1, 'x'] } },
+        { id: 'b', label: 'b', data: { ranks: [0.5], flags: [false, true], mixed: [] } },
+      ],
+      edges: [],
+    };
+
+    const output = adapter.fromGraph(graph);
+
+    expect(output).toMatch(/title="ranks" type="listdouble"/);
+    expect(output).toMatch(/title="flags" type="listboolean"/);
+    expect(output).toMatch(/title="mixed" type="liststring"/);
+    expect(adapter.toGraph(output).nodes.map(node => node.data)).toEqual([
+      { ranks: [1, 2], flags: [true], mixed: ['1', 'x'] },
+      { ranks: [0.5], flags: [false, true], mixed: [] },
+    ]);
+  });
+
+  it('creates nodes that are only named by an edge', () => {
+    const graph = adapter.toGraph(`<gexf><graph>
+      <nodes><node id="a" label="Alice"/></nodes>
+      <edges><edge source="a" target="b"/><edge source="c" target="b"/></edges>
+    </graph></gexf>`);
+
+    expect(graph.nodes).toEqual([
+      { id: 'a', label: 'Alice', data: {} },
+      { id: 'b', label: 'b', data: {} },
+      { id: 'c', label: 'c', data: {} },
+    ]);
+    expect(graph.edges.map(edge => [edge.source, edge.target])).toEqual([['a', 'b'], ['c', 'b']]);
+  });
+
+  it('rejects documents that are not GEXF', () => {
+    expect(() => adapter.toGraph('<graphml><graph/></graphml>')).toThrow('Invalid GEXF data format');
+    expect(() => adapter.toGraph('<gexf><graph><nodes><node/></nodes></graph></gexf>'))
+      .toThrow('<node> without an id');
+    expect(() => adapter.toGraph('<gexf><graph><edges><edge source="a"/></edges></graph></gexf>'))
+      .toThrow('Edge at index 0 is missing source or target');
+  });
+});
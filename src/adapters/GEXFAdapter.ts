@@ -0,0 +1,555 @@
+/**
+ * GEXFAdapter - Converts between GEXF documents and our internal graph format
+ * @see https://gexf.net/
+ */
+import { DataAdapter, GEXFData, GEXFSpell, GEXFTime, GEXFTimedValue } from './AdapterTypes';
+import { GraphData, Node, Edge } from '../types/graph';
+import { parseXml, escapeXml, localName, childElements, XmlElement } from './xml';
+
+/**
+ * An `<attribute>` declaration
+ */
+interface GEXFAttribute {
+  id: string;
+  title: string;
+  type: string;
+  defaultValue?: unknown;
+}
+
+const NUMERIC_TYPES = ['integer', 'long', 'float', 'double', 'byte', 'short', 'bigdecimal', 'biginteger'];
+
+// Data fields written as viz elements or GEXF attributes rather than attvalues
+const NODE_FIELDS = ['x', 'y', 'z', 'size', 'color', 'shape', 'spells', 'dynamic', 'parent'];
+const EDGE_FIELDS = ['color', 'thickness', 'shape', 'spells', 'dynamic', 'weight', 'edgeType'];
+
+// Children of <meta> kept in the metadata; others could overwrite graph fields such as `directed`
+const META_FIELDS = ['creator', 'description', 'keywords'];
+
+/**
+ * Adapter for GEXF, as written by Gephi
+ *
+ * Viz attributes are kept in `data`: `color` as a CSS color, `x`, `y` and `z`
+ * from the position, `size`, `shape` and, for edges, `thickness`. Attribute
+ * values go into `data` by their title. Dynamic graphs keep the intervals in
+ * which an element exists in `data.spells`, and attribute values that change
+ * over time in `data.dynamic`, keyed by title.
+ */
+export class GEXFAdapter implements DataAdapter<GEXFData> {
+  /**
+   * Convert a GEXF document to our internal graph format
+   * @param data GEXF document
+   * @returns Our internal graph format
+   */
+  toGraph(data: GEXFData): GraphData {
+    if (typeof data !== 'string') {
+      throw new Error('Invalid GEXF data format');
+    }
+
+    const root = parseXml(data);
+    const graph = childElements(root, 'graph')[0];
+    if (localName(root) !== 'gexf' || !graph) {
+      throw new Error('Invalid GEXF data format');
+    }
+
+    const timeFormat = graph.attributes.timeformat || 'double';
+    const parseTime = (value: string | undefined): GEXFTime | undefined => {
+      if (value === undefined || value === '') return undefined;
+      if (timeFormat === 'date' || timeFormat === 'dateTime') return value;
+      const time = Number(value);
+      return Number.isNaN(time) ? value : time;
+    };
+
+    // Attribute declarations by class, static and dynamic alike
+    const attributes: Record<string, Map<string, GEXFAttribute>> = { node: new Map(), edge: new Map() };
+    childElements(graph, 'attributes').forEach(block => {
+      const declarations = attributes[block.attributes.class || 'node'];
+      if (!declarations) return;
+      childElements(block, 'attribute').forEach(element => {
+        const type = element.attributes.type || 'string';
+        const attribute: GEXFAttribute = {
+          id: element.attributes.id,
+          title: element.attributes.title || element.attributes.id,
+          type,
+        };
+        const defaultElement = childElements(element, 'default')[0];
+        if (defaultElement) {
+          attribute.defaultValue = convertValue(defaultElement.text, type);
+        }
+        declarations.set(attribute.id, attribute);
+      });
+    });
+
+    const readElementData = (element: XmlElement, kind: 'node' | 'edge'): Record<string, unknown> => {
+      const result: Record<string, unknown> = {};
+      const declarations = attributes[kind];
+      declarations.forEach(attribute => {
+        if (attribute.defaultValue !== undefined) result[attribute.title] = attribute.defaultValue;
+      });
+
+      // Static values go straight into the data, timed ones into `dynamic`
+      const dynamic: Record<string, GEXFTimedValue[]> = {};
+      childElements(element, 'attvalues').forEach(block => {
+        childElements(block, 'attvalue').forEach(attvalue => {
+          const id = attvalue.attributes.for ?? attvalue.attributes.id;
+          const attribute = declarations.get(id);
+          const title = attribute ? attribute.title : id;
+          const value = convertValue(attvalue.attributes.value ?? '', attribute ? attribute.type : 'string');
+          const spell = readSpell(attvalue, parseTime);
+          if (spell) {
+            if (!dynamic[title]) dynamic[title] = [];
+            dynamic[title].push({ value, ...spell });
+          } else {
+            result[title] = value;
+          }
+        });
+      });
+      if (Object.keys(dynamic).length > 0) result.dynamic = dynamic;
+
+      const spells: GEXFSpell[] = [];
+      const ownSpell = readSpell(element, parseTime);
+      if (ownSpell) spells.push(ownSpell);
+      childElements(element, 'spells').forEach(block => {
+        childElements(block, 'spell').forEach(spellElement => {
+          const spell = readSpell(spellElement, parseTime);
+          if (spell) spells.push(spell);
+        });
+      });
+      if (spells.length > 0) result.spells = spells;
+
+      const color = childElements(element, 'color')[0];
+      if (color) result.color = readColor(color);
+      const position = childElements(element, 'position')[0];
+      if (position) {
+        result.x = Number(position.attributes.x) || 0;
+        result.y = Number(position.attributes.y) || 0;
+        if (Number(position.attributes.z)) result.z = Number(position.attributes.z);
+      }
+      const size = childElements(element, 'size')[0];
+      if (size) result.size = Number(size.attributes.value);
+      const thickness = childElements(element, 'thickness')[0];
+      if (thickness) result.thickness = Number(thickness.attributes.value);
+      const shape = childElements(element, 'shape')[0];
+      if (shape) result.shape = shape.attributes.value;
+
+      return result;
+    };
+
+    const nodes: Node[] = [];
+    const collectNodes = (container: XmlElement, parent: string | undefined) => {
+      childElements(container, 'nodes').forEach(block => {
+        childElements(block, 'node').forEach(element => {
+          const { id, label, pid } = element.attributes;
+          if (id === undefined) {
+            throw new Error('Invalid GEXF data format: <node> without an id');
+          }
+
+          const nodeData = readElementData(element, 'node');
+          const nodeParent = pid ?? parent;
+          if (nodeParent !== undefined) nodeData.parent = nodeParent;
+
+          nodes.push({
+            id,
+            label: label !== undefined ? label : id,
+            data: nodeData
+          });
+
+          // Hierarchical graphs nest nodes inside their parent
+          collectNodes(element, id);
+        });
+      });
+    };
+    collectNodes(graph, undefined);
+
+    const nodeIds = new Set(nodes.map(node => node.id));
+    const edges: Edge[] = [];
+    childElements(graph, 'edges').forEach(block => {
+      childElements(block, 'edge').forEach(element => {
+        const { id, source, target, label, kind, type, weight } = element.attributes;
+        if (source === undefined || target === undefined) {
+          throw new Error(`Edge at index ${edges.length} is missing source or target`);
+        }
+
+        // Nodes that are only named by an edge
+        [source, target].forEach(nodeId => {
+          if (nodeIds.has(nodeId)) return;
+          nodeIds.add(nodeId);
+          nodes.push({ id: nodeId, label: nodeId, data: {} });
+        });
+
+        const edgeData = readElementData(element, 'edge');
+        if (weight !== undefined) edgeData.weight = Number(weight);
+        if (type !== undefined) edgeData.edgeType = type;
+
+        edges.push({
+          id: id !== undefined ? id : `e${edges.length}`,
+          source,
+          target,
+          type: kind,
+          label,
+          data: edgeData
+        });
+      });
+    });
+
+    const metadata: Record<string, unknown> = {
+      directed: graph.attributes.defaultedgetype !== 'undirected',
+    };
+    if (graph.attributes.mode) metadata.mode = graph.attributes.mode;
+    if (graph.attributes.timeformat) metadata.timeformat = graph.attributes.timeformat;
+    const graphSpell = readSpell(graph, parseTime);
+    if (graphSpell) Object.assign(metadata, graphSpell);
+
+    const meta = childElements(root, 'meta')[0];
+    if (meta) {
+      if (meta.attributes.lastmodifieddate) metadata.lastModified = meta.attributes.lastmodifieddate;
+      meta.children.forEach(child => {
+        const field = localName(child);
+        if (META_FIELDS.includes(field)) metadata[field] = child.text.trim();
+      });
+    }
+
+    return {
+      nodes,
+      edges,
+      metadata
+    };
+  }
+
+  /**
+   * Convert our internal graph format to a GEXF document
+   * @param graphData Our internal graph data
+   * @returns GEXF document
+   */
+  fromGraph(graphData: GraphData): GEXFData {
+    if (!graphData || !graphData.nodes || !graphData.edges) {
+      throw new Error('Invalid graph data');
+    }
+
+    const metadata = graphData.metadata || {};
+
+    // Declare attributes for every data field that is not written another way
+    const nodeStatic = new Map<string, string>();
+    const nodeDynamic = new Map<string, string>();
+    const edgeStatic = new Map<string, string>();
+    const edgeDynamic = new Map<string, string>();
+    const times: GEXFTime[] = [];
+
+    const declare = (
+      data: Record<string, unknown> | undefined,
+      reserved: string[],
+      staticTypes: Map<string, string>,
+      dynamicTypes: Map<string, string>
+    ) => {
+      if (!data) return;
+      Object.entries(data).forEach(([title, value]) => {
+        if (reserved.includes(title) || value === undefined || value === null) return;
+        staticTypes.set(title, mergeTypes(staticTypes.get(title), attributeTypeOf(value)));
+      });
+      getTimedValues(data).forEach(([title, values]) => {
+        values.forEach(timed => {
+          dynamicTypes.set(title, mergeTypes(dynamicTypes.get(title), attributeTypeOf(timed.value)));
+          collectTimes(timed, times);
+        });
+      });
+      getSpells(data).forEach(spell => collectTimes(spell, times));
+    };
+    graphData.nodes.forEach(node => declare(node.data, NODE_FIELDS, nodeStatic, nodeDynamic));
+    graphData.edges.forEach(edge => declare(edge.data, EDGE_FIELDS, edgeStatic, edgeDynamic));
+
+    const dynamic = times.length > 0 || metadata.mode === 'dynamic';
+    const timeFormat = typeof metadata.timeformat === 'string'
+      ? metadata.timeformat
+      : times.every(time => typeof time === 'number') ? 'double' : 'date';
+
+    // Static and dynamic attributes share one ID space per class
+    const ids = (staticTypes: Map<string, string>, dynamicTypes: Map<string, string>) => {
+      const result = new Map<string, string>();
+      [...staticTypes.keys(), ...dynamicTypes.keys()].forEach(title => {
+        if (!result.has(title)) result.set(title, String(result.size));
+      });
+      return result;
+    };
+    const nodeIds = ids(nodeStatic, nodeDynamic);
+    const edgeIds = ids(edgeStatic, edgeDynamic);
+
+    const lines: string[] = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">',
+    ];
+
+    const metaFields = META_FIELDS.filter(field => typeof metadata[field] === 'string');
+    if (metaFields.length > 0 || typeof metadata.lastModified === 'string') {
+      const lastModified = typeof metadata.lastModified === 'string'
+        ? ` lastmodifieddate="${escapeXml(metadata.lastModified)}"`
+        : '';
+      lines.push(`  <meta${lastModified}>`);
+      metaFields.forEach(field => {
+        lines.push(`    <${field}>${escapeXml(metadata[field] as string)}</${field}>`);
+      });
+      lines.push('  </meta>');
+    }
+
+    const graphSpell = formatSpell({ start: metadata.start as GEXFTime, end: metadata.end as GEXFTime });
+    lines.push(
+      `  <graph defaultedgetype="${metadata.directed === false ? 'undirected' : 'directed'}"`
+      + ` mode="${dynamic ? 'dynamic' : 'static'}"`
+      + (dynamic ? ` timeformat="${escapeXml(timeFormat)}"` : '')
+      + `${graphSpell}>`
+    );
+
+    const attributeBlock = (kind: string, mode: string, types: Map<string, string>, idMap: Map<string, string>) => {
+      if (types.size === 0) return;
+      lines.push(`    <attributes class="${kind}" mode="${mode}">`);
+      types.forEach((type, title) => {
+        lines.push(`      <attribute id="${idMap.get(title)}" title="${escapeXml(title)}" type="${type}"/>`);
+      });
+      lines.push('    </attributes>');
+    };
+    attributeBlock('node', 'static', nodeStatic, nodeIds);
+    attributeBlock('node', 'dynamic', nodeDynamic, nodeIds);
+    attributeBlock('edge', 'static', edgeStatic, edgeIds);
+    attributeBlock('edge', 'dynamic', edgeDynamic, edgeIds);
+
+    // Child elements shared by nodes and edges
+    const elementLines = (data: Record<string, unknown>, kind: 'node' | 'edge'): string[] => {
+      const result: string[] = [];
+      const reserved = kind === 'node' ? NODE_FIELDS : EDGE_FIELDS;
+      const idMap = kind === 'node' ? nodeIds : edgeIds;
+
+      const attvalues: string[] = [];
+      Object.entries(data).forEach(([title, value]) => {
+        if (reserved.includes(title) || value === undefined || value === null) return;
+        attvalues.push(`<attvalue for="${idMap.get(title)}" value="${escapeXml(formatValue(value))}"/>`);
+      });
+      getTimedValues(data).forEach(([title, values]) => {
+        values.forEach(timed => {
+          attvalues.push(
+            `<attvalue for="${idMap.get(title)}" value="${escapeXml(formatValue(timed.value))}"${formatSpell(timed)}/>`
+          );
+        });
+      });
+      if (attvalues.length > 0) {
+        result.push('<attvalues>', ...attvalues.map(line => `  ${line}`), '</attvalues>');
+      }
+
+      const spells = getSpells(data);
+      if (spells.length > 0) {
+        result.push('<spells>', ...spells.map(spell => `  <spell${formatSpell(spell)}/>`), '</spells>');
+      }
+
+      const color = typeof data.color === 'string' ? parseColor(data.color) : null;
+      if (color) {
+        const alpha = color.a < 1 ? ` a="${color.a}"` : '';
+        result.push(`<viz:color r="${color.r}" g="${color.g}" b="${color.b}"${alpha}/>`);
+      }
+      if (typeof data.x === 'number' && typeof data.y === 'number' && kind === 'node') {
+        const z = typeof data.z === 'number' ? data.z : 0;
+        result.push(`<viz:position x="${data.x}" y="${data.y}" z="${z}"/>`);
+      }
+      if (typeof data.size === 'number' && kind === 'node') {
+        result.push(`<viz:size value="${data.size}"/>`);
+      }
+      if (typeof data.thickness === 'number' && kind === 'edge') {
+        result.push(`<viz:thickness value="${data.thickness}"/>`);
+      }
+      if (typeof data.shape === 'string') {
+        result.push(`<viz:shape value="${escapeXml(data.shape)}"/>`);
+      }
+
+      return result;
+    };
+
+    const nodeIdSet = new Set(graphData.nodes.map(node => node.id));
+    lines.push('    <nodes>');
+    graphData.nodes.forEach(node => {
+      const data = node.data || {};
+      const parent = typeof data.parent === 'string' && nodeIdSet.has(data.parent)
+        ? ` pid="${escapeXml(data.parent)}"`
+        : '';
+      const open = `      <node id="${escapeXml(node.id)}" label="${escapeXml(node.label ?? node.id)}"${parent}`;
+      const children = elementLines(data, 'node');
+      if (children.length > 0) {
+        lines.push(`${open}>`, ...children.map(line => `        ${line}`), '      </node>');
+      } else {
+        lines.push(`${open}/>`);
+      }
+    });
+    lines.push('    </nodes>');
+
+    lines.push('    <edges>');
+    graphData.edges.forEach(edge => {
+      const data = edge.data || {};
+      let open = `      <edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}"`;
+      if (typeof data.edgeType === 'string') open += ` type="${escapeXml(data.edgeType)}"`;
+      if (edge.type !== undefined) open += ` kind="${escapeXml(edge.type)}"`;
+      if (edge.label !== undefined) open += ` label="${escapeXml(edge.label)}"`;
+      if (typeof data.weight === 'number') open += ` weight="${data.weight}"`;
+
+      const children = elementLines(data, 'edge');
+      if (children.length > 0) {
+        lines.push(`${open}>`, ...children.map(line => `        ${line}`), '      </edge>');
+      } else {
+        lines.push(`${open}/>`);
+      }
+    });
+    lines.push('    </edges>');
+
+    lines.push('  </graph>', '</gexf>');
+    return lines.join('\n') + '\n';
+  }
+}
+
+/**
+ * Interval given by the start/end or timestamp attributes of an element, if any
+ */
+function readSpell(
+  element: XmlElement,
+  parseTime: (value: string | undefined) => GEXFTime | undefined
+): GEXFSpell | null {
+  const { timestamp } = element.attributes;
+  const start = parseTime(timestamp ?? element.attributes.start ?? element.attributes.startopen);
+  const end = parseTime(timestamp ?? element.attributes.end ?? element.attributes.endopen);
+  if (start === undefined && end === undefined) return null;
+
+  const spell: GEXFSpell = {};
+  if (start !== undefined) spell.start = start;
+  if (end !== undefined) spell.end = end;
+  return spell;
+}
+
+/**
+ * CSS color of a viz:color element
+ */
+function readColor(element: XmlElement): string {
+  if (element.attributes.hex) return element.attributes.hex;
+  const { r = '0', g = '0', b = '0', a } = element.attributes;
+  return a !== undefined && Number(a) < 1
+    ? `rgba(${r}, ${g}, ${b}, ${a})`
+    : `#${[r, g, b].map(c => Math.max(0, Math.min(255, Number(c) || 0)).toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Channels of a hex, rgb() or rgba() CSS color
+ */
+function parseColor(color: string): { r: number; g: number; b: number; a: number } | null {
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim());
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].split('').map(d => d + d).join('') : hex[1];
+    return {
+      r: parseInt(digits.slice(0, 2), 16),
+      g: parseInt(digits.slice(2, 4), 16),
+      b: parseInt(digits.slice(4, 6), 16),
+      a: 1,
+    };
+  }
+
+  const rgb = /^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*(?:,\s*([\d.]+)\s*)?\)$/i.exec(color.trim());
+  if (rgb) {
+    return {
+      r: Math.round(Number(rgb[1])),
+      g: Math.round(Number(rgb[2])),
+      b: Math.round(Number(rgb[3])),
+      a: rgb[4] !== undefined ? Number(rgb[4]) : 1,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Convert the text of a value to the declared attribute type
+ */
+function convertValue(text: string, type: string): unknown {
+  if (type === 'boolean') return text.trim().toLowerCase() === 'true';
+  if (NUMERIC_TYPES.includes(type)) {
+    const value = Number(text.trim());
+    return Number.isNaN(value) ? text : value;
+  }
+  if (type.startsWith('list')) {
+    // GEXF 1.3 writes lists as [a, b]; older versions as a|b
+    const list = text.trim().replace(/^\[(.*)\]$/, '$1');
+    if (list === '') return [];
+    const items = list.split(text.includes('|') ? '|' : ',').map(item => item.trim());
+    return type === 'liststring' ? items : items.map(item => convertValue(item, type.slice(4)));
+  }
+  return text;
+}
+
+/**
+ * GEXF attribute type that can hold a value
+ */
+function attributeTypeOf(value: unknown): string {
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'number') {
+    if (!Number.isInteger(value)) return 'double';
+    return Math.abs(value) <= 2147483647 ? 'integer' : 'long';
+  }
+  if (Array.isArray(value) && value.every(isListItem)) {
+    // Lists are typed by their items; empty and mixed lists hold strings
+    const itemType = value.reduce<string | undefined>((type, item) => mergeTypes(type, attributeTypeOf(item)), undefined);
+    return `list${itemType ?? 'string'}`;
+  }
+  return 'string';
+}
+
+/**
+ * Narrowest attribute type that can hold values of both types
+ */
+function mergeTypes(a: string | undefined, b: string): string {
+  if (a === undefined || a === b) return b;
+  if (a.startsWith('list') && b.startsWith('list')) return `list${mergeTypes(a.slice(4), b.slice(4))}`;
+  if (NUMERIC_TYPES.includes(a) && NUMERIC_TYPES.includes(b)) {
+    return a === 'double' || b === 'double' ? 'double' : 'long';
+  }
+  return 'string';
+}
+
+/**
+ * Whether a value can be an item of a GEXF list
+ */
+function isListItem(value: unknown): boolean {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+/**
+ * Text of a value; lists use GEXF list syntax and objects are written as JSON
+ */
+function formatValue(value: unknown): string {
+  if (Array.isArray(value) && value.every(isListItem)) {
+    return `[${value.join(', ')}]`;
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Start and end attributes of an interval
+ */
+function formatSpell(spell: GEXFSpell): string {
+  return (spell.start !== undefined ? ` start="${escapeXml(String(spell.start))}"` : '')
+    + (spell.end !== undefined ? ` end="${escapeXml(String(spell.end))}"` : '');
+}
+
+/**
+ * Intervals stored in `data.spells`
+ */
+function getSpells(data: Record<string, unknown>): GEXFSpell[] {
+  return Array.isArray(data.spells) ? data.spells as GEXFSpell[] : [];
+}
+
+/**
+ * Timed attribute values stored in `data.dynamic`
+ */
+function getTimedValues(data: Record<string, unknown>): [string, GEXFTimedValue[]][] {
+  const dynamic = data.dynamic;
+  if (!dynamic || typeof dynamic !== 'object') return [];
+  return Object.entries(dynamic as Record<string, GEXFTimedValue[]>)
+    .filter(([, values]) => Array.isArray(values));
+}
+
+/**
+ * Add the ends of an interval to a list of times
+ */
+function collectTimes(spell: GEXFSpell, times: GEXFTime[]): void {
+  if (spell.start !== undefined) times.push(spell.start);
+  if (spell.end !== undefined) times.push(spell.end);
+}
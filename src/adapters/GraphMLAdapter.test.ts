@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import { GraphMLAdapter } from './GraphMLAdapter';
+import { GraphData } from '../types/graph';
+
+const adapter = new GraphMLAdapter();
+
+const typedDocument = `<?xml version="1.0" encoding="UTF-8"?>
+<graphml xmlns="http://graphml.graphdrawing.org/xmlns">
+  <key id="d0" for="node" attr.name="label" attr.type="string"/>
+  <key id="d1" for="node" attr.name="weight" attr.type="double"><default>1.5</default></key>
+  <key id="d2" for="node" attr.name="count" attr.type="int"/>
+  <key id="d3" for="node" attr.name="active" attr.type="boolean"/>
+  <key id="d4" for="edge" attr.name="capacity" attr.type="long"/>
+  <key id="d5" for="graph" attr.name="title" attr.type="string"/>
+  <graph id="G" edgedefault="undirected">
+    <data key="d5">Network</data>
+    <node id="a">
+      <data key="d0">Alpha</data>
+      <data key="d2">3</data>
+      <data key="d3">true</data>
+    </node>
+    <node id="b">
+      <data key="d1">2.25</data>
+      <data key="d3">false</data>
+    </node>
+    <edge id="ab" source="a" target="b" directed="true">
+      <data key="d4">10</data>
+    </edge>
+  </graph>
+</graphml>`;
+
+const nestedDocument = `<graphml xmlns="http://graphml.graphdrawing.org/xmlns">
+  <graph id="G" edgedefault="directed">
+    <node id="outer">
+      <graph id="outer:" edgedefault="directed">
+        <node id="inner">
+          <graph id="inner:" edgedefault="directed">
+            <node id="leaf"/>
+          </graph>
+        </node>
+        <node id="sibling"/>
+      </graph>
+    </node>
+    <edge source="leaf" target="sibling"/>
+  </graph>
+</graphml>`;
+
+const yEdDocument = `<graphml xmlns="http://graphml.graphdrawing.org/xmlns"
+    xmlns:y="http://www.yworks.com/xml/graphml">
+  <key id="d6" for="node" yfiles.type="nodegraphics"/>
+  <key id="d7" for="edge" yfiles.type="edgegraphics"/>
+  <graph id="G" edgedefault="directed">
+    <node id="n0">
+      <data key="d6">
+        <y:ShapeNode>
+          <y:Geometry x="10" y="20" width="30" height="40"/>
+          <y:NodeLabel>Start</y:NodeLabel>
+        </y:ShapeNode>
+      </data>
+    </node>
+    <node id="n1">
+      <data key="d6">
+        <y:ShapeNode><y:Geometry x="100" y="0" width="20" height="20"/></y:ShapeNode>
+      </data>
+    </node>
+    <edge id="e0" source="n0" target="n1">
+      <data key="d7"><y:PolyLineEdge><y:EdgeLabel>next</y:EdgeLabel></y:PolyLineEdge></data>
+    </edge>
+  </graph>
+</graphml>`;
+
+describe('GraphMLAdapter', () => {
+  it('reads typed keys and their defaults', () => {
+    const graph = adapter.toGraph(typedDocument);
+
+    expect(graph.nodes).toEqual([
+      { id: 'a', label: 'Alpha', type: undefined, data: { weight: 1.5, count: 3, active: true } },
+      { id: 'b', label: 'b', type: undefined, data: { weight: 2.25, active: false } },
+    ]);
+    expect(graph.edges).toEqual([
+      { id: 'ab', source: 'a', target: 'b', label: undefined, type: undefined, data: { capacity: 10, directed: true } },
+    ]);
+    expect(graph.metadata).toEqual({ title: 'Network', id: 'G', directed: false });
+  });
+
+  it('round trips typed values', () => {
+    const graph = adapter.toGraph(typedDocument);
+
+    expect(adapter.toGraph(adapter.fromGraph(graph))).toEqual(graph);
+  });
+
+  it('declares keys typed by their values', () => {
+    const output = adapter.fromGraph({
+      nodes: [
+        { id: 'a', data: { size: 2, ratio: 0.5, visible: true, name: 'x' } },
+        { id: 'b', data: { size: 3000000000 } },
+      ],
+      edges: [],
+    });
+
+    expect(output).toMatch(/attr\.name="size" attr\.type="long"/);
+    expect(output).toMatch(/attr\.name="ratio" attr\.type="double"/);
+    expect(output).toMatch(/attr\.name="visible" attr\.type="boolean"/);
+    expect(output).toMatch(/attr\.name="name" attr\.type="string"/);
+  });
+
+  it('does not write the ID as label of unlabeled nodes', () => {
+    const graph: GraphData = { nodes: [{ id: 'a' }, { id: 'b', label: 'Bee' }], edges: [] };
+
+    const output = adapter.fromGraph(graph);
+
+    expect(output).not.toContain('>a</data>');
+    expect(output).toContain('>Bee</data>');
+    // Reading it back gives the ID as label, which is not written again
+    expect(adapter.fromGraph(adapter.toGraph(output))).toBe(output);
+  });
+
+  it('flattens nested graphs into data.parent', () => {
+    const graph = adapter.toGraph(nestedDocument);
+
+    expect(graph.nodes.map(node => [node.id, node.data?.parent])).toEqual([
+      ['outer', undefined],
+      ['inner', 'outer'],
+      ['leaf', 'inner'],
+      ['sibling', 'outer'],
+    ]);
+    expect(graph.edges).toHaveLength(1);
+    expect(graph.edges[0]).toMatchObject({ source: 'leaf', target: 'sibling' });
+  });
+
+  it('writes nested graphs back from data.parent', () => {
+    const graph = adapter.toGraph(nestedDocument);
+
+    const output = adapter.fromGraph(graph);
+
+    expect(output).toMatch(/<node id="outer">\s*<graph id="outer:"[^>]*>\s*<node id="inner">/);
+    expect(adapter.toGraph(output)).toEqual(graph);
+  });
+
+  it('reads yEd geometry as node centers and yEd labels', () => {
+    const graph = adapter.toGraph(yEdDocument);
+
+    expect(graph.nodes[0]).toEqual({
+      id: 'n0',
+      label: 'Start',
+      type: undefined,
+      data: { x: 25, y: 40, width: 30, height: 40 },
+    });
+    expect(graph.nodes[1].data).toEqual({ x: 110, y: 10, width: 20, height: 20 });
+    expect(graph.edges[0].label).toBe('next');
+  });
+
+  it('round trips yEd geometry as plain position keys', () => {
+    const graph = adapter.toGraph(yEdDocument);
+
+    expect(adapter.toGraph(adapter.fromGraph(graph))).toEqual(graph);
+  });
+
+  it('rejects documents that are not GraphML', () => {
+    expect(() => adapter.toGraph('<svg/>')).toThrow('Invalid GraphML data format');
+    expect(() => adapter.toGraph(42 as unknown as string)).toThrow('Invalid GraphML data format');
+    expect(() => adapter.toGraph('<graphml><graph>')).toThrow(/line 1/);
+  });
+});
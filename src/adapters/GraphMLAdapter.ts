@@ -0,0 +1,416 @@
+/**
+ * GraphMLAdapter - Converts between GraphML documents and our internal graph format
+ * @see http://graphml.graphdrawing.org/
+ */
+import { DataAdapter, GraphMLData } from './AdapterTypes';
+import { GraphData, Node, Edge } from '../types/graph';
+import { parseXml, escapeXml, localName, childElements, XmlElement } from './xml';
+
+type GraphMLKeyDomain = 'node' | 'edge' | 'graph' | 'all';
+type GraphMLAttributeType = 'boolean' | 'int' | 'long' | 'float' | 'double' | 'string';
+
+/**
+ * A `<key>` declaration
+ */
+interface GraphMLKey {
+  id: string;
+  name: string;
+  domain: GraphMLKeyDomain;
+  type: GraphMLAttributeType;
+  defaultValue?: unknown;
+  /** yEd graphics keys carry geometry and labels instead of a plain value */
+  graphics: boolean;
+}
+
+const NUMERIC_TYPES: GraphMLAttributeType[] = ['int', 'long', 'float', 'double'];
+
+/**
+ * Adapter for GraphML, as written by yEd, Gephi and NetworkX
+ *
+ * Typed `<data>` values go into `data` of nodes and edges, except `label` and
+ * `type`, which fill the fields of the same name. Nodes of nested graphs are
+ * flattened and keep the ID of the node containing them in `data.parent`.
+ * Positions from yEd geometry are stored as the node center in `data.x` and
+ * `data.y`, where `x` and `y` keys of other tools end up as well.
+ */
+export class GraphMLAdapter implements DataAdapter<GraphMLData> {
+  /**
+   * Convert a GraphML document to our internal graph format
+   * @param data GraphML document
+   * @returns Our internal graph format
+   */
+  toGraph(data: GraphMLData): GraphData {
+    if (typeof data !== 'string') {
+      throw new Error('Invalid GraphML data format');
+    }
+
+    const root = parseXml(data);
+    const graph = childElements(root, 'graph')[0];
+    if (localName(root) !== 'graphml' || !graph) {
+      throw new Error('Invalid GraphML data format');
+    }
+
+    const keys = new Map<string, GraphMLKey>();
+    childElements(root, 'key').forEach(element => {
+      const key = parseKey(element);
+      keys.set(key.id, key);
+    });
+
+    const nodes: Node[] = [];
+    const edges: Edge[] = [];
+    collectGraph(graph, undefined, keys, nodes, edges);
+
+    const metadata: Record<string, unknown> = {
+      ...readData(graph, 'graph', keys).values,
+    };
+    if (graph.attributes.id) {
+      metadata.id = graph.attributes.id;
+    }
+    metadata.directed = graph.attributes.edgedefault !== 'undirected';
+
+    return {
+      nodes,
+      edges,
+      metadata
+    };
+  }
+
+  /**
+   * Convert our internal graph format to a GraphML document
+   * @param graphData Our internal graph data
+   * @returns GraphML document
+   */
+  fromGraph(graphData: GraphData): GraphMLData {
+    if (!graphData || !graphData.nodes || !graphData.edges) {
+      throw new Error('Invalid graph data');
+    }
+
+    const nodeIds = new Set(graphData.nodes.map(node => node.id));
+    const parentOf = (node: Node): string | undefined => {
+      const parent = node.data?.parent;
+      return typeof parent === 'string' && parent !== node.id && nodeIds.has(parent)
+        ? parent
+        : undefined;
+    };
+
+    // Attribute values of every element, before key declarations are known
+    const nodeValues = new Map<string, Record<string, unknown>>();
+    graphData.nodes.forEach(node => {
+      const values: Record<string, unknown> = { ...node.data };
+      if (parentOf(node) !== undefined) delete values.parent;
+      // Unlabeled nodes are read back with their ID as label, so that label is not written
+      if (node.label !== undefined && node.label !== node.id) values.label = node.label;
+      if (node.type !== undefined) values.type = node.type;
+      nodeValues.set(node.id, values);
+    });
+
+    const edgeValues = graphData.edges.map(edge => {
+      const values: Record<string, unknown> = { ...edge.data };
+      delete values.directed;
+      if (edge.label !== undefined) values.label = edge.label;
+      if (edge.type !== undefined) values.type = edge.type;
+      return values;
+    });
+
+    const graphValues: Record<string, unknown> = { ...graphData.metadata };
+    delete graphValues.id;
+    delete graphValues.directed;
+
+    // Declare one key per attribute name and domain, typed by its values
+    const keys = new Map<string, GraphMLKey>();
+    const declare = (domain: GraphMLKeyDomain, values: Record<string, unknown>) => {
+      Object.entries(values).forEach(([name, value]) => {
+        if (value === undefined || value === null) return;
+        const id = `${domain}:${name}`;
+        const type = attributeTypeOf(value);
+        const existing = keys.get(id);
+        if (existing) {
+          existing.type = mergeAttributeTypes(existing.type, type);
+        } else {
+          keys.set(id, { id: `d${keys.size}`, name, domain, type, graphics: false });
+        }
+      });
+    };
+    nodeValues.forEach(values => declare('node', values));
+    edgeValues.forEach(values => declare('edge', values));
+    declare('graph', graphValues);
+
+    const dataLines = (
+      domain: GraphMLKeyDomain,
+      values: Record<string, unknown>,
+      indent: string
+    ): string[] => Object.entries(values)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([name, value]) => {
+        const key = keys.get(`${domain}:${name}`)!;
+        return `${indent}<data key="${key.id}">${escapeXml(formatValue(value))}</data>`;
+      });
+
+    const edgeDefault = graphData.metadata?.directed === false ? 'undirected' : 'directed';
+    const graphId = typeof graphData.metadata?.id === 'string' ? graphData.metadata.id : 'G';
+
+    // Nodes with a parent are written into a nested graph inside it
+    const children = new Map<string, Node[]>();
+    const topLevel: Node[] = [];
+    graphData.nodes.forEach(node => {
+      const parent = parentOf(node);
+      if (parent === undefined) {
+        topLevel.push(node);
+      } else {
+        if (!children.has(parent)) children.set(parent, []);
+        children.get(parent)!.push(node);
+      }
+    });
+
+    const written = new Set<string>();
+    const nodeLines = (node: Node, indent: string): string[] => {
+      written.add(node.id);
+      const lines = dataLines('node', nodeValues.get(node.id)!, `${indent}  `);
+      const nested = (children.get(node.id) || []).filter(child => !written.has(child.id));
+      if (nested.length > 0) {
+        lines.push(`${indent}  <graph id="${escapeXml(node.id)}:" edgedefault="${edgeDefault}">`);
+        nested.forEach(child => lines.push(...nodeLines(child, `${indent}    `)));
+        lines.push(`${indent}  </graph>`);
+      }
+
+      const open = `${indent}<node id="${escapeXml(node.id)}"`;
+      return lines.length > 0
+        ? [`${open}>`, ...lines, `${indent}</node>`]
+        : [`${open}/>`];
+    };
+
+    const lines: string[] = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<graphml xmlns="http://graphml.graphdrawing.org/xmlns"',
+      '    xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+      '    xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+    ];
+
+    keys.forEach(key => {
+      lines.push(
+        `  <key id="${key.id}" for="${key.domain}" attr.name="${escapeXml(key.name)}" attr.type="${key.type}"/>`
+      );
+    });
+
+    lines.push(`  <graph id="${escapeXml(graphId)}" edgedefault="${edgeDefault}">`);
+    lines.push(...dataLines('graph', graphValues, '    '));
+
+    topLevel.forEach(node => lines.push(...nodeLines(node, '    ')));
+    // Nodes whose parents form a cycle are never reached from the top level
+    graphData.nodes.forEach(node => {
+      if (!written.has(node.id)) lines.push(...nodeLines(node, '    '));
+    });
+
+    graphData.edges.forEach((edge, index) => {
+      const directed = edge.data?.directed;
+      const open = `    <edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}"`
+        + (typeof directed === 'boolean' ? ` directed="${directed}"` : '');
+      const data = dataLines('edge', edgeValues[index], '      ');
+      if (data.length > 0) {
+        lines.push(`${open}>`, ...data, '    </edge>');
+      } else {
+        lines.push(`${open}/>`);
+      }
+    });
+
+    lines.push('  </graph>', '</graphml>');
+    return lines.join('\n') + '\n';
+  }
+}
+
+/**
+ * Read a `<key>` declaration and its default value
+ */
+function parseKey(element: XmlElement): GraphMLKey {
+  const id = element.attributes.id;
+  if (!id) {
+    throw new Error('Invalid GraphML data format: <key> without an id');
+  }
+
+  const type = (element.attributes['attr.type'] || 'string') as GraphMLAttributeType;
+  const key: GraphMLKey = {
+    id,
+    name: element.attributes['attr.name'] || id,
+    domain: (element.attributes.for || 'all') as GraphMLKeyDomain,
+    type,
+    graphics: element.attributes['yfiles.type'] !== undefined,
+  };
+
+  const defaultElement = childElements(element, 'default')[0];
+  if (defaultElement) {
+    key.defaultValue = convertValue(defaultElement.text, type);
+  }
+
+  return key;
+}
+
+/**
+ * Add the nodes and edges of a graph and of all graphs nested in its nodes
+ */
+function collectGraph(
+  graph: XmlElement,
+  parent: string | undefined,
+  keys: Map<string, GraphMLKey>,
+  nodes: Node[],
+  edges: Edge[]
+): void {
+  childElements(graph, 'node').forEach(element => {
+    const id = element.attributes.id;
+    if (!id) {
+      throw new Error('Invalid GraphML data format: <node> without an id');
+    }
+
+    const { values, graphics } = readData(element, 'node', keys);
+    const { label, type, ...rest } = values;
+    const data: Record<string, unknown> = { ...rest };
+    if (graphics.x !== undefined && data.x === undefined) data.x = graphics.x;
+    if (graphics.y !== undefined && data.y === undefined) data.y = graphics.y;
+    if (graphics.width !== undefined) data.width = graphics.width;
+    if (graphics.height !== undefined) data.height = graphics.height;
+    if (parent !== undefined) data.parent = parent;
+
+    const nodeLabel = label ?? graphics.label;
+    nodes.push({
+      id,
+      label: nodeLabel !== undefined ? String(nodeLabel) : id,
+      type: type !== undefined ? String(type) : undefined,
+      data
+    });
+
+    childElements(element, 'graph').forEach(nested => {
+      collectGraph(nested, id, keys, nodes, edges);
+    });
+  });
+
+  childElements(graph, 'edge').forEach(element => {
+    const { id, source, target, directed } = element.attributes;
+    if (!source || !target) {
+      throw new Error(`Edge at index ${edges.length} is missing source or target`);
+    }
+
+    const { values, graphics } = readData(element, 'edge', keys);
+    const { label, type, ...rest } = values;
+    const data: Record<string, unknown> = { ...rest };
+    if (directed !== undefined) data.directed = directed === 'true';
+
+    const edgeLabel = label ?? graphics.label;
+    edges.push({
+      id: id || `e${edges.length}`,
+      source,
+      target,
+      type: type !== undefined ? String(type) : undefined,
+      label: edgeLabel !== undefined ? String(edgeLabel) : undefined,
+      data
+    });
+
+    childElements(element, 'graph').forEach(nested => {
+      collectGraph(nested, undefined, keys, nodes, edges);
+    });
+  });
+}
+
+/**
+ * Typed `<data>` values of an element, with key defaults filled in, and any
+ * yEd geometry and label found in graphics data
+ */
+function readData(
+  element: XmlElement,
+  domain: GraphMLKeyDomain,
+  keys: Map<string, GraphMLKey>
+): {
+  values: Record<string, unknown>;
+  graphics: { x?: number; y?: number; width?: number; height?: number; label?: string };
+} {
+  const values: Record<string, unknown> = {};
+  keys.forEach(key => {
+    if ((key.domain === domain || key.domain === 'all') && key.defaultValue !== undefined) {
+      values[key.name] = key.defaultValue;
+    }
+  });
+
+  const graphics: { x?: number; y?: number; width?: number; height?: number; label?: string } = {};
+  childElements(element, 'data').forEach(dataElement => {
+    const key = keys.get(dataElement.attributes.key);
+
+    if (key?.graphics || dataElement.children.length > 0) {
+      const geometry = findElement(dataElement, 'Geometry');
+      if (geometry) {
+        const width = Number(geometry.attributes.width) || 0;
+        const height = Number(geometry.attributes.height) || 0;
+        // yEd stores the top left corner; we position nodes by their center
+        graphics.x = Number(geometry.attributes.x) + width / 2;
+        graphics.y = Number(geometry.attributes.y) + height / 2;
+        if (width > 0) graphics.width = width;
+        if (height > 0) graphics.height = height;
+      }
+      const label = findElement(dataElement, 'NodeLabel') || findElement(dataElement, 'EdgeLabel');
+      if (label && label.text.trim()) {
+        graphics.label = label.text.trim();
+      }
+      return;
+    }
+
+    const name = key ? key.name : dataElement.attributes.key;
+    values[name] = convertValue(dataElement.text, key ? key.type : 'string');
+  });
+
+  return { values, graphics };
+}
+
+/**
+ * First descendant element with the given local name
+ */
+function findElement(element: XmlElement, name: string): XmlElement | undefined {
+  for (const child of element.children) {
+    if (localName(child) === name) return child;
+    const found = findElement(child, name);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Convert the text of a value to the declared attribute type
+ */
+function convertValue(text: string, type: GraphMLAttributeType): unknown {
+  if (type === 'boolean') {
+    const value = text.trim().toLowerCase();
+    return value === 'true' || value === '1';
+  }
+  if (NUMERIC_TYPES.includes(type)) {
+    const value = Number(text.trim());
+    return Number.isNaN(value) ? text : value;
+  }
+  return text;
+}
+
+/**
+ * GraphML attribute type that can hold a value
+ */
+function attributeTypeOf(value: unknown): GraphMLAttributeType {
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'number') {
+    if (!Number.isInteger(value)) return 'double';
+    return Math.abs(value) <= 2147483647 ? 'int' : 'long';
+  }
+  return 'string';
+}
+
+/**
+ * Narrowest attribute type that can hold values of both types
+ */
+function mergeAttributeTypes(a: GraphMLAttributeType, b: GraphMLAttributeType): GraphMLAttributeType {
+  if (a === b) return a;
+  if (NUMERIC_TYPES.includes(a) && NUMERIC_TYPES.includes(b)) {
+    if (a === 'double' || b === 'double' || a === 'float' || b === 'float') return 'double';
+    return 'long';
+  }
+  return 'string';
+}
+
+/**
+ * Text of a value; objects and arrays are written as JSON
+ */
+function formatValue(value: unknown): string {
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
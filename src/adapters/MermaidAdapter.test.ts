@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import { MermaidAdapter } from './MermaidAdapter';
+import { Node } from '../types/graph';
+
+const adapter = new MermaidAdapter();
+
+/**
+ * Parse a flowchart with a single link and return its edge
+ */
+function readLink(link: string) {
+  const graph = adapter.toGraph(`flowchart LR\n  A ${link} B`);
+  expect(graph.edges).toHaveLength(1);
+  return graph.edges[0];
+}
+
+const sortById = (nodes: Node[]): Node[] => [...nodes].sort((a, b) => a.id.localeCompare(b.id));
+
+describe('MermaidAdapter', () => {
+  it('reads every link form', () => {
+    expect(readLink('-->')).toMatchObject({ label: undefined, data: { stroke: 'normal', arrowhead: 'arrow' } });
+    expect(readLink('---')).toMatchObject({ data: { stroke: 'normal', arrowhead: 'none' } });
+    expect(readLink('--text-->')).toMatchObject({ label: 'text', data: { stroke: 'normal', arrowhead: 'arrow' } });
+    expect(readLink('-- two words -->')).toMatchObject({ label: 'two words' });
+    expect(readLink('-->|yes|')).toMatchObject({ label: 'yes', data: { arrowhead: 'arrow' } });
+    expect(readLink('-.->')).toMatchObject({ data: { stroke: 'dotted', arrowhead: 'arrow' } });
+    expect(readLink('-. maybe .->')).toMatchObject({ label: 'maybe', data: { stroke: 'dotted' } });
+    expect(readLink('==>')).toMatchObject({ data: { stroke: 'thick', arrowhead: 'arrow' } });
+    expect(readLink('== sure ==>')).toMatchObject({ label: 'sure', data: { stroke: 'thick' } });
+    expect(readLink('~~~')).toMatchObject({ data: { stroke: 'invisible', arrowhead: 'none' } });
+    expect(readLink('<-->')).toMatchObject({ data: { arrowhead: 'arrow', bidirectional: true } });
+    expect(readLink('--o')).toMatchObject({ data: { stroke: 'normal', arrowhead: 'circle' } });
+    expect(readLink('--x')).toMatchObject({ data: { arrowhead: 'cross' } });
+    expect(readLink('---->')).toMatchObject({ data: { length: 3 } });
+  });
+
+  it('expands chains and node groups into edges', () => {
+    const graph = adapter.toGraph('flowchart TD\n  A & B --> C --> D');
+
+    expect(graph.edges.map(edge => [edge.id, edge.source, edge.target])).toEqual([
+      ['e0', 'A', 'C'],
+      ['e1', 'B', 'C'],
+      ['e2', 'C', 'D'],
+    ]);
+  });
+
+  it('tells slanted shapes apart by their closing bracket', () => {
+    const graph = adapter.toGraph(`flowchart TD
+      A[/in/]
+      B[/top\\]
+      C[\\out\\]
+      D[\\bottom/]`);
+
+    expect(graph.nodes.map(node => [node.id, node.label, node.data?.shape])).toEqual([
+      ['A', 'in', 'parallelogram'],
+      ['B', 'top', 'trapezoid'],
+      ['C', 'out', 'parallelogram-alt'],
+      ['D', 'bottom', 'trapezoid-alt'],
+    ]);
+  });
+
+  it('reads quoted labels containing closing brackets', () => {
+    const graph = adapter.toGraph('flowchart TD\n  A["a ] b"] --> B(("x ) y")) --> C{"#quot;q#quot;"}');
+
+    expect(graph.nodes.map(node => [node.label, node.data?.shape])).toEqual([
+      ['a ] b', 'rect'],
+      ['x ) y', 'circle'],
+      ['"q"', 'diamond'],
+    ]);
+  });
+
+  it('reads nested subgraphs with their directions', () => {
+    const graph = adapter.toGraph(`flowchart LR
+  subgraph outer [Outer box]
+    direction TB
+    a
+    subgraph inner
+      direction RL
+      b
+    end
+  end
+  a --> b --> c`);
+
+    expect(graph.metadata).toEqual({
+      direction: 'left-right',
+      groups: [
+        { id: 'outer', label: 'Outer box', direction: 'top-down' },
+        { id: 'inner', label: 'inner', parent: 'outer', direction: 'right-left' },
+      ],
+    });
+    expect(graph.nodes.map(node => [node.id, node.data?.group])).toEqual([
+      ['a', 'outer'],
+      ['b', 'inner'],
+      ['c', undefined],
+    ]);
+  });
+
+  it('applies linkStyle to the links at its indices', () => {
+    const graph = adapter.toGraph(`flowchart TD
+  A --> B --> C
+  C --> D
+  linkStyle 0,2 stroke:red
+  linkStyle default stroke:gray`);
+
+    expect(graph.edges.map(edge => edge.data?.style)).toEqual(['stroke:red', undefined, 'stroke:red']);
+    expect(graph.metadata?.defaultLinkStyle).toBe('stroke:gray');
+    expect(() => adapter.toGraph('flowchart TD\n  A --> B\n  linkStyle 1 stroke:red'))
+      .toThrow('Invalid Mermaid flowchart: linkStyle refers to unknown link 1 at line 3');
+  });
+
+  it('rejects invalid flowcharts', () => {
+    expect(() => adapter.toGraph('sequenceDiagram')).toThrow(/expected "flowchart" or "graph" at line 1/);
+    expect(() => adapter.toGraph('flowchart XY')).toThrow(/unknown direction "XY"/);
+    expect(() => adapter.toGraph('flowchart TD\n  subgraph one\n  A')).toThrow(/subgraph "one" is missing "end"/);
+    expect(() => adapter.toGraph('flowchart TD\n  end')).toThrow(/"end" outside a subgraph at line 2/);
+    expect(() => adapter.toGraph(42 as unknown as string)).toThrow('Invalid Mermaid data format');
+  });
+
+  it('replaces IDs Mermaid cannot read', () => {
+    const output = adapter.fromGraph({
+      nodes: [{ id: 'end' }, { id: 'a.b' }, { id: 'a b' }, { id: 'a_b_1' }, { id: '--' }],
+      edges: [{ id: 'e', source: 'end', target: 'a.b' }],
+    });
+
+    expect(output).toBe(`flowchart TD
+  end_[end]
+  a_b["a.b"]
+  a_b_2[a b]
+  a_b_1
+  _["--"]
+  end_ --> a_b
+`);
+  });
+
+  it('round trips shapes, links, groups and styles', () => {
+    const graph = adapter.toGraph(`flowchart RL
+  classDef warm fill:#f96
+  subgraph outer [Outer]
+    direction TB
+    a([Start]):::warm
+    subgraph inner
+      b[(Store)]
+    end
+  end
+  a -- "say hi" --> b
+  b <==> c{{"Hex #35; 1"}}
+  c -.-o d
+  c ~~~ a
+  style d fill:#fff
+  linkStyle 1 stroke:blue`);
+
+    const result = adapter.toGraph(adapter.fromGraph(graph));
+
+    // Nested subgraphs are written before the other members of their parent
+    expect(result.nodes.map(node => node.id)).toEqual(['b', 'a', 'c', 'd']);
+    expect({ ...result, nodes: sortById(result.nodes) }).toEqual({ ...graph, nodes: sortById(graph.nodes) });
+  });
+});
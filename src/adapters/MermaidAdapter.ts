@@ -0,0 +1,583 @@
+/**
+ * MermaidAdapter - Converts between Mermaid flowcharts and our internal graph format
+ * @see https://mermaid.js.org/syntax/flowchart.html
+ */
+import { DataAdapter, MermaidData, MermaidGroup } from './AdapterTypes';
+import { GraphData, Node, Edge } from '../types/graph';
+import { TreeLayoutOptions } from '../layouts/tree';
+
+type Direction = NonNullable<TreeLayoutOptions['direction']>;
+
+const DIRECTIONS: Record<string, Direction> = {
+  TB: 'top-down',
+  TD: 'top-down',
+  BT: 'bottom-up',
+  LR: 'left-right',
+  RL: 'right-left',
+};
+
+const MERMAID_DIRECTIONS: Record<Direction, string> = {
+  'top-down': 'TD',
+  'bottom-up': 'BT',
+  'left-right': 'LR',
+  'right-left': 'RL',
+};
+
+/**
+ * Node shapes with their opening and closing brackets, longest openings first
+ */
+const SHAPES: { shape: string; open: string; close: string }[] = [
+  { shape: 'double-circle', open: '(((', close: ')))' },
+  { shape: 'stadium', open: '([', close: '])' },
+  { shape: 'subroutine', open: '[[', close: ']]' },
+  { shape: 'cylinder', open: '[(', close: ')]' },
+  { shape: 'circle', open: '((', close: '))' },
+  { shape: 'hexagon', open: '{{', close: '}}' },
+  { shape: 'parallelogram', open: '[/', close: '/]' },
+  { shape: 'trapezoid', open: '[/', close: '\\]' },
+  { shape: 'parallelogram-alt', open: '[\\', close: '\\]' },
+  { shape: 'trapezoid-alt', open: '[\\', close: '/]' },
+  { shape: 'rect', open: '[', close: ']' },
+  { shape: 'round', open: '(', close: ')' },
+  { shape: 'diamond', open: '{', close: '}' },
+  { shape: 'asymmetric', open: '>', close: ']' },
+];
+
+const STROKE_CHARS: Record<string, string> = {
+  normal: '-',
+  thick: '=',
+  dotted: '.',
+  invisible: '~',
+};
+
+const ARROWHEADS: Record<string, string> = {
+  '>': 'arrow',
+  o: 'circle',
+  x: 'cross',
+};
+
+/**
+ * A parsed link between two groups of nodes
+ */
+interface MermaidLink {
+  stroke: string;
+  arrowhead: string;
+  bidirectional: boolean;
+  length: number;
+  label?: string;
+}
+
+/**
+ * Adapter for Mermaid flowcharts (`flowchart` and `graph` diagrams)
+ *
+ * The shape of each node is stored in `data.shape`, using Mermaid's names such
+ * as 'rect', 'round', 'diamond' or 'cylinder'. Links store their `stroke`
+ * ('normal', 'thick', 'dotted' or 'invisible'), `arrowhead` ('arrow', 'circle',
+ * 'cross' or 'none') and `linkStyle` CSS in `data`. Nodes of a subgraph get its
+ * ID in `data.group`, and the subgraphs are listed in `metadata.groups`. The
+ * flowchart direction is stored in `metadata.direction` using the values of
+ * `TreeLayoutOptions.direction`.
+ */
+export class MermaidAdapter implements DataAdapter<MermaidData> {
+  /**
+   * Convert a Mermaid flowchart to our internal graph format
+   * @param data Mermaid flowchart definition
+   * @returns Our internal graph format
+   */
+  toGraph(data: MermaidData): GraphData {
+    if (typeof data !== 'string') {
+      throw new Error('Invalid Mermaid data format');
+    }
+
+    const nodes = new Map<string, Node>();
+    const edges: Edge[] = [];
+    const groups: MermaidGroup[] = [];
+    const groupStack: MermaidGroup[] = [];
+    const classDefs: Record<string, string> = {};
+    const metadata: Record<string, unknown> = {};
+    let headerFound = false;
+
+    const lines = data.split(/\r?\n/);
+    let lineIndex = 0;
+
+    // Skip YAML front matter, keeping its title
+    if (lines[0]?.trim() === '---') {
+      const end = lines.indexOf('---', 1);
+      if (end !== -1) {
+        lines.slice(1, end).forEach(line => {
+          const title = /^\s*title:\s*(.*)$/.exec(line);
+          if (title) metadata.title = title[1].trim();
+        });
+        lineIndex = end + 1;
+      }
+    }
+
+    const useNode = (id: string, inGroup = true): Node => {
+      let node = nodes.get(id);
+      if (!node) {
+        node = { id, label: id, data: {} };
+        nodes.set(id, node);
+      }
+      // A node belongs to the subgraph it is first mentioned in
+      const group = groupStack[groupStack.length - 1];
+      if (inGroup && group && node.data!.group === undefined) {
+        node.data!.group = group.id;
+      }
+      return node;
+    };
+
+    for (; lineIndex < lines.length; lineIndex++) {
+      const lineNumber = lineIndex + 1;
+      const fail = (message: string): never => {
+        throw new Error(`Invalid Mermaid flowchart: ${message} at line ${lineNumber}`);
+      };
+
+      splitStatements(lines[lineIndex]).forEach(statement => {
+        if (!statement || statement.startsWith('%%')) return;
+
+        if (!headerFound) {
+          const header = /^(flowchart|graph)(?:\s+(\w+))?$/i.exec(statement);
+          if (!header) fail('expected "flowchart" or "graph"');
+          const direction = header![2]?.toUpperCase();
+          if (direction !== undefined && !DIRECTIONS[direction]) fail(`unknown direction "${header![2]}"`);
+          metadata.direction = DIRECTIONS[direction ?? 'TB'];
+          headerFound = true;
+          return;
+        }
+
+        const [keyword, ...args] = statement.split(/\s+/);
+        const rest = statement.slice(keyword.length).trim();
+
+        switch (keyword) {
+          case 'subgraph': {
+            const match = /^([^\s[]+)\s*\[\s*(?:"([^"]*)"|([^\]]*))\s*\]$/.exec(rest);
+            const title = rest.replace(/^"(.*)"$/, '$1');
+            const group: MermaidGroup = match
+              ? { id: match[1], label: decodeText(match[2] ?? match[3].trim()) }
+              : { id: title, label: decodeText(title) };
+            if (!group.id) fail('subgraph without an ID');
+            if (groupStack.length > 0) group.parent = groupStack[groupStack.length - 1].id;
+            groups.push(group);
+            groupStack.push(group);
+            return;
+          }
+          case 'end':
+            if (!groupStack.pop()) fail('"end" outside a subgraph');
+            return;
+          case 'direction': {
+            const direction = DIRECTIONS[(args[0] || '').toUpperCase()];
+            if (!direction) fail(`unknown direction "${args[0]}"`);
+            if (groupStack.length > 0) {
+              groupStack[groupStack.length - 1].direction = direction;
+            } else {
+              metadata.direction = direction;
+            }
+            return;
+          }
+          case 'classDef':
+            args[0]?.split(',').forEach(name => {
+              classDefs[name] = args.slice(1).join(' ');
+            });
+            return;
+          case 'class':
+            args[0]?.split(',').forEach(id => {
+              useNode(id, false).data!.className = args[1];
+            });
+            return;
+          case 'style':
+            useNode(args[0], false).data!.style = args.slice(1).join(' ');
+            return;
+          case 'linkStyle': {
+            const css = args.slice(1).join(' ');
+            if (args[0] === 'default') {
+              metadata.defaultLinkStyle = css;
+              return;
+            }
+            (args[0] || '').split(',').forEach(index => {
+              const edge = edges[Number(index)];
+              if (!edge) fail(`linkStyle refers to unknown link ${index}`);
+              edge.data!.style = css;
+            });
+            return;
+          }
+          case 'click':
+            return;
+        }
+
+        parseChain(statement, useNode, edges, fail);
+      });
+    }
+
+    if (!headerFound) {
+      throw new Error('Invalid Mermaid flowchart: expected "flowchart" or "graph"');
+    }
+    if (groupStack.length > 0) {
+      throw new Error(`Invalid Mermaid flowchart: subgraph "${groupStack[groupStack.length - 1].id}" is missing "end"`);
+    }
+
+    if (groups.length > 0) metadata.groups = groups;
+    if (Object.keys(classDefs).length > 0) metadata.classDefs = classDefs;
+
+    return {
+      nodes: Array.from(nodes.values()),
+      edges,
+      metadata
+    };
+  }
+
+  /**
+   * Convert our internal graph format to a Mermaid flowchart
+   * Node IDs that Mermaid cannot read are replaced with safe ones
+   * @param graphData Our internal graph data
+   * @returns Mermaid flowchart definition
+   */
+  fromGraph(graphData: GraphData): MermaidData {
+    if (!graphData || !graphData.nodes || !graphData.edges) {
+      throw new Error('Invalid graph data');
+    }
+
+    const metadata = graphData.metadata || {};
+    const direction = MERMAID_DIRECTIONS[metadata.direction as Direction] || 'TD';
+
+    // Mermaid IDs are words joined by single dashes, and "end" is reserved
+    const ids = new Map<string, string>();
+    const taken = new Set<string>();
+    const safeId = (id: string): string => {
+      if (ids.has(id)) return ids.get(id)!;
+      let safe = id.replace(/[^\w-]/g, '_').replace(/-{2,}/g, '-').replace(/^-|-$/g, '_') || '_';
+      if (safe.toLowerCase() === 'end') safe += '_';
+      const base = safe;
+      for (let i = 1; taken.has(safe); i++) safe = `${base}_${i}`;
+      ids.set(id, safe);
+      taken.add(safe);
+      return safe;
+    };
+    // Keep nodes whose IDs are already valid under their own ID
+    graphData.nodes
+      .filter(node => /^\w+(-\w+)*$/.test(node.id) && node.id.toLowerCase() !== 'end')
+      .forEach(node => safeId(node.id));
+
+    const lines = [`flowchart ${direction}`];
+
+    const classDefs = metadata.classDefs as Record<string, string> | undefined;
+    Object.entries(classDefs || {}).forEach(([name, css]) => {
+      lines.push(`  classDef ${name} ${css}`);
+    });
+
+    // Subgraphs described by the metadata, plus one for any other group
+    const groups = new Map<string, MermaidGroup>();
+    if (Array.isArray(metadata.groups)) {
+      (metadata.groups as MermaidGroup[]).forEach(group => groups.set(group.id, group));
+    }
+    const members = new Map<string, Node[]>();
+    const topLevel: Node[] = [];
+    graphData.nodes.forEach(node => {
+      const group = node.data?.group;
+      if (typeof group !== 'string') {
+        topLevel.push(node);
+        return;
+      }
+      if (!groups.has(group)) groups.set(group, { id: group, label: group });
+      if (!members.has(group)) members.set(group, []);
+      members.get(group)!.push(node);
+    });
+
+    const childGroups = new Map<string | undefined, MermaidGroup[]>();
+    groups.forEach(group => {
+      const parent = group.parent !== undefined && groups.has(group.parent) ? group.parent : undefined;
+      if (!childGroups.has(parent)) childGroups.set(parent, []);
+      childGroups.get(parent)!.push(group);
+    });
+
+    const nodeLine = (node: Node, indent: string): string => {
+      const id = safeId(node.id);
+      const shapeName = typeof node.data?.shape === 'string' ? node.data.shape : undefined;
+      const label = node.label ?? node.id;
+      const shape = SHAPES.find(s => s.shape === shapeName)
+        || (label !== id || shapeName !== undefined ? SHAPES.find(s => s.shape === 'rect')! : undefined);
+      const className = typeof node.data?.className === 'string' ? `:::${node.data.className}` : '';
+      return shape
+        ? `${indent}${id}${shape.open}${encodeText(label)}${shape.close}${className}`
+        : `${indent}${id}${className}`;
+    };
+
+    const written = new Set<string>();
+    const groupLines = (group: MermaidGroup, indent: string): string[] => {
+      written.add(group.id);
+      const label = group.label !== undefined && group.label !== group.id ? ` [${encodeText(group.label)}]` : '';
+      const result = [`${indent}subgraph ${safeId(group.id)}${label}`];
+      if (group.direction && MERMAID_DIRECTIONS[group.direction]) {
+        result.push(`${indent}  direction ${MERMAID_DIRECTIONS[group.direction]}`);
+      }
+      (childGroups.get(group.id) || []).forEach(child => {
+        if (!written.has(child.id)) result.push(...groupLines(child, `${indent}  `));
+      });
+      (members.get(group.id) || []).forEach(node => result.push(nodeLine(node, `${indent}  `)));
+      result.push(`${indent}end`);
+      return result;
+    };
+
+    (childGroups.get(undefined) || []).forEach(group => lines.push(...groupLines(group, '  ')));
+    // Groups whose parents form a cycle are never reached from the top level
+    groups.forEach(group => {
+      if (!written.has(group.id)) lines.push(...groupLines(group, '  '));
+    });
+    topLevel.forEach(node => lines.push(nodeLine(node, '  ')));
+
+    graphData.edges.forEach(edge => {
+      lines.push(`  ${safeId(edge.source)} ${formatLink(edge)} ${safeId(edge.target)}`);
+    });
+
+    graphData.nodes.forEach(node => {
+      if (typeof node.data?.style === 'string') {
+        lines.push(`  style ${safeId(node.id)} ${node.data.style}`);
+      }
+    });
+    if (typeof metadata.defaultLinkStyle === 'string') {
+      lines.push(`  linkStyle default ${metadata.defaultLinkStyle}`);
+    }
+    graphData.edges.forEach((edge, index) => {
+      if (typeof edge.data?.style === 'string') {
+        lines.push(`  linkStyle ${index} ${edge.data.style}`);
+      }
+    });
+
+    return lines.join('\n') + '\n';
+  }
+}
+
+/**
+ * Split a line into statements at semicolons outside quoted text
+ */
+function splitStatements(line: string): string[] {
+  const statements: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (const char of line) {
+    if (char === '"') quoted = !quoted;
+    if (char === ';' && !quoted) {
+      statements.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  statements.push(current.trim());
+  return statements;
+}
+
+/**
+ * Parse a chain of node groups joined by links, e.g. `A & B -->|yes| C --> D`
+ */
+function parseChain(
+  statement: string,
+  useNode: (id: string) => Node,
+  edges: Edge[],
+  fail: (message: string) => never
+): void {
+  let index = 0;
+
+  const skipWhitespace = () => {
+    while (index < statement.length && /\s/.test(statement[index])) index++;
+  };
+
+  const parseNode = (): string => {
+    skipWhitespace();
+    const id = /^\w+(?:-\w+)*/.exec(statement.slice(index));
+    if (!id) fail(`expected a node ID in "${statement}"`);
+    index += id![0].length;
+    const node = useNode(id![0]);
+
+    const rest = statement.slice(index);
+    const shape = SHAPES.find(s => rest.startsWith(s.open) && findClose(rest, s) !== -1);
+    if (shape) {
+      const close = findClose(rest, shape);
+      node.label = decodeText(rest.slice(shape.open.length, close).trim().replace(/^"([\s\S]*)"$/, '$1'));
+      node.data!.shape = shape.shape;
+      index += close + shape.close.length;
+    }
+
+    const className = /^:::([\w-]+)/.exec(statement.slice(index));
+    if (className) {
+      node.data!.className = className[1];
+      index += className[0].length;
+    }
+
+    return node.id;
+  };
+
+  const parseGroup = (): string[] => {
+    const ids = [parseNode()];
+    skipWhitespace();
+    while (statement[index] === '&') {
+      index++;
+      ids.push(parseNode());
+      skipWhitespace();
+    }
+    return ids;
+  };
+
+  let sources = parseGroup();
+  skipWhitespace();
+  while (index < statement.length) {
+    const link = parseLink(statement.slice(index));
+    if (!link) fail(`expected a link in "${statement}"`);
+    index += link!.consumed;
+
+    const targets = parseGroup();
+    sources.forEach(source => {
+      targets.forEach(target => {
+        const data: Record<string, unknown> = {
+          stroke: link!.link.stroke,
+          arrowhead: link!.link.arrowhead,
+        };
+        if (link!.link.bidirectional) data.bidirectional = true;
+        if (link!.link.length > 1) data.length = link!.link.length;
+
+        edges.push({
+          id: `e${edges.length}`,
+          source,
+          target,
+          label: link!.link.label,
+          data
+        });
+      });
+    });
+
+    sources = targets;
+    skipWhitespace();
+  }
+}
+
+/**
+ * Position of the closing bracket of a node shape in text starting with its opening
+ */
+function findClose(text: string, shape: { open: string; close: string }): number {
+  let from = shape.open.length;
+  // Quoted labels may contain closing brackets
+  if (text[from] === '"' || text.slice(from).trimStart().startsWith('"')) {
+    const quote = text.indexOf('"', from);
+    const endQuote = text.indexOf('"', quote + 1);
+    if (endQuote !== -1) from = endQuote + 1;
+  }
+
+  const close = text.indexOf(shape.close, from);
+  if (close === -1) return -1;
+
+  // Slanted shapes are told apart by their closing bracket
+  if (shape.open === '[/' || shape.open === '[\\') {
+    const other = text.indexOf(shape.close === '/]' ? '\\]' : '/]', from);
+    if (other !== -1 && other < close) return -1;
+  }
+
+  return close;
+}
+
+/**
+ * Parse a link with its label at the start of the text
+ */
+function parseLink(text: string): { link: MermaidLink; consumed: number } | null {
+  const plain = /^(<)?(-{2,}|={2,}|-\.+-|~{3,})(>|[ox](?!\w))?/.exec(text);
+  const opener = /^(<)?(--|==|-\.)(?![-=.>])/.exec(text);
+
+  let start: string | undefined;
+  let body: string;
+  let head: string | undefined;
+  let consumed: number;
+  let label: string | undefined;
+
+  if (plain && (plain[3] !== undefined || plain[2].length > 2)) {
+    [, start, body, head] = plain;
+    consumed = plain[0].length;
+  } else if (opener) {
+    // `--`, `==` and `-.` without an arrowhead open a link with its label inline
+    const closers: Record<string, RegExp> = {
+      '--': /^([\s\S]*?)\s*(-{2,})(>|[ox](?!\w))?/,
+      '==': /^([\s\S]*?)\s*(={2,})(>|[ox](?!\w))?/,
+      '-.': /^([\s\S]*?)\s*(\.+-)(>|[ox](?!\w))?/,
+    };
+    const closing = closers[opener[2]].exec(text.slice(opener[0].length));
+    if (!closing || !closing[1].trim()) return null;
+    if (opener[2] !== '-.' && closing[3] === undefined && closing[2].length < 3) return null;
+
+    start = opener[1];
+    body = opener[2] === '-.' ? `-${closing[2]}` : closing[2];
+    head = closing[3];
+    consumed = opener[0].length + closing[0].length;
+    label = decodeText(closing[1].trim().replace(/^"([\s\S]*)"$/, '$1'));
+  } else {
+    return null;
+  }
+
+  let stroke = 'normal';
+  if (body.startsWith('=')) stroke = 'thick';
+  if (body.includes('.')) stroke = 'dotted';
+  if (body.startsWith('~')) stroke = 'invisible';
+
+  // Extra dashes, dots or equals signs make links span more ranks
+  const length = stroke === 'dotted' || stroke === 'invisible' || !head
+    ? body.length - 2
+    : body.length - 1;
+
+  const pipe = /^\s*\|([^|]*)\|/.exec(text.slice(consumed));
+  if (pipe && label === undefined) {
+    label = decodeText(pipe[1].trim().replace(/^"([\s\S]*)"$/, '$1'));
+    consumed += pipe[0].length;
+  }
+
+  return {
+    link: {
+      stroke,
+      arrowhead: head ? ARROWHEADS[head] : 'none',
+      bidirectional: start !== undefined && head !== undefined,
+      length: Math.max(1, length),
+      label,
+    },
+    consumed,
+  };
+}
+
+/**
+ * Write the link of an edge with its label
+ */
+function formatLink(edge: Edge): string {
+  const stroke = typeof edge.data?.stroke === 'string' && STROKE_CHARS[edge.data.stroke]
+    ? edge.data.stroke
+    : 'normal';
+  const arrowhead = typeof edge.data?.arrowhead === 'string' ? edge.data.arrowhead : 'arrow';
+  const head = Object.keys(ARROWHEADS).find(key => ARROWHEADS[key] === arrowhead) || '';
+  const length = typeof edge.data?.length === 'number' ? Math.max(1, Math.round(edge.data.length)) : 1;
+  const start = edge.data?.bidirectional === true && head ? (head === '>' ? '<' : head) : '';
+
+  let body: string;
+  if (stroke === 'dotted') {
+    body = `-${'.'.repeat(length)}-`;
+  } else if (stroke === 'invisible') {
+    body = '~'.repeat(length + 2);
+  } else {
+    body = STROKE_CHARS[stroke].repeat(head ? length + 1 : length + 2);
+  }
+
+  const link = stroke === 'invisible' ? body : start + body + head;
+  return edge.label !== undefined && stroke !== 'invisible'
+    ? `${link}|${encodeText(edge.label)}|`
+    : link;
+}
+
+/**
+ * Replace Mermaid entity codes such as `#quot;` and `#35;` with their characters
+ */
+function decodeText(text: string): string {
+  return text
+    .replace(/#quot;/g, '"')
+    .replace(/#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/<br\s*\/?>/gi, '\n');
+}
+
+/**
+ * Quote text when it contains characters Mermaid would read as syntax
+ */
+function encodeText(text: string): string {
+  const encoded = text.replace(/"/g, '#quot;').replace(/\r?\n/g, '<br/>');
+  return /^[\w ]+$/.test(encoded) ? encoded : `"${encoded}"`;
+}
@@ -11,6 +11,12 @@ export { CytoscapeAdapter } from './CytoscapeAdapter';
 export { AdjacencyMatrixAdapter } from './AdjacencyMatrixAdapter';
 export { DependencyTreeAdapter } from './DependencyTreeAdapter';
 export { JSONGraphAdapter } from './JSONGraphAdapter';
+export { GraphMLAdapter } from './GraphMLAdapter';
+export { DOTAdapter, DOTParseError } from './DOTAdapter';
+export { MermaidAdapter } from './MermaidAdapter';
+export { GEXFAdapter } from './GEXFAdapter';
+export { CSVAdapter } from './CSVAdapter';
+export type { CSVAdapterOptions, CSVEdgeColumns, CSVNodeColumns } from './CSVAdapter';
 
 // Create a factory for easy adapter selection
 import { GraphData } from '../types/graph';
@@ -20,7 +26,12 @@ import {
   CytoscapeData,
   AdjacencyMatrixData,
   DependencyTreeData,
-  JSONGraphFormat
+  JSONGraphFormat,
+  GraphMLData,
+  DOTData,
+  MermaidData,
+  GEXFData,
+  CSVData
 } from './AdapterTypes';
 
 import { D3ForceAdapter } from './D3ForceAdapter';
@@ -28,6 +39,11 @@ import { CytoscapeAdapter } from './CytoscapeAdapter';
 import { AdjacencyMatrixAdapter } from './AdjacencyMatrixAdapter';
 import { DependencyTreeAdapter } from './DependencyTreeAdapter';
 import { JSONGraphAdapter } from './JSONGraphAdapter';
+import { GraphMLAdapter } from './GraphMLAdapter';
+import { DOTAdapter } from './DOTAdapter';
+import { MermaidAdapter } from './MermaidAdapter';
+import { GEXFAdapter } from './GEXFAdapter';
+import { CSVAdapter, CSVAdapterOptions } from './CSVAdapter';
 
 /**
  * Supported data format types
@@ -37,7 +53,12 @@ export type DataFormatType =
   | 'cytoscape'
   | 'adjacency-matrix'
   | 'dependency-tree'
-  | 'json-graph';
+  | 'json-graph'
+  | 'graphml'
+  | 'dot'
+  | 'mermaid'
+  | 'gexf'
+  | 'csv';
 
 /**
  * Union type of all supported data formats
@@ -47,10 +68,17 @@ export type SupportedDataFormat =
   | CytoscapeData
   | AdjacencyMatrixData
   | DependencyTreeData
-  | JSONGraphFormat;
+  | JSONGraphFormat
+  | GraphMLData
+  | DOTData
+  | MermaidData
+  | GEXFData
+  | CSVData;
 
 /**
  * Factory for creating adapters based on data format
+ * Adapters are shared and use their default options; the CSV options are taken
+ * by `convertFromCSV` and `convertToCSV` instead
  */
 export class AdapterFactory {
   private static readonly adapters: Record<DataFormatType, DataAdapter<any>> = {
@@ -58,7 +86,12 @@ export class AdapterFactory {
     'cytoscape': new CytoscapeAdapter(),
     'adjacency-matrix': new AdjacencyMatrixAdapter(),
     'dependency-tree': new DependencyTreeAdapter(),
-    'json-graph': new JSONGraphAdapter()
+    'json-graph': new JSONGraphAdapter(),
+    'graphml': new GraphMLAdapter(),
+    'dot': new DOTAdapter(),
+    'mermaid': new MermaidAdapter(),
+    'gexf': new GEXFAdapter(),
+    'csv': new CSVAdapter()
   };
 
   /**
@@ -134,4 +167,44 @@ export const convertFromJSONGraph = (data: JSONGraphFormat): GraphData => {
 
 export const convertToJSONGraph = (graphData: GraphData): JSONGraphFormat => {
   return new JSONGraphAdapter().fromGraph(graphData);
-}; 
\ No newline at end of file
+};
+
+export const convertFromGraphML = (data: GraphMLData): GraphData => {
+  return new GraphMLAdapter().toGraph(data);
+};
+
+export const convertToGraphML = (graphData: GraphData): GraphMLData => {
+  return new GraphMLAdapter().fromGraph(graphData);
+};
+
+export const convertFromDOT = (data: DOTData): GraphData => {
+  return new DOTAdapter().toGraph(data);
+};
+
+export const convertToDOT = (graphData: GraphData): DOTData => {
+  return new DOTAdapter().fromGraph(graphData);
+};
+
+export const convertFromMermaid = (data: MermaidData): GraphData => {
+  return new MermaidAdapter().toGraph(data);
+};
+
+export const convertToMermaid = (graphData: GraphData): MermaidData => {
+  return new MermaidAdapter().fromGraph(graphData);
+};
+
+export const convertFromGEXF = (data: GEXFData): GraphData => {
+  return new GEXFAdapter().toGraph(data);
+};
+
+export const convertToGEXF = (graphData: GraphData): GEXFData => {
+  return new GEXFAdapter().fromGraph(graphData);
+};
+
+export const convertFromCSV = (data: CSVData, options?: CSVAdapterOptions): GraphData => {
+  return new CSVAdapter(options).toGraph(data);
+};
+
+export const convertToCSV = (graphData: GraphData, options?: CSVAdapterOptions): CSVData => {
+  return new CSVAdapter(options).fromGraph(graphData);
+};
\ No newline at end of file
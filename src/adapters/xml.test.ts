@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { parseXml, escapeXml } from './xml';
+
+describe('parseXml', () => {
+  it('decodes predefined and numeric entities in text and attributes', () => {
+    const root = parseXml('<a title="&lt;&#x1F600;&gt;">&amp;&#65;&unknown;</a>');
+
+    expect(root.attributes.title).toBe('<\u{1F600}>');
+    expect(root.text).toBe('&A&unknown;');
+  });
+
+  it('reports character references outside Unicode where they are', () => {
+    expect(() => parseXml('<a>\n  ok &#x110000;</a>'))
+      .toThrow('Invalid XML: invalid character reference &#x110000; at line 2, column 6');
+    expect(() => parseXml('<a b="&#99999999;"/>'))
+      .toThrow('Invalid XML: invalid character reference &#99999999; at line 1, column 7');
+  });
+});
+
+describe('escapeXml', () => {
+  it('round trips through the parser', () => {
+    const value = 'a < b & "c" > d';
+
+    expect(parseXml(`<a v="${escapeXml(value)}">${escapeXml(value)}</a>`)).toMatchObject({
+      attributes: { v: value },
+      text: value,
+    });
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Minimal XML reader and writer helpers shared by the XML based adapters
+ * Supports elements, attributes, text, CDATA and the predefined and numeric
+ * entities; comments, processing instructions and DOCTYPE are skipped
+ */
+
+export interface XmlElement {
+  /** Element name including any namespace prefix, e.g. 'y:ShapeNode' */
+  name: string;
+  /** Attribute values keyed by attribute name */
+  attributes: Record<string, string>;
+  /** Child elements in document order */
+  children: XmlElement[];
+  /** Concatenated text content directly inside the element */
+  text: string;
+}
+
+// Largest Unicode code point a numeric character reference may name
+const MAX_CODE_POINT = 0x10ffff;
+
+const ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Parse an XML document and return its root element
+ */
+export function parseXml(source: string): XmlElement {
+  let index = 0;
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+
+  const fail = (message: string, at = index): never => {
+    const before = source.slice(0, at).split('\n');
+    throw new Error(
+      `Invalid XML: ${message} at line ${before.length}, column ${before[before.length - 1].length + 1}`
+    );
+  };
+
+  const skipPast = (terminator: string) => {
+    const end = source.indexOf(terminator, index);
+    if (end === -1) fail(`missing "${terminator}"`);
+    index = end + terminator.length;
+  };
+
+  while (index < source.length) {
+    if (source[index] !== '<') {
+      const end = source.indexOf('<', index);
+      const text = source.slice(index, end === -1 ? source.length : end);
+      if (stack.length > 0) {
+        stack[stack.length - 1].text += decodeEntities(text, index);
+      } else if (text.trim()) {
+        fail('text outside the root element');
+      }
+      index = end === -1 ? source.length : end;
+      continue;
+    }
+
+    if (source.startsWith('<!--', index)) {
+      skipPast('-->');
+    } else if (source.startsWith('<![CDATA[', index)) {
+      const start = index + 9;
+      skipPast(']]>');
+      if (stack.length === 0) fail('CDATA outside the root element', start);
+      stack[stack.length - 1].text += source.slice(start, index - 3);
+    } else if (source.startsWith('<?', index)) {
+      skipPast('?>');
+    } else if (source.startsWith('<!', index)) {
+      // DOCTYPE, possibly with an internal subset
+      const bracket = source.indexOf('[', index);
+      const close = source.indexOf('>', index);
+      if (bracket !== -1 && close !== -1 && bracket < close) {
+        index = bracket;
+        skipPast(']');
+      }
+      skipPast('>');
+    } else if (source[index + 1] === '/') {
+      const start = index;
+      index += 2;
+      const name = readName();
+      skipWhitespace();
+      if (source[index] !== '>') fail('expected ">"');
+      index++;
+      const open = stack.pop();
+      if (!open) fail(`unexpected closing tag </${name}>`, start);
+      if (open!.name !== name) fail(`expected </${open!.name}> but found </${name}>`, start);
+    } else {
+      const start = index;
+      index++;
+      const element: XmlElement = { name: readName(), attributes: {}, children: [], text: '' };
+
+      let selfClosing = false;
+      for (;;) {
+        skipWhitespace();
+        if (source.startsWith('/>', index)) {
+          index += 2;
+          selfClosing = true;
+          break;
+        }
+        if (source[index] === '>') {
+          index++;
+          break;
+        }
+        if (index >= source.length) fail(`unterminated tag <${element.name}>`, start);
+
+        const attribute = readName();
+        skipWhitespace();
+        if (source[index] !== '=') fail(`expected "=" after attribute ${attribute}`);
+        index++;
+        skipWhitespace();
+        const quote = source[index];
+        if (quote !== '"' && quote !== "'") fail(`expected a quoted value for attribute ${attribute}`);
+        const end = source.indexOf(quote, index + 1);
+        if (end === -1) fail(`unterminated value of attribute ${attribute}`);
+        element.attributes[attribute] = decodeEntities(source.slice(index + 1, end), index + 1);
+        index = end + 1;
+      }
+
+      if (stack.length > 0) {
+        stack[stack.length - 1].children.push(element);
+      } else if (root) {
+        fail('more than one root element', start);
+      } else {
+        root = element;
+      }
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  if (stack.length > 0) fail(`unclosed element <${stack[stack.length - 1].name}>`);
+  if (!root) fail('no root element');
+  return root!;
+
+  function skipWhitespace() {
+    while (index < source.length && /\s/.test(source[index])) index++;
+  }
+
+  function readName(): string {
+    const match = /^[^\s/>=<"']+/.exec(source.slice(index, index + 256));
+    if (!match) fail('expected a name');
+    index += match![0].length;
+    return match![0];
+  }
+
+  // Replace entity references in text starting at `at` with the characters they stand for
+  function decodeEntities(text: string, at: number): string {
+    return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (reference, entity: string, offset: number) => {
+      if (entity[0] === '#') {
+        const code = entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+        if (code > MAX_CODE_POINT) fail(`invalid character reference ${reference}`, at + offset);
+        return String.fromCodePoint(code);
+      }
+      return ENTITIES[entity] ?? reference;
+    });
+  }
+}
+
+/**
+ * Escape text for use in XML content or a double-quoted attribute value
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Element name without its namespace prefix
+ */
+export function localName(element: XmlElement): string {
+  const colon = element.name.indexOf(':');
+  return colon === -1 ? element.name : element.name.slice(colon + 1);
+}
+
+/**
+ * Child elements with the given local name
+ */
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter(child => localName(child) === name);
+}
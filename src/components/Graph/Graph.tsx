@@ -4,8 +4,22 @@ import { GraphEdges } from '../edge/GraphEdges';
 import { NodeRenderer } from '../node/NodeRenderer';
 import { GraphDefs } from './GraphDefs';
 import { GraphControls } from './GraphControls';
+import { LayoutProgress } from './LayoutProgress';
+import { TimeAxis, TimeAxisOptions } from './TimeAxis';
 import { LayoutType } from '../../layouts';
 import { createLayout } from '../../layouts/factory';
+import { createLayoutAsync, isLayoutCancelled, LayoutTask } from '../../layouts/async';
+import { incrementalLayout as updateLayoutIncrementally } from '../../layouts/incremental';
+import { removeOverlaps, OverlapRemovalOptions } from '../../layouts/overlap';
+import { ComponentPackingOptions } from '../../layouts/packing';
+import { PinConstraint, resolvePinnedPositions } from '../../layouts/constraints';
+import { ForceSimulationOptions } from '../../layouts/simulation';
+import { fitTimeScale, TimeScale } from '../../layouts/timeline';
+import { EdgeRoutingOptions, EdgeRoutingStyle } from '../../layouts/routing';
+import { EdgeBundlingOptions } from '../../layouts/bundling';
+import { useForceSimulation } from '../../hooks/useForceSimulation';
+import { useAnimatedPositions } from '../../hooks/useAnimatedPositions';
+import { LayoutTransitionOptions } from '../../utils/animation';
 
 export interface InteractionOptions {
   /** Enable node/edge selection */
@@ -39,6 +53,34 @@ export interface GraphProps {
   autoLayout?: LayoutType;
   /** Options for the layout algorithm */
   layoutOptions?: any;
+  /** IDs of nodes that keep their current position when the layout runs (nodes with `data.fixed` stay at `data.x`/`data.y`) */
+  pinned?: string[] | Set<string>;
+  /** Keep positions stored in node data (`data.x`/`data.y` or `data.position`) and run the layout only for nodes without one */
+  usePresetPositions?: boolean;
+  /** Run the layout algorithm in a Web Worker instead of blocking the main thread */
+  asyncLayout?: boolean;
+  /** Callback receiving the layout progress (0 to 1) while an async layout runs */
+  onLayoutProgress?: (progress: number) => void;
+  /** Keep existing positions when data changes and only place new nodes */
+  incrementalLayout?: boolean;
+  /** Push overlapping nodes apart using their measured sizes after every layout */
+  overlapRemoval?: boolean | OverlapRemovalOptions;
+  /** Lay out disconnected clusters separately and pack them to fit the viewport */
+  packComponents?: boolean | ComponentPackingOptions;
+  /** Animate nodes and edges to their new positions when the layout changes */
+  layoutTransition?: boolean | LayoutTransitionOptions;
+  /** Keep a force simulation running after the layout; dragged nodes pull their neighbours along */
+  liveSimulation?: boolean | ForceSimulationOptions;
+  /** Pause the live simulation */
+  simulationPaused?: boolean;
+  /** Callback when the live simulation is paused or resumed from the graph controls */
+  onSimulationPausedChange?: (paused: boolean) => void;
+  /** Show a time ruler that follows pan and zoom (timeline layout only) */
+  timeAxis?: boolean | TimeAxisOptions;
+  /** Route edges around nodes ('orthogonal' or 'spline') instead of drawing straight lines */
+  edgeRouting?: EdgeRoutingStyle | EdgeRoutingOptions;
+  /** Bundle edges by node group into curves, for circular and radial layouts with many edges */
+  edgeBundling?: boolean | EdgeBundlingOptions;
   /** Scale factor for node sizes */
   nodeSizeScale?: number;
   /** Visual theme to use */
@@ -69,6 +111,76 @@ export interface GraphProps {
   onDragEnd?: (nodeIds: string[]) => void;
 }
 
+// Options used when edgeBundling is simply turned on, kept stable across renders
+const bundlingDefaults: EdgeBundlingOptions = {};
+
+/**
+ * Centers a layout result around (0,0)
+ */
+function centerLayout(layoutResult: Record<string, Position>): Record<string, Position> {
+  // Calculate the bounds of the layout
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  Object.values(layoutResult).forEach(pos => {
+    minX = Math.min(minX, pos.x);
+    maxX = Math.max(maxX, pos.x);
+    minY = Math.min(minY, pos.y);
+    maxY = Math.max(maxY, pos.y);
+  });
+
+  // Calculate the center of the layout
+  const centerX = (minX + maxX) / 2;
+  const centerY = (minY + maxY) / 2;
+
+  // Center the layout by subtracting the center offset from each position
+  const centeredLayout: Record<string, Position> = {};
+  Object.entries(layoutResult).forEach(([nodeId, pos]) => {
+    centeredLayout[nodeId] = {
+      x: pos.x - centerX,
+      y: pos.y - centerY
+    };
+  });
+
+  return centeredLayout;
+}
+
+/**
+ * Moves a layout computed around the viewport center to graph coordinates
+ * Used instead of centerLayout when pinned nodes must land exactly on their pins
+ */
+function toGraphCoordinates(
+  layoutResult: Record<string, Position>,
+  width: number,
+  height: number
+): Record<string, Position> {
+  const result: Record<string, Position> = {};
+  Object.entries(layoutResult).forEach(([nodeId, pos]) => {
+    result[nodeId] = { x: pos.x - width / 2, y: pos.y - height / 2 };
+  });
+  return result;
+}
+
+/**
+ * Simple grid layout used when the selected layout algorithm fails
+ */
+function createFallbackLayout(nodes: GraphNode[]): Record<string, Position> {
+  const initialPositions: Record<string, Position> = {};
+  const gridSize = Math.ceil(Math.sqrt(nodes.length));
+  const spacing = 150;
+
+  nodes.forEach((node, index) => {
+    const row = Math.floor(index / gridSize);
+    const col = index % gridSize;
+    
+    // Position nodes in a grid, centered at (0,0)
+    initialPositions[node.id] = {
+      x: (col - gridSize/2) * spacing,
+      y: (row - gridSize/2) * spacing
+    };
+  });
+
+  return initialPositions;
+}
+
 /**
  * Main Graph component for visualizing nodes and their connections
  */
@@ -78,6 +190,20 @@ export const Graph: React.FC<GraphProps> = ({
   height = 600,
   autoLayout = 'force',
   layoutOptions = {},
+  pinned,
+  usePresetPositions = false,
+  asyncLayout = false,
+  onLayoutProgress,
+  incrementalLayout = false,
+  overlapRemoval = false,
+  packComponents = false,
+  layoutTransition = false,
+  liveSimulation = false,
+  simulationPaused = false,
+  onSimulationPausedChange,
+  timeAxis = false,
+  edgeRouting,
+  edgeBundling = false,
   nodeSizeScale = 1,
   theme = 'light',
   interactionOptions = {},
@@ -130,6 +256,9 @@ export const Graph: React.FC<GraphProps> = ({
     nodes: Set<string>;
     edges: Set<string>;
   }>({ nodes: new Set(), edges: new Set() });
+  // Latest positions for effects that should not re-run on every position change
+  const nodePositionsRef = useRef(nodePositions);
+  nodePositionsRef.current = nodePositions;
   const [nodeSizes, setNodeSizes] = useState<Record<string, { width: number; height: number }>>({});
 
   // Panning state
@@ -138,6 +267,20 @@ export const Graph: React.FC<GraphProps> = ({
   
   // Initialization state
   const [isInitialized, setIsInitialized] = useState(false);
+
+  // Progress of the running async layout (null when no layout is running)
+  const [layoutProgress, setLayoutProgress] = useState<number | null>(null);
+  const layoutTaskRef = useRef<LayoutTask | null>(null);
+
+  // Latest callback and pinned ids, read when a layout starts so that new
+  // instances on each parent render do not restart a running layout
+  const onLayoutProgressRef = useRef(onLayoutProgress);
+  onLayoutProgressRef.current = onLayoutProgress;
+  const pinnedRef = useRef(pinned);
+  pinnedRef.current = pinned;
+
+  // Time scale of the current timeline layout, used by the time ruler
+  const [timeScale, setTimeScale] = useState<TimeScale | null>(null);
   
   // Track previous layout type to detect changes
   const prevLayoutTypeRef = useRef(autoLayout);
@@ -145,6 +288,33 @@ export const Graph: React.FC<GraphProps> = ({
   // Track active node dragging to prevent graph panning during node dragging
   const [draggingNode, setDraggingNode] = useState<string | null>(null);
 
+  // Live simulation state, initialized from the simulationPaused prop
+  const [isSimulationPaused, setIsSimulationPaused] = useState(simulationPaused);
+  const simulationOptions = liveSimulation === true ? undefined : liveSimulation || undefined;
+  const { isRunning: isSimulationRunning, pinNode, releaseNode } = useForceSimulation(
+    !!liveSimulation && isInitialized && layoutProgress === null,
+    isSimulationPaused,
+    processedData.nodes,
+    processedData.edges,
+    nodePositions,
+    setNodePositions,
+    simulationOptions,
+    pinned
+  );
+
+  // Positions on screen; dragging and simulation ticks are shown without a transition
+  const displayPositions = useAnimatedPositions(
+    nodePositions,
+    !!layoutTransition,
+    draggingNode !== null || isSimulationRunning,
+    layoutTransition === true ? undefined : layoutTransition || undefined
+  );
+
+  // Follow changes of the simulationPaused prop
+  useEffect(() => {
+    setIsSimulationPaused(simulationPaused);
+  }, [simulationPaused]);
+
   // Reset initialization state when layout type changes
   useEffect(() => {
     if (prevLayoutTypeRef.current !== autoLayout) {
@@ -177,63 +347,102 @@ export const Graph: React.FC<GraphProps> = ({
   useEffect(() => {
     if (processedData.nodes.length === 0 || isInitialized) return;
 
-    try {
-      // Apply layout algorithm
-      const layoutResult = createLayout(
-        processedData.nodes,
-        processedData.edges,
-        {
-          type: autoLayout,
-          layoutOptions,
-          width: viewportSize.width,
-          height: viewportSize.height
-        }
-      );
+    // Pin constraints in layout coordinates, which are centered on the viewport
+    const pinConstraints: PinConstraint[] = [];
+    const toLayoutPin = (nodeId: string, position: Position): PinConstraint => ({
+      type: 'pin',
+      nodeId,
+      x: position.x + viewportSize.width / 2,
+      y: position.y + viewportSize.height / 2
+    });
 
-      // Calculate the bounds of the layout
-      let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
-      Object.values(layoutResult).forEach(pos => {
-        minX = Math.min(minX, pos.x);
-        maxX = Math.max(maxX, pos.x);
-        minY = Math.min(minY, pos.y);
-        maxY = Math.max(maxY, pos.y);
-      });
+    const pinnedPositions = resolvePinnedPositions(processedData.nodes, pinnedRef.current, nodePositionsRef.current);
+    Object.entries(pinnedPositions).forEach(([nodeId, position]) => {
+      pinConstraints.push(toLayoutPin(nodeId, position));
+    });
 
-      // Calculate the center of the layout
-      const centerX = (minX + maxX) / 2;
-      const centerY = (minY + maxY) / 2;
-
-      // Center the layout by subtracting the center offset from each position
-      const centeredLayout: Record<string, Position> = {};
-      Object.entries(layoutResult).forEach(([nodeId, pos]) => {
-        centeredLayout[nodeId] = {
-          x: pos.x - centerX,
-          y: pos.y - centerY
-        };
-      });
+    const hasPins = pinConstraints.length > 0;
+    const toPositions = (layoutResult: Record<string, Position>) => hasPins
+      ? toGraphCoordinates(layoutResult, viewportSize.width, viewportSize.height)
+      : centerLayout(layoutResult);
+
+    // Show the layout result, remembering the time scale of timelines
+    const showLayout = (layoutResult: Record<string, Position>) => {
+      const positions = toPositions(layoutResult);
+      setNodePositions(positions);
+      setTimeScale(autoLayout === 'timeline'
+        ? fitTimeScale(processedData.nodes, positions, layoutOptions)
+        : null);
+    };
 
-      // Set node positions
-      setNodePositions(centeredLayout);
-    } catch (e) {
-      console.error("Error applying layout:", e);
-      
-      // Fallback to a simple grid layout
-      const initialPositions: Record<string, Position> = {};
-      const gridSize = Math.ceil(Math.sqrt(processedData.nodes.length));
-      const spacing = 150;
-
-      processedData.nodes.forEach((node, index) => {
-        const row = Math.floor(index / gridSize);
-        const col = index % gridSize;
-        
-        // Position nodes in a grid, centered at (0,0)
-        initialPositions[node.id] = {
-          x: (col - gridSize/2) * spacing,
-          y: (row - gridSize/2) * spacing
-        };
-      });
+    const chosenLayoutOptions = hasPins
+      ? { ...layoutOptions, constraints: [...(layoutOptions.constraints || []), ...pinConstraints] }
+      : layoutOptions;
+
+    // Preset positions wrap the chosen layout, which then only places nodes without one
+    const usePreset = usePresetPositions && autoLayout !== 'preset';
+    const factoryOptions = {
+      type: usePreset ? 'preset' : autoLayout,
+      layoutOptions: usePreset
+        ? { layout: autoLayout, layoutOptions: chosenLayoutOptions, nodeSpacing: layoutOptions.nodeSpacing }
+        : chosenLayoutOptions,
+      width: viewportSize.width,
+      height: viewportSize.height,
+      packComponents
+    };
 
-      setNodePositions(initialPositions);
+    // Cancel a layout still running for a previous configuration
+    if (layoutTaskRef.current) {
+      layoutTaskRef.current.cancel();
+      layoutTaskRef.current = null;
+    }
+
+    if (asyncLayout) {
+      // Keep showing the previous positions until the new layout arrives
+      const task = createLayoutAsync(processedData.nodes, processedData.edges, {
+        ...factoryOptions,
+        onProgress: (progress) => {
+          setLayoutProgress(progress);
+          if (onLayoutProgressRef.current) {
+            onLayoutProgressRef.current(progress);
+          }
+        }
+      });
+      layoutTaskRef.current = task;
+      setLayoutProgress(0);
+
+      task.promise
+        .then(layoutResult => {
+          showLayout(layoutResult);
+        })
+        .catch(e => {
+          if (isLayoutCancelled(e)) return;
+          console.error("Error applying layout:", e);
+          setNodePositions(createFallbackLayout(processedData.nodes));
+        })
+        .finally(() => {
+          if (layoutTaskRef.current === task) {
+            layoutTaskRef.current = null;
+            setLayoutProgress(null);
+          }
+        });
+    } else {
+      try {
+        // Apply layout algorithm
+        const layoutResult = createLayout(
+          processedData.nodes,
+          processedData.edges,
+          factoryOptions
+        );
+
+        // Set node positions
+        showLayout(layoutResult);
+      } catch (e) {
+        console.error("Error applying layout:", e);
+        
+        // Fallback to a simple grid layout
+        setNodePositions(createFallbackLayout(processedData.nodes));
+      }
     }
 
     // Center the view
@@ -244,7 +453,40 @@ export const Graph: React.FC<GraphProps> = ({
     });
 
     setIsInitialized(true);
-  }, [processedData.nodes, processedData.edges, autoLayout, layoutOptions, viewportSize, isInitialized]);
+  }, [processedData.nodes, processedData.edges, autoLayout, layoutOptions, viewportSize, isInitialized, asyncLayout, packComponents, usePresetPositions]);
+
+  // Keep existing positions and place only new nodes when the data changes
+  useEffect(() => {
+    if (!incrementalLayout || !isInitialized || layoutProgress !== null) return;
+
+    setNodePositions(prev => updateLayoutIncrementally(
+      processedData.nodes,
+      processedData.edges,
+      prev,
+      { nodeSpacing: layoutOptions.nodeSpacing }
+    ));
+  }, [processedData.nodes, processedData.edges, incrementalLayout, isInitialized, layoutProgress, layoutOptions.nodeSpacing]);
+
+  // Separate overlapping nodes once sizes are measured, and again when they change
+  useEffect(() => {
+    if (!overlapRemoval || !isInitialized || layoutProgress !== null) return;
+
+    const options = overlapRemoval === true ? {} : overlapRemoval;
+    setNodePositions(prev => removeOverlaps(prev, nodeSizes, {
+      pinned: Object.keys(resolvePinnedPositions(processedData.nodes, pinnedRef.current, prev)),
+      ...options,
+    }));
+  }, [overlapRemoval, nodeSizes, isInitialized, layoutProgress, processedData.nodes]);
+
+  // Cancel any running layout on unmount
+  useEffect(() => {
+    return () => {
+      if (layoutTaskRef.current) {
+        layoutTaskRef.current.cancel();
+        layoutTaskRef.current = null;
+      }
+    };
+  }, []);
 
   // Node position change handler (for dragging)
   const handleNodePositionChange = useCallback((id: string, position: Position) => {
@@ -260,10 +502,15 @@ export const Graph: React.FC<GraphProps> = ({
       [id]: position
     }));
 
+    // Hold the node in the live simulation so its neighbours follow
+    if (liveSimulation) {
+      pinNode(id, position);
+    }
+
     if (onDrag) {
       onDrag([id], position);
     }
-  }, [draggingEnabled, onDrag, draggingNode]);
+  }, [draggingEnabled, onDrag, draggingNode, liveSimulation, pinNode]);
 
   // Track when node drag ends
   useEffect(() => {
@@ -273,6 +520,7 @@ export const Graph: React.FC<GraphProps> = ({
         // Add a small delay before clearing draggingNode to prevent premature size recalculation
         setTimeout(() => {
           setDraggingNode(null);
+          releaseNode(draggingNode);
         
           if (onDragEnd) {
             onDragEnd([draggingNode]);
@@ -288,7 +536,7 @@ export const Graph: React.FC<GraphProps> = ({
         window.removeEventListener('mouseup', handleMouseUp);
       };
     }
-  }, [draggingNode, onDragEnd]);
+  }, [draggingNode, onDragEnd, releaseNode]);
 
   // Add node size change handler
   const handleNodeSizeChange = useCallback((
@@ -479,9 +727,20 @@ export const Graph: React.FC<GraphProps> = ({
       scale: scale
     });
     
-    // Reset the layout if needed
-    setIsInitialized(false);
-  }, [nodePositions, viewportSize]);
+    // Run the layout again, unless positions are kept across changes
+    if (!incrementalLayout) {
+      setIsInitialized(false);
+    }
+  }, [nodePositions, viewportSize, incrementalLayout]);
+
+  // Pause or resume the live simulation
+  const handleToggleSimulation = useCallback(() => {
+    const paused = !isSimulationPaused;
+    setIsSimulationPaused(paused);
+    if (onSimulationPausedChange) {
+      onSimulationPausedChange(paused);
+    }
+  }, [isSimulationPaused, onSimulationPausedChange]);
 
   // Zoom control handlers
   const handleZoomIn = useCallback(() => {
@@ -498,6 +757,9 @@ export const Graph: React.FC<GraphProps> = ({
     }));
   }, [minZoom]);
 
+  // Nothing sensible to show until the first async layout has finished
+  const isAwaitingFirstLayout = layoutProgress !== null && Object.keys(nodePositions).length === 0;
+
   return (
     <div 
       ref={containerRef}
@@ -525,10 +787,11 @@ export const Graph: React.FC<GraphProps> = ({
         <g 
           ref={transformGroupRef}
           transform={`translate(${transform.x}, ${transform.y}) scale(${transform.scale})`}
+          visibility={isAwaitingFirstLayout ? 'hidden' : undefined}
         >
           <GraphEdges 
             edges={processedData.edges}
-            nodePositions={nodePositions}
+            nodePositions={displayPositions}
             nodeSizeScale={nodeSizeScale}
             selectedNode={selectedNode}
             highlightedPath={highlightedPath}
@@ -536,12 +799,15 @@ export const Graph: React.FC<GraphProps> = ({
             transform={transform}
             onEdgeClick={handleEdgeClick}
             nodeSizes={nodeSizes}
+            routing={typeof edgeRouting === 'string' ? { style: edgeRouting } : edgeRouting}
+            bundling={edgeBundling === true ? bundlingDefaults : edgeBundling || undefined}
+            nodes={processedData.nodes}
           />
           {processedData.nodes.map(node => (
             <NodeRenderer
               key={node.id}
               node={node}
-              position={nodePositions[node.id] || { x: 0, y: 0 }}
+              position={displayPositions[node.id] || { x: 0, y: 0 }}
               sizeScale={nodeSizeScale}
               theme={theme}
               isHighlighted={selectedNode?.id === node.id}
@@ -569,10 +835,28 @@ export const Graph: React.FC<GraphProps> = ({
           ))}
         </g>
       </svg>
+      {layoutProgress !== null && (
+        <LayoutProgress
+          progress={layoutProgress}
+          overlay={isAwaitingFirstLayout}
+          theme={theme}
+        />
+      )}
+      {timeAxis && timeScale && (
+        <TimeAxis
+          timeScale={timeScale}
+          transform={transform}
+          viewportSize={viewportSize}
+          options={timeAxis === true ? undefined : timeAxis}
+          theme={theme}
+        />
+      )}
       <GraphControls
         onZoomIn={handleZoomIn}
         onZoomOut={handleZoomOut}
         onResetView={handleResetView}
+        isSimulationPaused={isSimulationPaused}
+        onToggleSimulation={liveSimulation ? handleToggleSimulation : undefined}
         theme={theme}
       />
     </div>
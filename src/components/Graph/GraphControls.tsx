@@ -7,6 +7,10 @@ export interface GraphControlsProps {
   onZoomOut: () => void;
   /** Callback to reset the view */
   onResetView: () => void;
+  /** Whether the live simulation is paused */
+  isSimulationPaused?: boolean;
+  /** Callback to pause or resume the live simulation (the button is hidden when not set) */
+  onToggleSimulation?: () => void;
   /** Visual theme */
   theme: 'light' | 'dark';
 }
@@ -18,6 +22,8 @@ export const GraphControls: React.FC<GraphControlsProps> = ({
   onZoomIn,
   onZoomOut,
   onResetView,
+  isSimulationPaused = false,
+  onToggleSimulation,
   theme
 }) => {
   const isDark = theme === 'dark';
@@ -91,6 +97,27 @@ export const GraphControls: React.FC<GraphControlsProps> = ({
           <path d="M20.49 9A9 9 0 0 0 5.64 5.64L1 10m22 4l-4.64 4.36A9 9 0 0 1 3.51 15" />
         </svg>
       </button>
+
+      {onToggleSimulation && (
+        <button
+          style={buttonStyle}
+          onClick={onToggleSimulation}
+          title={isSimulationPaused ? 'Resume Simulation' : 'Pause Simulation'}
+          aria-label={isSimulationPaused ? 'Resume Simulation' : 'Pause Simulation'}
+          aria-pressed={isSimulationPaused}
+        >
+          {isSimulationPaused ? (
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <polygon points="6 4 20 12 6 20 6 4" />
+            </svg>
+          ) : (
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <line x1="9" y1="5" x2="9" y2="19" />
+              <line x1="15" y1="5" x2="15" y2="19" />
+            </svg>
+          )}
+        </button>
+      )}
     </div>
   );
 }; 
\ No newline at end of file
@@ -0,0 +1,76 @@
+import React from 'react';
+
+export interface LayoutProgressProps {
+  /** Layout progress between 0 and 1 */
+  progress: number;
+  /** Whether to cover the graph (no previous positions to show) */
+  overlay?: boolean;
+  /** Visual theme */
+  theme: 'light' | 'dark';
+}
+
+/**
+ * Component that shows the progress of a layout running in the background
+ */
+export const LayoutProgress: React.FC<LayoutProgressProps> = ({
+  progress,
+  overlay = false,
+  theme
+}) => {
+  const isDark = theme === 'dark';
+  const percent = Math.round(Math.max(0, Math.min(1, progress)) * 100);
+
+  // Either cover the whole graph or sit unobtrusively in the top-left corner
+  const containerStyle: React.CSSProperties = overlay
+    ? {
+        position: 'absolute',
+        inset: 0,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        pointerEvents: 'none',
+      }
+    : {
+        position: 'absolute',
+        top: '16px',
+        left: '16px',
+        pointerEvents: 'none',
+      };
+
+  const panelStyle: React.CSSProperties = {
+    minWidth: '160px',
+    padding: '8px 12px',
+    borderRadius: '8px',
+    fontSize: '12px',
+    color: isDark ? '#e2e8f0' : '#334155',
+    backgroundColor: isDark ? 'rgba(30, 41, 59, 0.8)' : 'rgba(255, 255, 255, 0.8)',
+    boxShadow: isDark ? '0 4px 6px rgba(0, 0, 0, 0.3)' : '0 4px 6px rgba(0, 0, 0, 0.1)',
+    backdropFilter: 'blur(4px)',
+  };
+
+  const trackStyle: React.CSSProperties = {
+    height: '4px',
+    marginTop: '6px',
+    borderRadius: '2px',
+    overflow: 'hidden',
+    backgroundColor: isDark ? 'rgba(51, 65, 85, 0.8)' : 'rgba(226, 232, 240, 0.8)',
+  };
+
+  const barStyle: React.CSSProperties = {
+    width: `${percent}%`,
+    height: '100%',
+    backgroundColor: '#3b82f6',
+    transition: 'width 0.1s',
+  };
+
+  return (
+    <div style={containerStyle} role="status" aria-live="polite">
+      <div style={panelStyle}>
+        <span>Calculating layout… {percent}%</span>
+        <div style={trackStyle}>
+          <div style={barStyle} />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,185 @@
+import React from 'react';
+import { TimeScale } from '../../layouts/timeline';
+
+export interface TimeAxisOptions {
+  /** Whether tick values are dates or plain numbers (detected from the data if not set) */
+  type?: 'date' | 'number';
+  /** Custom formatting of tick labels */
+  formatTime?: (time: number) => string;
+  /** Minimum distance between ticks in pixels */
+  tickSpacing?: number;
+}
+
+export interface TimeAxisProps {
+  /** Mapping from time to graph coordinates */
+  timeScale: TimeScale;
+  /** Current pan and zoom of the graph */
+  transform: { x: number; y: number; scale: number };
+  /** Size of the graph viewport in pixels */
+  viewportSize: { width: number; height: number };
+  /** Ruler options */
+  options?: TimeAxisOptions;
+  /** Visual theme */
+  theme: 'light' | 'dark';
+}
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Tick intervals for dates shorter than a month, in milliseconds
+const DATE_STEPS = [
+  SECOND, 5 * SECOND, 15 * SECOND, 30 * SECOND,
+  MINUTE, 5 * MINUTE, 15 * MINUTE, 30 * MINUTE,
+  HOUR, 3 * HOUR, 6 * HOUR, 12 * HOUR,
+  DAY, 2 * DAY, 7 * DAY, 14 * DAY,
+];
+
+// Tick intervals in months, used once days get too dense
+const MONTH_STEPS = [1, 3, 6, 12];
+
+// Breadth of the ruler in pixels
+const RULER_SIZE = 28;
+
+/**
+ * Ticks for a date range, aligned to calendar units in UTC
+ */
+function getDateTicks(start: number, end: number, minStep: number): { time: number; label: string }[] {
+  const fixedStep = DATE_STEPS.find(step => step >= minStep);
+  if (fixedStep !== undefined) {
+    const format = fixedStep >= DAY
+      ? (time: number) => new Date(time).toISOString().slice(0, 10)
+      : fixedStep >= MINUTE
+        ? (time: number) => new Date(time).toISOString().slice(11, 16)
+        : (time: number) => new Date(time).toISOString().slice(11, 19);
+
+    const ticks = [];
+    for (let time = Math.ceil(start / fixedStep) * fixedStep; time <= end; time += fixedStep) {
+      ticks.push({ time, label: format(time) });
+    }
+    return ticks;
+  }
+
+  // Months and years have uneven lengths, so step through the calendar
+  const averageMonth = 30.44 * DAY;
+  let months = MONTH_STEPS.find(step => step * averageMonth >= minStep);
+  if (months === undefined) {
+    months = 12 * niceStep(minStep / (12 * averageMonth));
+  }
+
+  const first = new Date(start);
+  let year = first.getUTCFullYear();
+  let month = Math.floor(first.getUTCMonth() / months) * months;
+  if (months > 12) {
+    year = Math.floor(year / (months / 12)) * (months / 12);
+    month = 0;
+  }
+
+  const ticks = [];
+  for (let time = Date.UTC(year, month, 1); time <= end; time = Date.UTC(year, month, 1)) {
+    if (time >= start) {
+      const iso = new Date(time).toISOString();
+      ticks.push({ time, label: months >= 12 ? iso.slice(0, 4) : iso.slice(0, 7) });
+    }
+    month += months;
+  }
+  return ticks;
+}
+
+/**
+ * Smallest 1, 2 or 5 times a power of ten that is at least `value`
+ */
+function niceStep(value: number): number {
+  const power = Math.pow(10, Math.floor(Math.log10(value)));
+  const fraction = value / power;
+  if (fraction <= 1) return power;
+  if (fraction <= 2) return 2 * power;
+  if (fraction <= 5) return 5 * power;
+  return 10 * power;
+}
+
+/**
+ * Ticks for a plain numeric range
+ */
+function getNumberTicks(start: number, end: number, minStep: number): { time: number; label: string }[] {
+  const step = niceStep(minStep);
+  const decimals = Math.max(0, -Math.floor(Math.log10(step)));
+
+  const ticks = [];
+  for (let index = Math.ceil(start / step); index * step <= end; index++) {
+    const time = index * step;
+    ticks.push({ time, label: time.toFixed(decimals) });
+  }
+  return ticks;
+}
+
+/**
+ * Component that draws a time ruler along the edge of a timeline graph
+ * Ticks are recomputed from the current pan and zoom so the ruler stays aligned with the nodes
+ */
+export const TimeAxis: React.FC<TimeAxisProps> = ({
+  timeScale,
+  transform,
+  viewportSize,
+  options = {},
+  theme
+}) => {
+  const { type, formatTime, tickSpacing = 100 } = options;
+  const isDark = theme === 'dark';
+  const horizontal = timeScale.orientation === 'horizontal';
+
+  // Screen coordinate of a time, and time at a screen coordinate
+  const pixelsPerUnit = timeScale.scale * transform.scale;
+  const screenOrigin = timeScale.offset * transform.scale + (horizontal ? transform.x : transform.y);
+  const toScreen = (time: number) => time * pixelsPerUnit + screenOrigin;
+  const toTime = (pixel: number) => (pixel - screenOrigin) / pixelsPerUnit;
+
+  const length = horizontal ? viewportSize.width : viewportSize.height;
+  const startTime = Math.min(toTime(0), toTime(length));
+  const endTime = Math.max(toTime(0), toTime(length));
+  const minStep = tickSpacing / Math.abs(pixelsPerUnit);
+
+  const isDate = type ? type === 'date' : timeScale.isDate;
+  const ticks = !Number.isFinite(minStep) || minStep <= 0
+    ? []
+    : isDate
+      ? getDateTicks(startTime, endTime, minStep)
+      : getNumberTicks(startTime, endTime, minStep);
+
+  const containerStyle: React.CSSProperties = {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    width: horizontal ? '100%' : `${RULER_SIZE * 2.5}px`,
+    height: horizontal ? `${RULER_SIZE}px` : '100%',
+    pointerEvents: 'none',
+    backgroundColor: isDark ? 'rgba(30, 41, 59, 0.8)' : 'rgba(255, 255, 255, 0.8)',
+    borderBottom: horizontal ? `1px solid ${isDark ? '#475569' : '#cbd5e1'}` : undefined,
+    borderRight: horizontal ? undefined : `1px solid ${isDark ? '#475569' : '#cbd5e1'}`,
+  };
+
+  const color = isDark ? '#e2e8f0' : '#334155';
+
+  return (
+    <div style={containerStyle} aria-hidden="true">
+      <svg width="100%" height="100%" style={{ display: 'block', overflow: 'hidden' }}>
+        {ticks.map(({ time, label }) => {
+          const position = toScreen(time);
+          const text = formatTime ? formatTime(time) : label;
+          return horizontal ? (
+            <g key={time}>
+              <line x1={position} x2={position} y1={RULER_SIZE - 6} y2={RULER_SIZE} stroke={color} />
+              <text x={position + 3} y={RULER_SIZE - 10} fontSize={11} fill={color}>{text}</text>
+            </g>
+          ) : (
+            <g key={time}>
+              <line x1={RULER_SIZE * 2.5 - 6} x2={RULER_SIZE * 2.5} y1={position} y2={position} stroke={color} />
+              <text x={4} y={position - 3} fontSize={11} fill={color}>{text}</text>
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+};
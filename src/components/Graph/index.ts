@@ -1,3 +1,5 @@
 // Export graph components
 export * from './GraphDefs';
-export * from './GraphControls'; 
\ No newline at end of file
+export * from './GraphControls'; 
+export * from './LayoutProgress';
+export * from './TimeAxis';
@@ -1,5 +1,8 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { Edge, Node } from '../../types/graph';
+import { EdgeRoutingOptions } from '../../layouts/routing';
+import { bundleEdges, EdgeBundlingOptions } from '../../layouts/bundling';
+import { useEdgeRoutes } from '../../hooks/useEdgeRoutes';
 
 export interface GraphEdgesProps {
   /** All edges in the graph */
@@ -23,6 +26,12 @@ export interface GraphEdgesProps {
   onEdgeClick: (edge: Edge) => void;
   /** Record of node sizes (width, height) keyed by node ID */
   nodeSizes?: Record<string, { width: number; height: number }>;
+  /** Route edges around node boxes instead of drawing straight lines */
+  routing?: EdgeRoutingOptions;
+  /** Draw edges as curves bundled by node group (takes precedence over routing) */
+  bundling?: EdgeBundlingOptions;
+  /** All nodes in the graph, used to group nodes when bundling */
+  nodes?: Node[];
 }
 
 /**
@@ -37,12 +46,51 @@ export const GraphEdges: React.FC<GraphEdgesProps> = ({
   theme,
   transform,
   onEdgeClick,
-  nodeSizes = {}
+  nodeSizes = {},
+  routing,
+  bundling,
+  nodes = []
 }) => {
   const [hoveredEdge, setHoveredEdge] = useState<string | null>(null);
   
   // Default node size if not provided
   const defaultNodeSize = 120 * nodeSizeScale;
+
+  // Routes around node boxes, cached between renders
+  const routes = useEdgeRoutes(
+    edges,
+    nodePositions,
+    nodeSizes,
+    routing && routing.style !== 'straight'
+      ? { ...routing, defaultSize: routing.defaultSize || { width: defaultNodeSize, height: defaultNodeSize } }
+      : null
+  );
+
+  // Bundled curves replace routes when bundling is enabled
+  const bundles = useMemo(
+    () => (bundling
+      ? bundleEdges(nodes, edges, nodePositions, nodeSizes, {
+          ...bundling,
+          defaultSize: bundling.defaultSize || { width: defaultNodeSize, height: defaultNodeSize }
+        })
+      : null),
+    [bundling, nodes, edges, nodePositions, nodeSizes, defaultNodeSize]
+  );
+  const curves = bundles || routes;
+
+  // Draw the edges of the selection last so bundles cannot hide them
+  const orderedEdges = useMemo(() => {
+    if (!selectedNode && highlightedPath.edges.size === 0) return edges;
+    const isEmphasized = (edge: Edge) =>
+      highlightedPath.edges.has(`${edge.source}-${edge.target}`)
+      || selectedNode?.id === edge.source
+      || selectedNode?.id === edge.target;
+    return [
+      ...edges.filter(edge => !isEmphasized(edge)),
+      ...edges.filter(isEmphasized),
+    ];
+  }, [edges, selectedNode, highlightedPath]);
+
   const defaultColor = theme === 'dark' ? '#4b5563' : '#a0aec0';
   const highlightedColor = '#22c55e';
   const selectedColor = '#3b82f6';
@@ -50,7 +98,7 @@ export const GraphEdges: React.FC<GraphEdgesProps> = ({
   
   return (
     <g className="graph-edges">
-      {edges.map(edge => {
+      {orderedEdges.map(edge => {
         const sourcePos = nodePositions[edge.source];
         const targetPos = nodePositions[edge.target];
         
@@ -76,6 +124,50 @@ export const GraphEdges: React.FC<GraphEdgesProps> = ({
           strokeWidth = 1.8 / transform.scale;
         }
         
+        // Bundled edges fade into the background, more so while something is selected
+        const isEmphasized = isHovered || isPathHighlighted || isSelected;
+        const opacity = bundles && !isEmphasized
+          ? (selectedNode || highlightedPath.edges.size > 0 ? 0.15 : 0.5)
+          : 1;
+        
+        // Draw routed and bundled edges along their curve
+        const route = curves?.[edge.id];
+        if (route && route.points.length >= 2) {
+          // Point the arrow along the last segment of the route
+          const [from, to] = route.points.slice(-2);
+          const arrowSize = 6 / transform.scale;
+          const arrowAngle = Math.atan2(to.y - from.y, to.x - from.x);
+          const arrowX1 = to.x - arrowSize * Math.cos(arrowAngle - Math.PI / 7);
+          const arrowY1 = to.y - arrowSize * Math.sin(arrowAngle - Math.PI / 7);
+          const arrowX2 = to.x - arrowSize * Math.cos(arrowAngle + Math.PI / 7);
+          const arrowY2 = to.y - arrowSize * Math.sin(arrowAngle + Math.PI / 7);
+          
+          return (
+            <g 
+              key={edgeId}
+              onMouseEnter={() => setHoveredEdge(edgeId)}
+              onMouseLeave={() => setHoveredEdge(null)}
+              onClick={() => onEdgeClick(edge)}
+              cursor="pointer"
+            >
+              <path
+                d={route.path}
+                fill="none"
+                stroke={color}
+                strokeWidth={strokeWidth}
+                strokeOpacity={opacity}
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              />
+              <polygon
+                points={`${to.x},${to.y} ${arrowX1},${arrowY1} ${arrowX2},${arrowY2}`}
+                fill={color}
+                fillOpacity={opacity}
+              />
+            </g>
+          );
+        }
+        
         // Calculate edge path with adjustments for node size
         const dx = targetPos.x - sourcePos.x;
         const dy = targetPos.y - sourcePos.y;
@@ -0,0 +1,86 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useAnimatedPositions } from './useAnimatedPositions';
+import { Position } from '../types/graph';
+
+interface Props {
+  positions: Record<string, Position>;
+  instant?: boolean;
+}
+
+const start = { a: { x: 0, y: 0 } };
+const target = { a: { x: 160, y: 0 } };
+
+/**
+ * Render the hook with a linear transition of 160ms, ten animation frames
+ */
+function renderAnimation() {
+  return renderHook(
+    ({ positions, instant = false }: Props) =>
+      useAnimatedPositions(positions, true, instant, { duration: 160, easing: 'linear' }),
+    { initialProps: { positions: start } as Props }
+  );
+}
+
+// Run animation frames
+const frames = (count: number) => act(() => {
+  vi.advanceTimersByTime(16 * count);
+});
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['requestAnimationFrame', 'cancelAnimationFrame'] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('useAnimatedPositions', () => {
+  it('eases from the old positions to the new ones', () => {
+    const { result, rerender } = renderAnimation();
+    expect(result.current).toEqual(start);
+
+    rerender({ positions: target });
+    // The first frame marks the start of the transition
+    frames(1);
+    expect(result.current).toEqual(start);
+
+    frames(5);
+    expect(result.current.a.x).toBeCloseTo(80);
+
+    frames(5);
+    expect(result.current).toBe(target);
+  });
+
+  it('starts an interrupting transition from the positions on screen', () => {
+    const { result, rerender } = renderAnimation();
+    rerender({ positions: target });
+    frames(6);
+    const midway = result.current.a.x;
+
+    const next = { a: { x: midway, y: 160 } };
+    rerender({ positions: next });
+    frames(1);
+
+    // No jump back to the start or on to the old target
+    expect(result.current.a).toEqual({ x: midway, y: 0 });
+
+    frames(10);
+    expect(result.current).toBe(next);
+  });
+
+  it('shows positions right away while instant, e.g. during a drag', () => {
+    const { result, rerender } = renderAnimation();
+    rerender({ positions: target });
+    frames(3);
+
+    const dragged = { a: { x: 500, y: 500 } };
+    rerender({ positions: dragged, instant: true });
+    expect(result.current).toBe(dragged);
+
+    // The cancelled transition does not overwrite the dragged position
+    frames(20);
+    expect(result.current).toBe(dragged);
+  });
+});
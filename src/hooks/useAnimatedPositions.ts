@@ -0,0 +1,72 @@
+import { useState, useRef, useEffect } from 'react';
+import { Position } from '../types/graph';
+import { getEasing, interpolatePositions, LayoutTransitionOptions } from '../utils/animation';
+
+/**
+ * Custom hook that animates between successive sets of node positions.
+ * A change arriving mid-transition starts a new transition from the positions
+ * currently on screen. When `instant` is set (e.g. while dragging) the target
+ * positions are shown immediately.
+ */
+export function useAnimatedPositions(
+  positions: Record<string, Position>,
+  enabled: boolean,
+  instant: boolean,
+  options: LayoutTransitionOptions = {}
+): Record<string, Position> {
+  const { duration = 500, easing } = options;
+
+  const [displayPositions, setDisplayPositions] = useState(positions);
+  const displayRef = useRef(positions);
+  const frameRef = useRef<number | null>(null);
+
+  // Custom easing functions are usually passed inline, so keep the latest in a ref
+  const easingRef = useRef(easing);
+  easingRef.current = easing;
+
+  const shouldAnimate = enabled && !instant && duration > 0;
+
+  useEffect(() => {
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    }
+
+    if (!shouldAnimate) {
+      displayRef.current = positions;
+      setDisplayPositions(positions);
+      return;
+    }
+
+    const from = displayRef.current;
+    if (from === positions) return;
+
+    const ease = getEasing(easingRef.current);
+    let startTime: number | null = null;
+
+    const step = (time: number) => {
+      if (startTime === null) startTime = time;
+      const progress = Math.min(1, (time - startTime) / duration);
+
+      const next = progress < 1
+        ? interpolatePositions(from, positions, ease(progress))
+        : positions;
+      displayRef.current = next;
+      setDisplayPositions(next);
+
+      frameRef.current = progress < 1 ? requestAnimationFrame(step) : null;
+    };
+
+    frameRef.current = requestAnimationFrame(step);
+
+    return () => {
+      if (frameRef.current !== null) {
+        cancelAnimationFrame(frameRef.current);
+        frameRef.current = null;
+      }
+    };
+  }, [positions, shouldAnimate, duration]);
+
+  // Show target positions right away when not animating, avoiding a frame of lag
+  return shouldAnimate ? displayPositions : positions;
+}
@@ -0,0 +1,48 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Edge, Position } from '../types/graph';
+import { createEdgeRouter, EdgeRoute, EdgeRoutingOptions } from '../layouts/routing';
+import { NodeSize } from '../layouts/overlap';
+
+// Time positions must stay unchanged before edges are routed again
+const SETTLE_DELAY = 100;
+
+/**
+ * Custom hook that routes edges around node boxes.
+ * The router is kept across renders so only routes affected by moved nodes
+ * are recomputed. While positions keep changing (layout transitions, live
+ * simulation, dragging) no routes are returned, so edges are drawn straight,
+ * and routing resumes once positions settle. Returns null when routing is
+ * disabled.
+ */
+export function useEdgeRoutes(
+  edges: Edge[],
+  positions: Record<string, Position>,
+  nodeSizes: Record<string, NodeSize>,
+  options: EdgeRoutingOptions | null
+): Record<string, EdgeRoute> | null {
+  // Options are usually passed inline, so compare them by value
+  const optionsKey = options ? JSON.stringify(options) : null;
+
+  const router = useMemo(
+    () => (optionsKey ? createEdgeRouter(JSON.parse(optionsKey) as EdgeRoutingOptions) : null),
+    [optionsKey]
+  );
+
+  // Positions that have not changed for SETTLE_DELAY
+  const [settledPositions, setSettledPositions] = useState<Record<string, Position> | null>(null);
+
+  useEffect(() => {
+    if (!router) return;
+
+    const timer = setTimeout(() => setSettledPositions(positions), SETTLE_DELAY);
+    return () => clearTimeout(timer);
+  }, [router, positions]);
+
+  const routes = useMemo(
+    () => (router && settledPositions ? router.route(edges, settledPositions, nodeSizes) : null),
+    [router, edges, settledPositions, nodeSizes]
+  );
+
+  // Routes of earlier positions would no longer meet the nodes
+  return settledPositions === positions ? routes : null;
+}
@@ -0,0 +1,110 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useForceSimulation } from './useForceSimulation';
+import { Node, Edge, Position } from '../types/graph';
+
+const nodes: Node[] = [{ id: 'a' }, { id: 'b' }];
+const edges: Edge[] = [{ id: 'e1', source: 'a', target: 'b' }];
+const start: Record<string, Position> = { a: { x: -100, y: 0 }, b: { x: 100, y: 0 } };
+
+interface Props {
+  paused: boolean;
+  positions: Record<string, Position>;
+}
+
+/**
+ * Render the hook with positions fed back the way Graph does it
+ */
+function renderSimulation(paused = false) {
+  const setPositions = vi.fn();
+  const hook = renderHook(
+    ({ paused, positions }: Props) => useForceSimulation(true, paused, nodes, edges, positions, setPositions),
+    { initialProps: { paused, positions: start } }
+  );
+  return { ...hook, setPositions };
+}
+
+const latest = (setPositions: ReturnType<typeof vi.fn>): Record<string, Position> =>
+  setPositions.mock.calls[setPositions.mock.calls.length - 1][0];
+
+// Run animation frames
+const frames = (count: number) => act(() => {
+  vi.advanceTimersByTime(16 * count);
+});
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['requestAnimationFrame', 'cancelAnimationFrame', 'setTimeout', 'clearTimeout'] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('useForceSimulation', () => {
+  it('ticks on animation frames until the simulation comes to rest', () => {
+    const { result, setPositions } = renderSimulation();
+
+    expect(result.current.isRunning).toBe(true);
+    frames(3);
+    expect(setPositions).toHaveBeenCalledTimes(3);
+
+    frames(2000);
+    expect(result.current.isRunning).toBe(false);
+  });
+
+  it('stops ticking while paused and resumes afterwards', () => {
+    const { result, rerender, setPositions } = renderSimulation();
+    frames(2);
+
+    rerender({ paused: true, positions: latest(setPositions) });
+    const calls = setPositions.mock.calls.length;
+    frames(10);
+
+    expect(setPositions).toHaveBeenCalledTimes(calls);
+    expect(result.current.isRunning).toBe(false);
+
+    rerender({ paused: false, positions: latest(setPositions) });
+    frames(1);
+    expect(setPositions.mock.calls.length).toBeGreaterThan(calls);
+  });
+
+  it('resumes from a node dragged and released while paused', () => {
+    const { result, rerender, setPositions } = renderSimulation(true);
+    const dropped = { x: 600, y: 400 };
+
+    act(() => result.current.pinNode('a', dropped));
+    rerender({ paused: true, positions: { ...start, a: dropped } });
+    act(() => result.current.releaseNode('a'));
+    frames(5);
+    expect(setPositions).not.toHaveBeenCalled();
+
+    rerender({ paused: false, positions: { ...start, a: dropped } });
+    frames(1);
+
+    // One tick moves a node by at most 50, so it did not jump back to where the simulation had it
+    const { a } = latest(setPositions);
+    expect(Math.hypot(a.x - dropped.x, a.y - dropped.y)).toBeLessThanOrEqual(50);
+  });
+
+  it('keeps a node held during a pause on its pin after resuming', () => {
+    const { result, rerender, setPositions } = renderSimulation(true);
+    const held = { x: -400, y: 300 };
+
+    act(() => result.current.pinNode('a', held));
+    rerender({ paused: false, positions: { ...start, a: held } });
+    frames(20);
+
+    expect(latest(setPositions).a).toEqual(held);
+    expect(result.current.isRunning).toBe(true);
+  });
+
+  it('holds pinned and fixed nodes in place', () => {
+    const fixedNodes: Node[] = [{ id: 'a' }, { id: 'b', data: { fixed: true, x: 300, y: 50 } }];
+    const setPositions = vi.fn();
+    renderHook(() => useForceSimulation(true, false, fixedNodes, edges, start, setPositions, {}, ['a']));
+    frames(20);
+
+    expect(latest(setPositions)).toEqual({ a: start.a, b: { x: 300, y: 50 } });
+  });
+});
@@ -0,0 +1,127 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { Node, Edge, Position } from '../types/graph';
+import { createForceSimulation, ForceSimulation, ForceSimulationOptions } from '../layouts/simulation';
+import { resolvePinnedPositions } from '../layouts/constraints';
+
+/**
+ * Custom hook that keeps a force simulation ticking with requestAnimationFrame.
+ * The simulation restarts from the current positions whenever the graph changes,
+ * and dragged nodes are pinned until they are released. Nodes with `data.fixed`
+ * and the `pinned` nodes are held where they are.
+ */
+export function useForceSimulation(
+  enabled: boolean,
+  paused: boolean,
+  nodes: Node[],
+  edges: Edge[],
+  positions: Record<string, Position>,
+  setPositions: (positions: Record<string, Position>) => void,
+  options: ForceSimulationOptions = {},
+  pinned?: string[] | Set<string>
+) {
+  const [isRunning, setIsRunning] = useState(false);
+  const simulationRef = useRef<ForceSimulation | null>(null);
+  const frameRef = useRef<number | null>(null);
+
+  // Read through refs so the loop always sees the latest values
+  const positionsRef = useRef(positions);
+  positionsRef.current = positions;
+  const pausedRef = useRef(paused);
+  pausedRef.current = paused;
+  const setPositionsRef = useRef(setPositions);
+  setPositionsRef.current = setPositions;
+
+  // Options are usually passed inline, so compare them by value
+  const optionsKey = JSON.stringify(options);
+  const pinnedKey = JSON.stringify(Array.from(pinned || []).sort());
+
+  const stopLoop = useCallback(() => {
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    }
+    setIsRunning(false);
+  }, []);
+
+  const startLoop = useCallback(() => {
+    if (frameRef.current !== null || pausedRef.current || !simulationRef.current) return;
+
+    const step = () => {
+      const simulation = simulationRef.current;
+      if (!simulation || pausedRef.current) {
+        frameRef.current = null;
+        setIsRunning(false);
+        return;
+      }
+
+      const active = simulation.tick();
+      setPositionsRef.current(simulation.getPositions());
+
+      if (active) {
+        frameRef.current = requestAnimationFrame(step);
+      } else {
+        frameRef.current = null;
+        setIsRunning(false);
+      }
+    };
+
+    setIsRunning(true);
+    frameRef.current = requestAnimationFrame(step);
+  }, []);
+
+  // Rebuild the simulation from the current positions when the graph changes
+  useEffect(() => {
+    if (!enabled) {
+      simulationRef.current = null;
+      stopLoop();
+      return;
+    }
+
+    simulationRef.current = createForceSimulation(nodes, edges, positionsRef.current, {
+      ...JSON.parse(optionsKey) as ForceSimulationOptions,
+      pins: resolvePinnedPositions(nodes, JSON.parse(pinnedKey) as string[], positionsRef.current),
+    });
+    startLoop();
+
+    return () => {
+      simulationRef.current = null;
+      stopLoop();
+    };
+  }, [enabled, nodes, edges, optionsKey, pinnedKey, startLoop, stopLoop]);
+
+  // Pause and resume; nodes may have been moved while paused, so resume from where they are shown
+  useEffect(() => {
+    if (paused) {
+      stopLoop();
+    } else if (simulationRef.current) {
+      simulationRef.current.setPositions(positionsRef.current);
+      simulationRef.current.reheat();
+      startLoop();
+    }
+  }, [paused, startLoop, stopLoop]);
+
+  // Pin a dragged node and reheat so its neighbours follow; while paused the
+  // node is only held, and the loop starts again on resume
+  const pinNode = useCallback((id: string, position: Position) => {
+    const simulation = simulationRef.current;
+    if (!simulation) return;
+
+    simulation.pin(id, position);
+    startLoop();
+  }, [startLoop]);
+
+  // Release a node and let the simulation settle
+  const releaseNode = useCallback((id: string) => {
+    const simulation = simulationRef.current;
+    if (!simulation) return;
+
+    simulation.unpin(id);
+    startLoop();
+  }, [startLoop]);
+
+  return {
+    isRunning,
+    pinNode,
+    releaseNode,
+  };
+}
@@ -0,0 +1,193 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createLayoutAsync, isLayoutCancelled } from './async';
+import { createLayout } from './factory';
+import { layouts, registerLayout } from './registry';
+import { Node, Edge } from '../types/graph';
+
+const nodes: Node[] = ['a', 'b', 'c', 'd'].map(id => ({ id }));
+const edges: Edge[] = [
+  { id: 'e1', source: 'a', target: 'b' },
+  { id: 'e2', source: 'b', target: 'c' },
+  { id: 'e3', source: 'c', target: 'd' },
+];
+const options = { type: 'grid' as const, width: 800, height: 600 };
+
+/**
+ * Worker stand-in that records messages and never answers on its own
+ */
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  messages: unknown[] = [];
+  terminated = false;
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(message: unknown) {
+    this.messages.push(message);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  FakeWorker.instances = [];
+  delete layouts.custom;
+});
+
+describe('createLayoutAsync', () => {
+  it('falls back to the main thread when Worker is missing', async () => {
+    vi.stubGlobal('Worker', undefined);
+    const onProgress = vi.fn();
+
+    const task = createLayoutAsync(nodes, edges, { ...options, onProgress });
+    const positions = await task.promise;
+
+    expect(positions).toEqual(createLayout(nodes, edges, options));
+    expect(onProgress).toHaveBeenLastCalledWith(1);
+  });
+
+  it('falls back to the main thread when the worker cannot be created', async () => {
+    vi.stubGlobal('Worker', class {
+      constructor() {
+        throw new Error('Workers are disabled');
+      }
+    });
+
+    const positions = await createLayoutAsync(nodes, edges, options).promise;
+
+    expect(positions).toEqual(createLayout(nodes, edges, options));
+  });
+
+  it('runs on the main thread when useWorker is false', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+
+    const positions = await createLayoutAsync(nodes, edges, { ...options, useWorker: false }).promise;
+
+    expect(FakeWorker.instances).toHaveLength(0);
+    expect(positions).toEqual(createLayout(nodes, edges, options));
+  });
+
+  it('resolves with the positions sent by the worker', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    const onProgress = vi.fn();
+
+    const task = createLayoutAsync(nodes, edges, { ...options, onProgress });
+    const worker = FakeWorker.instances[0];
+    worker.onmessage!({ data: { type: 'progress', progress: 0.5 } });
+    worker.onmessage!({ data: { type: 'result', positions: { a: { x: 1, y: 2 } } } });
+
+    await expect(task.promise).resolves.toEqual({ a: { x: 1, y: 2 } });
+    expect(onProgress.mock.calls).toEqual([[0.5], [1]]);
+    expect(worker.terminated).toBe(true);
+  });
+
+  it('cancels a worker layout cleanly', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    const onProgress = vi.fn();
+
+    const task = createLayoutAsync(nodes, edges, { ...options, onProgress });
+    const worker = FakeWorker.instances[0];
+    task.cancel();
+
+    // Late messages from the terminated worker are ignored
+    worker.onmessage!({ data: { type: 'progress', progress: 0.5 } });
+    worker.onmessage!({ data: { type: 'result', positions: {} } });
+
+    const error = await task.promise.catch(e => e);
+    expect(isLayoutCancelled(error)).toBe(true);
+    expect(worker.terminated).toBe(true);
+    expect(onProgress).not.toHaveBeenCalled();
+  });
+
+  it('cancels a main-thread layout before it runs', async () => {
+    vi.stubGlobal('Worker', undefined);
+    vi.useFakeTimers();
+    const onProgress = vi.fn();
+
+    try {
+      const task = createLayoutAsync(nodes, edges, { ...options, onProgress });
+      task.cancel();
+      task.cancel();
+      vi.runAllTimers();
+
+      const error = await task.promise.catch(e => e);
+      expect(isLayoutCancelled(error)).toBe(true);
+      expect(onProgress).not.toHaveBeenCalled();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('rejects with the error reported by the worker', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+
+    const task = createLayoutAsync(nodes, edges, options);
+    FakeWorker.instances[0].onmessage!({ data: { type: 'error', message: 'Layout failed' } });
+
+    const error = await task.promise.catch(e => e);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.message).toBe('Layout failed');
+    expect(isLayoutCancelled(error)).toBe(false);
+  });
+
+  it('runs on the main thread when a nested layout is not built in', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    const custom = vi.fn(() => ({ a: { x: 0, y: 0 } }));
+    registerLayout('custom', custom);
+
+    const nestedOptions = [
+      { type: 'preset' as const, width: 800, height: 600, layoutOptions: { layout: 'custom' } },
+      { type: 'grouped' as const, width: 800, height: 600, layoutOptions: { innerLayout: 'custom' } },
+      { type: 'grouped' as const, width: 800, height: 600, layoutOptions: { outerLayout: 'custom' } },
+      { type: 'auto' as const, width: 800, height: 600, layoutOptions: { candidates: ['grid', 'custom'] } },
+      {
+        type: 'auto' as const,
+        width: 800,
+        height: 600,
+        layoutOptions: { candidates: ['preset'], candidateOptions: { preset: { layout: 'custom' } } },
+      },
+    ];
+
+    for (const layoutOptions of nestedOptions) {
+      await createLayoutAsync(nodes, edges, layoutOptions).promise;
+    }
+
+    expect(FakeWorker.instances).toHaveLength(0);
+    expect(custom).toHaveBeenCalled();
+  });
+
+  it('runs on the main thread when a default nested layout is overridden', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    const originalForce = layouts.force;
+    registerLayout<string>('force', () => ({}));
+
+    try {
+      await createLayoutAsync(nodes, edges, { type: 'grouped', width: 800, height: 600 }).promise;
+      await createLayoutAsync(nodes, edges, { type: 'auto', width: 800, height: 600 }).promise;
+    } finally {
+      registerLayout<string>('force', originalForce);
+    }
+
+    expect(FakeWorker.instances).toHaveLength(0);
+  });
+
+  it('uses the worker when every nested layout is built in', () => {
+    vi.stubGlobal('Worker', FakeWorker);
+
+    createLayoutAsync(nodes, edges, {
+      type: 'preset',
+      width: 800,
+      height: 600,
+      layoutOptions: { layout: 'grouped', layoutOptions: { innerLayout: 'grid', outerLayout: 'circular' } },
+    });
+
+    expect(FakeWorker.instances).toHaveLength(1);
+  });
+});
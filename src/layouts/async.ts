@@ -0,0 +1,188 @@
+/**
+ * Asynchronous layout API that runs layout algorithms in a Web Worker
+ * with progress reporting and cancellation
+ */
+import { Node, Edge, Position } from '../types/graph';
+import { createLayout, LayoutFactoryOptions } from './factory';
+import { isBuiltInLayout, LayoutType, LayoutOptions } from './registry';
+import type { PresetLayoutOptions } from './preset';
+import type { GroupedLayoutOptions } from './grouped';
+import { DEFAULT_AUTO_CANDIDATES, AutoLayoutOptions } from './auto';
+import type { LayoutWorkerRequest, LayoutWorkerResponse } from './layout.worker';
+
+/**
+ * Options for running a layout asynchronously
+ */
+export interface AsyncLayoutOptions extends LayoutFactoryOptions {
+  /** Callback receiving the layout progress (0 to 1) */
+  onProgress?: (progress: number) => void;
+  /** Whether to run the layout in a Web Worker when available */
+  useWorker?: boolean;
+}
+
+/**
+ * Handle to a running layout
+ */
+export interface LayoutTask {
+  /** Resolves with the node positions, rejects with an `AbortError` when cancelled */
+  promise: Promise<Record<string, Position>>;
+  /** Stops the layout; the promise rejects and no further progress is reported */
+  cancel: () => void;
+}
+
+/**
+ * Creates the error used to reject cancelled layout tasks
+ */
+function createAbortError(): Error {
+  const error = new Error('Layout was cancelled');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Whether an error was caused by cancelling a layout task
+ */
+export function isLayoutCancelled(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * Whether a layout and every layout it runs in turn are built in
+ * Preset, grouped and auto layouts name further layouts in their options;
+ * the worker only knows the built-in ones
+ */
+function usesBuiltInLayoutsOnly(type: LayoutType, options: LayoutOptions | undefined): boolean {
+  if (!isBuiltInLayout(type)) return false;
+
+  let nested: [LayoutType, LayoutOptions | undefined][] = [];
+  if (type === 'preset') {
+    const { layout, layoutOptions } = (options || {}) as PresetLayoutOptions;
+    if (layout) nested = [[layout, layoutOptions]];
+  } else if (type === 'grouped') {
+    const { innerLayout = 'force', innerLayoutOptions, outerLayout = 'force', outerLayoutOptions } =
+      (options || {}) as GroupedLayoutOptions;
+    nested = [[innerLayout, innerLayoutOptions], [outerLayout, outerLayoutOptions]];
+  } else if (type === 'auto') {
+    const { candidates = DEFAULT_AUTO_CANDIDATES, candidateOptions = {} } = (options || {}) as AutoLayoutOptions;
+    nested = candidates
+      .filter(candidate => candidate !== 'auto')
+      .map(candidate => [candidate, candidateOptions[candidate]]);
+  }
+
+  return nested.every(([nestedType, nestedOptions]) => usesBuiltInLayoutsOnly(nestedType, nestedOptions));
+}
+
+/**
+ * Runs a layout off the main thread, falling back to the main thread
+ * when Web Workers are unavailable, the layout was registered at runtime
+ * or the options cannot be transferred
+ */
+export function createLayoutAsync(
+  nodes: Node[],
+  edges: Edge[],
+  options: AsyncLayoutOptions
+): LayoutTask {
+  const { onProgress, useWorker = true, ...factoryOptions } = options;
+
+  let cancelled = false;
+  let worker: Worker | null = null;
+  let rejectTask: ((reason: unknown) => void) | null = null;
+
+  const promise = new Promise<Record<string, Position>>((resolve, reject) => {
+    rejectTask = reject;
+
+    const runOnMainThread = () => {
+      // Defer so the caller can render a loading state first
+      setTimeout(() => {
+        if (cancelled) return;
+
+        try {
+          const positions = createLayout(nodes, edges, {
+            ...factoryOptions,
+            layoutOptions: {
+              ...factoryOptions.layoutOptions,
+              onProgress: (progress: number) => {
+                if (!cancelled && onProgress) onProgress(progress);
+              },
+            },
+          });
+
+          if (!cancelled) {
+            if (onProgress) onProgress(1);
+            resolve(positions);
+          }
+        } catch (e) {
+          if (!cancelled) reject(e);
+        }
+      }, 0);
+    };
+
+    // Custom layouts are registered on the main thread only and cannot run in the worker
+    if (!useWorker || typeof Worker === 'undefined'
+      || !usesBuiltInLayoutsOnly(factoryOptions.type, factoryOptions.layoutOptions as LayoutOptions | undefined)) {
+      runOnMainThread();
+      return;
+    }
+
+    try {
+      worker = new Worker(new URL('./layout.worker.ts', import.meta.url), { type: 'module' });
+    } catch (e) {
+      worker = null;
+      runOnMainThread();
+      return;
+    }
+
+    worker.onmessage = (event: MessageEvent<LayoutWorkerResponse>) => {
+      if (cancelled) return;
+
+      const message = event.data;
+      if (message.type === 'progress') {
+        if (onProgress) onProgress(message.progress);
+        return;
+      }
+
+      worker?.terminate();
+      worker = null;
+
+      if (message.type === 'result') {
+        if (onProgress) onProgress(1);
+        resolve(message.positions);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = () => {
+      // The worker script failed to load or crashed; retry on the main thread
+      worker?.terminate();
+      worker = null;
+      if (!cancelled) runOnMainThread();
+    };
+
+    try {
+      const request: LayoutWorkerRequest = { nodes, edges, options: factoryOptions };
+      worker.postMessage(request);
+    } catch (e) {
+      // Options containing functions cannot be cloned into the worker
+      worker.terminate();
+      worker = null;
+      runOnMainThread();
+    }
+  });
+
+  const cancel = () => {
+    if (cancelled) return;
+    cancelled = true;
+
+    if (worker) {
+      worker.terminate();
+      worker = null;
+    }
+
+    if (rejectTask) {
+      rejectTask(createAbortError());
+    }
+  };
+
+  return { promise, cancel };
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { pickBestLayout, scoreLayoutMetrics } from './auto';
+import { layouts, registerLayout } from './registry';
+import { Node, Edge, Position } from '../types/graph';
+
+const nodes: Node[] = ['a', 'b', 'c', 'd'].map(id => ({ id }));
+const edges: Edge[] = [
+  { id: 'e1', source: 'a', target: 'b' },
+  { id: 'e2', source: 'c', target: 'd' },
+];
+
+// Edges a-b and c-d cross in the middle
+const crossed = (): Record<string, Position> => ({
+  a: { x: 0, y: 0 },
+  b: { x: 400, y: 400 },
+  c: { x: 400, y: 0 },
+  d: { x: 0, y: 400 },
+});
+
+// The same nodes with the edges side by side
+const untangled = (): Record<string, Position> => ({
+  a: { x: 0, y: 0 },
+  b: { x: 0, y: 400 },
+  c: { x: 400, y: 0 },
+  d: { x: 400, y: 400 },
+});
+
+// Every node on the same spot
+const collapsed = (): Record<string, Position> => ({
+  a: { x: 0, y: 0 },
+  b: { x: 0, y: 0 },
+  c: { x: 0, y: 0 },
+  d: { x: 0, y: 0 },
+});
+
+afterEach(() => {
+  delete layouts.crossed;
+  delete layouts.untangled;
+  delete layouts.collapsed;
+  delete layouts.failing;
+  vi.restoreAllMocks();
+});
+
+describe('scoreLayoutMetrics', () => {
+  it('charges crossings and overlaps per edge and per node', () => {
+    const perfect = {
+      edgeCrossings: 0,
+      nodeOverlaps: 0,
+      meanEdgeLength: 100,
+      edgeLengthVariance: 0,
+      angularResolution: 2 * Math.PI,
+      aspectRatio: 1,
+    };
+
+    expect(scoreLayoutMetrics(perfect, nodes, edges)).toBe(0);
+    expect(scoreLayoutMetrics({ ...perfect, edgeCrossings: 1 }, nodes, edges)).toBeCloseTo(0.5);
+    expect(scoreLayoutMetrics({ ...perfect, nodeOverlaps: 2 }, nodes, edges)).toBeCloseTo(1);
+    expect(scoreLayoutMetrics({ ...perfect, aspectRatio: 2 }, nodes, edges, { targetAspectRatio: 2 })).toBe(0);
+    expect(scoreLayoutMetrics({ ...perfect, edgeCrossings: 1 }, nodes, edges, { weights: { edgeCrossings: 0 } }))
+      .toBe(0);
+  });
+});
+
+describe('pickBestLayout', () => {
+  it('returns the candidate with the lowest score', () => {
+    registerLayout('crossed', crossed);
+    registerLayout('untangled', untangled);
+    registerLayout('collapsed', collapsed);
+
+    const result = pickBestLayout(nodes, edges, 800, 800, {
+      candidates: ['crossed', 'collapsed', 'untangled'],
+    });
+
+    expect(result.type).toBe('untangled');
+    expect(result.positions).toEqual(untangled());
+    expect(result.metrics.edgeCrossings).toBe(0);
+    expect(result.ranking.map(candidate => candidate.type)).toEqual(['untangled', 'crossed', 'collapsed']);
+    result.ranking.forEach(candidate => {
+      expect(result.score).toBeLessThanOrEqual(candidate.score);
+    });
+  });
+
+  it('passes the options of each candidate', () => {
+    const layout = vi.fn(untangled);
+    registerLayout('untangled', layout);
+
+    pickBestLayout(nodes, edges, 800, 600, {
+      candidates: ['untangled'],
+      candidateOptions: { untangled: { seed: 3 } },
+    });
+
+    expect(layout).toHaveBeenCalledWith(nodes, edges, 800, 600, { seed: 3 });
+  });
+
+  it('skips unknown, failing and nested auto candidates', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    registerLayout('crossed', crossed);
+    registerLayout('failing', () => {
+      throw new Error('No layout');
+    });
+
+    const result = pickBestLayout(nodes, edges, 800, 800, {
+      candidates: ['auto', 'missing', 'failing', 'crossed'],
+    });
+
+    expect(result.ranking.map(candidate => candidate.type)).toEqual(['crossed']);
+  });
+
+  it('throws when no candidate can be applied', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(() => pickBestLayout(nodes, edges, 800, 800, { candidates: ['missing'] }))
+      .toThrow('None of the candidate layouts could be applied');
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Automatic layout selection runs several layouts and keeps the one with the
+ * best quality metrics
+ */
+import { Node, Edge, Position } from '../types/graph';
+import type { LayoutType, LayoutOptions } from './registry';
+import { getLayout } from './layoutTable';
+import { computeLayoutMetrics, LayoutMetrics, LayoutMetricsOptions } from './metrics';
+
+/**
+ * How much each metric counts towards the score of a layout
+ */
+export interface LayoutScoreWeights {
+  /** Weight of edge crossings per edge */
+  edgeCrossings?: number;
+  /** Weight of node overlaps per node */
+  nodeOverlaps?: number;
+  /** Weight of the normalized edge length variance */
+  edgeLengthVariance?: number;
+  /** Weight of the shortfall of the angular resolution from its ideal */
+  angularResolution?: number;
+  /** Weight of the deviation from the target aspect ratio */
+  aspectRatio?: number;
+}
+
+export interface AutoLayoutOptions extends LayoutMetricsOptions {
+  /** Layouts to try */
+  candidates?: LayoutType[];
+  /** Options for each candidate layout, keyed by layout name */
+  candidateOptions?: Partial<Record<LayoutType, LayoutOptions>>;
+  /** How much each metric counts; lower scores are better */
+  weights?: LayoutScoreWeights;
+  /** Preferred width over height (the viewport ratio if not set) */
+  targetAspectRatio?: number;
+}
+
+export interface LayoutCandidateResult {
+  type: LayoutType;
+  positions: Record<string, Position>;
+  metrics: LayoutMetrics;
+  /** Weighted score of the metrics; lower is better */
+  score: number;
+}
+
+export interface AutoLayoutResult extends LayoutCandidateResult {
+  /** All candidates that ran, best first */
+  ranking: LayoutCandidateResult[];
+}
+
+/**
+ * Layouts tried when no candidates are given
+ */
+export const DEFAULT_AUTO_CANDIDATES: LayoutType[] = ['force', 'layered', 'stress', 'circular', 'grid'];
+
+const DEFAULT_WEIGHTS: Required<LayoutScoreWeights> = {
+  edgeCrossings: 1,
+  nodeOverlaps: 2,
+  edgeLengthVariance: 0.5,
+  angularResolution: 0.5,
+  aspectRatio: 0.5,
+};
+
+/**
+ * Combine metrics into a single score where lower is better
+ * Counts are normalized by graph size so scores of different graphs are comparable
+ */
+export function scoreLayoutMetrics(
+  metrics: LayoutMetrics,
+  nodes: Node[],
+  edges: Edge[],
+  options: { weights?: LayoutScoreWeights; targetAspectRatio?: number } = {}
+): number {
+  const weights = { ...DEFAULT_WEIGHTS, ...options.weights };
+  const { targetAspectRatio = 1 } = options;
+
+  // The best possible angular resolution is limited by the highest degree
+  const degrees = new Map<string, number>();
+  edges.forEach(edge => {
+    if (edge.source === edge.target) return;
+    degrees.set(edge.source, (degrees.get(edge.source) || 0) + 1);
+    degrees.set(edge.target, (degrees.get(edge.target) || 0) + 1);
+  });
+  const maxDegree = Math.max(1, ...degrees.values());
+  const idealAngle = 2 * Math.PI / maxDegree;
+
+  return weights.edgeCrossings * metrics.edgeCrossings / Math.max(1, edges.length)
+    + weights.nodeOverlaps * metrics.nodeOverlaps / Math.max(1, nodes.length)
+    + weights.edgeLengthVariance * metrics.edgeLengthVariance
+    + weights.angularResolution * Math.max(0, 1 - metrics.angularResolution / idealAngle)
+    + weights.aspectRatio * Math.abs(Math.log(metrics.aspectRatio / targetAspectRatio));
+}
+
+/**
+ * Run every candidate layout and rank them by score
+ * Candidates that are unknown or fail are skipped
+ */
+export function pickBestLayout(
+  nodes: Node[],
+  edges: Edge[],
+  width: number,
+  height: number,
+  options: AutoLayoutOptions = {}
+): AutoLayoutResult {
+  const {
+    candidates = DEFAULT_AUTO_CANDIDATES,
+    candidateOptions = {},
+    weights,
+    targetAspectRatio = width > 0 && height > 0 ? width / height : 1,
+    nodeSizes,
+    defaultSize,
+  } = options;
+
+  const ranking: LayoutCandidateResult[] = [];
+  candidates.forEach(type => {
+    // Never try this layout from within itself
+    if (type === 'auto') return;
+
+    const layout = getLayout(type);
+    if (!layout) {
+      console.warn(`Unknown layout type: ${type}. Skipping it.`);
+      return;
+    }
+
+    try {
+      const positions = layout(nodes, edges, width, height, candidateOptions[type]);
+      const metrics = computeLayoutMetrics(nodes, edges, positions, { nodeSizes, defaultSize });
+      const score = scoreLayoutMetrics(metrics, nodes, edges, { weights, targetAspectRatio });
+      ranking.push({ type, positions, metrics, score });
+    } catch (e) {
+      console.warn(`Layout "${type}" failed and was skipped:`, e);
+    }
+  });
+
+  if (ranking.length === 0) {
+    throw new Error('None of the candidate layouts could be applied');
+  }
+
+  ranking.sort((a, b) => a.score - b.score);
+  return { ...ranking[0], ranking };
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { bundleEdges } from './bundling';
+import { Node, Edge, Position } from '../types/graph';
+
+// Four nodes around the origin, two per group
+const nodes: Node[] = [
+  { id: 'a1', type: 'a' },
+  { id: 'a2', type: 'a' },
+  { id: 'b1', type: 'b' },
+  { id: 'b2', type: 'b' },
+];
+const positions: Record<string, Position> = {
+  a1: { x: 100, y: 0 },
+  a2: { x: 0, y: 100 },
+  b1: { x: -100, y: 0 },
+  b2: { x: 0, y: -100 },
+};
+const edges: Edge[] = [
+  { id: 'across', source: 'a1', target: 'b1' },
+  { id: 'siblings', source: 'a1', target: 'a2' },
+];
+
+// Zero-sized nodes keep the curve ends on the node centers
+const pointSize = { width: 0, height: 0 };
+
+describe('bundleEdges', () => {
+  it('draws straight lines when tension is 0', () => {
+    const routes = bundleEdges(nodes, edges, positions, {}, { tension: 0, defaultSize: pointSize });
+
+    routes.across.points.forEach(point => expect(point.y).toBeCloseTo(0));
+    const xs = routes.across.points.map(point => point.x);
+    expect(xs[0]).toBe(100);
+    expect(xs[xs.length - 1]).toBe(-100);
+    // Evenly spaced along the line, in order
+    for (let i = 1; i < xs.length; i++) expect(xs[i]).toBeLessThan(xs[i - 1]);
+
+    routes.siblings.points.forEach(point => expect(point.x + point.y).toBeCloseTo(100));
+  });
+
+  it('follows the hierarchy path when tension is 1', () => {
+    const routes = bundleEdges(nodes, edges, positions, {}, { tension: 1, defaultSize: pointSize });
+
+    // Up through group a and the center, down through group b
+    expect(routes.across.points).toEqual([
+      { x: 100, y: 0 },
+      { x: 25, y: 25 },
+      { x: 0, y: 0 },
+      { x: -25, y: -25 },
+      { x: -100, y: 0 },
+    ]);
+  });
+
+  it('bundles edges between siblings through their group only', () => {
+    const routes = bundleEdges(nodes, edges, positions, {}, { tension: 1, defaultSize: pointSize });
+
+    expect(routes.siblings.points).toEqual([
+      { x: 100, y: 0 },
+      { x: 25, y: 25 },
+      { x: 0, y: 100 },
+    ]);
+  });
+
+  it('places group control points by groupRadius', () => {
+    const routes = bundleEdges(nodes, edges, positions, {}, {
+      tension: 1,
+      groupRadius: 1,
+      defaultSize: pointSize,
+    });
+
+    expect(routes.siblings.points[1]).toEqual({ x: 50, y: 50 });
+  });
+
+  it('routes nodes without a group through the center', () => {
+    const ungrouped: Node[] = [{ id: 'a1', type: 'a' }, { id: 'x' }];
+    const edge: Edge = { id: 'e', source: 'x', target: 'a1' };
+
+    const routes = bundleEdges(ungrouped, [edge], { a1: { x: 100, y: 0 }, x: { x: -100, y: 0 } }, {}, {
+      tension: 1,
+      defaultSize: pointSize,
+    });
+
+    expect(routes.e.points).toEqual([
+      { x: -100, y: 0 },
+      { x: 0, y: 0 },
+      { x: 50, y: 0 },
+      { x: 100, y: 0 },
+    ]);
+  });
+
+  it('starts and ends curves on the node borders', () => {
+    const routes = bundleEdges(nodes, edges, positions, { b1: { width: 40, height: 40 } }, {
+      tension: 0,
+      defaultSize: { width: 20, height: 20 },
+    });
+
+    const points = routes.across.points;
+    expect(points[0]).toEqual({ x: 90, y: 0 });
+    expect(points[points.length - 1].x).toBeCloseTo(-80);
+    expect(routes.across.path.startsWith('M 90 0')).toBe(true);
+  });
+
+  it('skips self-loops and unpositioned nodes', () => {
+    const routes = bundleEdges(nodes, [
+      { id: 'loop', source: 'a1', target: 'a1' },
+      { id: 'missing', source: 'a1', target: 'z' },
+    ], positions);
+
+    expect(routes).toEqual({});
+  });
+});
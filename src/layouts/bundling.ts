@@ -0,0 +1,174 @@
+/**
+ * Hierarchical edge bundling for circular and radial layouts
+ * Nodes are grouped by a configurable key; every edge is drawn as a B-spline
+ * through the control points of its groups and the layout center, so edges
+ * between the same groups share one bundle
+ */
+import { Node, Edge, Position } from '../types/graph';
+import { NodeSize } from './overlap';
+import { EdgeRoute } from './routing';
+import { getNodeGroup } from './grouped';
+
+export interface EdgeBundlingOptions {
+  /** Node field grouping nodes into bundles, e.g. 'type' or 'metadata.team' */
+  groupBy?: string;
+  /** How closely edges follow their bundle, from 0 (straight lines) to 1 */
+  tension?: number;
+  /** Where group control points sit between the center (0) and their members (1) */
+  groupRadius?: number;
+  /** Size used for nodes that have not been measured */
+  defaultSize?: NodeSize;
+}
+
+/**
+ * Bundled curves keyed by edge ID
+ * Curves start and end on the borders of the node boxes
+ */
+export function bundleEdges(
+  nodes: Node[],
+  edges: Edge[],
+  positions: Record<string, Position>,
+  nodeSizes: Record<string, NodeSize> = {},
+  options: EdgeBundlingOptions = {}
+): Record<string, EdgeRoute> {
+  const {
+    groupBy = 'type',
+    tension = 0.85,
+    groupRadius = 0.5,
+    defaultSize = { width: 120, height: 120 },
+  } = options;
+
+  const beta = Math.max(0, Math.min(1, tension));
+
+  // The layout center is the root of the hierarchy
+  const positioned = nodes.filter(node => positions[node.id]);
+  if (positioned.length === 0) return {};
+
+  const root = centroid(positioned.map(node => positions[node.id]));
+
+  // Group control points sit between the center and the centroid of their members
+  const groupOf = new Map<string, string>();
+  const members = new Map<string, Position[]>();
+  positioned.forEach(node => {
+    const group = getNodeGroup(node, groupBy);
+    if (group === undefined) return;
+    groupOf.set(node.id, group);
+    if (!members.has(group)) members.set(group, []);
+    members.get(group)!.push(positions[node.id]);
+  });
+
+  const groupPoints = new Map<string, Position>();
+  members.forEach((points, group) => {
+    const center = centroid(points);
+    groupPoints.set(group, {
+      x: root.x + (center.x - root.x) * groupRadius,
+      y: root.y + (center.y - root.y) * groupRadius,
+    });
+  });
+
+  const routes: Record<string, EdgeRoute> = {};
+  edges.forEach(edge => {
+    const source = positions[edge.source];
+    const target = positions[edge.target];
+    if (!source || !target || edge.source === edge.target) return;
+
+    // Path up the hierarchy from the source and down to the target, meeting at
+    // their lowest common ancestor
+    const sourceGroup = groupOf.get(edge.source);
+    const targetGroup = groupOf.get(edge.target);
+    const controls: Position[] = [source];
+    if (sourceGroup !== undefined && sourceGroup === targetGroup) {
+      controls.push(groupPoints.get(sourceGroup)!);
+    } else {
+      if (sourceGroup !== undefined) controls.push(groupPoints.get(sourceGroup)!);
+      controls.push(root);
+      if (targetGroup !== undefined) controls.push(groupPoints.get(targetGroup)!);
+    }
+    controls.push(target);
+
+    const points = straighten(controls, beta);
+
+    // Start and end on the node borders rather than at their centers
+    points[0] = borderPoint(source, points[1], nodeSizes[edge.source] || defaultSize);
+    points[points.length - 1] = borderPoint(
+      target,
+      points[points.length - 2],
+      nodeSizes[edge.target] || defaultSize
+    );
+
+    routes[edge.id] = { points, path: basisPath(points) };
+  });
+
+  return routes;
+}
+
+/**
+ * Pull control points towards the straight line between the ends
+ * A tension of 1 keeps them, 0 gives a straight line
+ */
+function straighten(points: Position[], beta: number): Position[] {
+  const first = points[0];
+  const last = points[points.length - 1];
+  const steps = points.length - 1;
+
+  return points.map((point, index) => ({
+    x: beta * point.x + (1 - beta) * (first.x + (last.x - first.x) * index / steps),
+    y: beta * point.y + (1 - beta) * (first.y + (last.y - first.y) * index / steps),
+  }));
+}
+
+/**
+ * SVG path data of a uniform cubic B-spline through the ends of the control points
+ */
+function basisPath(points: Position[]): string {
+  const [first, second] = points;
+  if (points.length === 2) {
+    return `M ${first.x} ${first.y} L ${second.x} ${second.y}`;
+  }
+
+  let path = `M ${first.x} ${first.y}`;
+  let p0 = first;
+  let p1 = second;
+
+  const curveTo = (p: Position) => {
+    path += ` C ${(2 * p0.x + p1.x) / 3} ${(2 * p0.y + p1.y) / 3}`
+      + ` ${(p0.x + 2 * p1.x) / 3} ${(p0.y + 2 * p1.y) / 3}`
+      + ` ${(p0.x + 4 * p1.x + p.x) / 6} ${(p0.y + 4 * p1.y + p.y) / 6}`;
+  };
+
+  path += ` L ${(5 * p0.x + p1.x) / 6} ${(5 * p0.y + p1.y) / 6}`;
+  for (let i = 2; i < points.length; i++) {
+    curveTo(points[i]);
+    p0 = p1;
+    p1 = points[i];
+  }
+  curveTo(p1);
+  path += ` L ${p1.x} ${p1.y}`;
+
+  return path;
+}
+
+/**
+ * Point where the ray from a node center towards `toward` leaves the node box
+ */
+function borderPoint(center: Position, toward: Position, size: NodeSize): Position {
+  const dx = toward.x - center.x;
+  const dy = toward.y - center.y;
+  if (dx === 0 && dy === 0) return center;
+
+  const scaleX = dx !== 0 ? (size.width / 2) / Math.abs(dx) : Infinity;
+  const scaleY = dy !== 0 ? (size.height / 2) / Math.abs(dy) : Infinity;
+  const t = Math.min(scaleX, scaleY, 1);
+
+  return { x: center.x + dx * t, y: center.y + dy * t };
+}
+
+/**
+ * Average of a set of points
+ */
+function centroid(points: Position[]): Position {
+  return {
+    x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+    y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+  };
+}
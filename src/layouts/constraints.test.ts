@@ -0,0 +1,152 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  resolveConstraints,
+  resolvePinnedPositions,
+  hasConstraints,
+  projectConstraints,
+  translateToPins,
+} from './constraints';
+import { Node, Position } from '../types/graph';
+
+const nodes: Node[] = [
+  { id: 'a', data: { fixed: true, x: 10, y: 20 } },
+  { id: 'b', data: { x: 30, y: 40 } },
+  { id: 'c' },
+];
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('resolveConstraints', () => {
+  it('pins fixed nodes and pin constraints', () => {
+    const { pins } = resolveConstraints(nodes, [
+      { type: 'pin', nodeId: 'b' },
+      { type: 'pin', nodeId: 'c', x: 5, y: 6 },
+    ]);
+
+    expect(Object.fromEntries(pins)).toEqual({
+      a: { x: 10, y: 20 },
+      b: { x: 30, y: 40 },
+      c: { x: 5, y: 6 },
+    });
+  });
+
+  it('ignores pins without a position and constraints on unknown nodes', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const resolved = resolveConstraints([{ id: 'c' }], [
+      { type: 'pin', nodeId: 'c', x: 5 },
+      { type: 'pin', nodeId: 'missing', x: 0, y: 0 },
+      { type: 'align', axis: 'vertical', nodeIds: ['c', 'missing'] },
+      { type: 'relative', nodeId: 'c', relation: 'left-of', targetId: 'missing' },
+    ]);
+
+    expect(hasConstraints(resolved)).toBe(false);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('"c" has no position'));
+  });
+
+  it('maps alignments and relations to axes', () => {
+    const { alignments, orderings } = resolveConstraints(nodes, [
+      { type: 'align', axis: 'horizontal', nodeIds: ['a', 'b'] },
+      { type: 'align', axis: 'vertical', nodeIds: ['b', 'c'] },
+      { type: 'relative', nodeId: 'a', relation: 'left-of', targetId: 'b' },
+      { type: 'relative', nodeId: 'a', relation: 'right-of', targetId: 'c', gap: 20 },
+      { type: 'relative', nodeId: 'b', relation: 'above', targetId: 'c' },
+      { type: 'relative', nodeId: 'b', relation: 'below', targetId: 'a' },
+    ]);
+
+    expect(alignments).toEqual([
+      { axis: 'y', nodeIds: ['a', 'b'] },
+      { axis: 'x', nodeIds: ['b', 'c'] },
+    ]);
+    expect(orderings).toEqual([
+      { axis: 'x', before: 'a', after: 'b', gap: 100 },
+      { axis: 'x', before: 'c', after: 'a', gap: 20 },
+      { axis: 'y', before: 'b', after: 'c', gap: 100 },
+      { axis: 'y', before: 'a', after: 'b', gap: 100 },
+    ]);
+  });
+});
+
+describe('resolvePinnedPositions', () => {
+  it('holds fixed nodes at their data position and pinned nodes where they are', () => {
+    const positions: Record<string, Position> = {
+      a: { x: 0, y: 0 },
+      b: { x: 1, y: 2 },
+      c: { x: 3, y: 4 },
+    };
+
+    expect(resolvePinnedPositions(nodes, ['a', 'b'], positions)).toEqual({
+      a: { x: 10, y: 20 },
+      b: { x: 1, y: 2 },
+    });
+    expect(resolvePinnedPositions(nodes, new Set(['c']), {})).toEqual({ a: { x: 10, y: 20 } });
+  });
+});
+
+describe('projectConstraints', () => {
+  it('aligns nodes on the mean or on their pinned members', () => {
+    const positions: Record<string, Position> = {
+      a: { x: 0, y: 0 },
+      b: { x: 50, y: 100 },
+      c: { x: 100, y: 50 },
+    };
+
+    projectConstraints(positions, resolveConstraints([{ id: 'a' }, { id: 'b' }], [
+      { type: 'align', axis: 'horizontal', nodeIds: ['a', 'b'] },
+    ]));
+    expect(positions.a.y).toBe(50);
+    expect(positions.b.y).toBe(50);
+
+    projectConstraints(positions, resolveConstraints(
+      [{ id: 'b' }, { id: 'c', data: { fixed: true, x: 100, y: 50 } }],
+      [{ type: 'align', axis: 'vertical', nodeIds: ['b', 'c'] }]
+    ));
+    expect(positions.b).toEqual({ x: 100, y: 50 });
+    expect(positions.c).toEqual({ x: 100, y: 50 });
+  });
+
+  it('separates left-of pairs by sharing the shortfall', () => {
+    const positions: Record<string, Position> = { a: { x: 0, y: 0 }, b: { x: 20, y: 0 } };
+
+    projectConstraints(positions, resolveConstraints([{ id: 'a' }, { id: 'b' }], [
+      { type: 'relative', nodeId: 'a', relation: 'left-of', targetId: 'b', gap: 60 },
+    ]));
+
+    expect(positions).toEqual({ a: { x: -20, y: 0 }, b: { x: 40, y: 0 } });
+  });
+
+  it('moves only the unpinned node of an above pair', () => {
+    const positions: Record<string, Position> = { a: { x: 0, y: 0 }, b: { x: 0, y: -30 } };
+
+    projectConstraints(positions, resolveConstraints(
+      [{ id: 'a', data: { fixed: true, x: 0, y: 0 } }, { id: 'b' }],
+      [{ type: 'relative', nodeId: 'a', relation: 'above', targetId: 'b' }]
+    ));
+
+    expect(positions).toEqual({ a: { x: 0, y: 0 }, b: { x: 0, y: 100 } });
+  });
+
+  it('leaves satisfied orderings alone and snaps pins last', () => {
+    const positions: Record<string, Position> = { a: { x: 0, y: 0 }, b: { x: 500, y: 0 } };
+
+    projectConstraints(positions, resolveConstraints([{ id: 'a' }, { id: 'b' }], [
+      { type: 'relative', nodeId: 'a', relation: 'left-of', targetId: 'b' },
+      { type: 'pin', nodeId: 'a', x: 700, y: 0 },
+    ]));
+
+    // The pin wins over the ordering in a single pass
+    expect(positions).toEqual({ a: { x: 700, y: 0 }, b: { x: 500, y: 0 } });
+  });
+});
+
+describe('translateToPins', () => {
+  it('moves the whole layout by the mean offset to the pins', () => {
+    const positions: Record<string, Position> = { a: { x: 0, y: 0 }, b: { x: 10, y: 10 } };
+
+    translateToPins(positions, new Map([['a', { x: 5, y: -5 }], ['missing', { x: 0, y: 0 }]]));
+
+    expect(positions).toEqual({ a: { x: 5, y: -5 }, b: { x: 15, y: 5 } });
+  });
+});
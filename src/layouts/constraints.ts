@@ -0,0 +1,243 @@
+/**
+ * Layout constraints: pinned nodes, alignment and relative placement
+ * Layouts that support constraints resolve them once and project positions
+ * onto them while they run
+ */
+import { Node, Position } from '../types/graph';
+
+/**
+ * Keep a node at a fixed position
+ * Without coordinates, `node.data.x` and `node.data.y` are used
+ */
+export interface PinConstraint {
+  type: 'pin';
+  nodeId: string;
+  x?: number;
+  y?: number;
+}
+
+/**
+ * Place nodes on a shared row ('horizontal', same y) or column ('vertical', same x)
+ */
+export interface AlignConstraint {
+  type: 'align';
+  axis: 'horizontal' | 'vertical';
+  nodeIds: string[];
+}
+
+/**
+ * Place one node left of, right of, above or below another
+ */
+export interface RelativeConstraint {
+  type: 'relative';
+  nodeId: string;
+  relation: 'left-of' | 'right-of' | 'above' | 'below';
+  targetId: string;
+  /** Minimum distance between the two nodes along the axis */
+  gap?: number;
+}
+
+export type LayoutConstraint = PinConstraint | AlignConstraint | RelativeConstraint;
+
+/**
+ * Constraints normalized for projection: every relative constraint reads
+ * "`before` comes at least `gap` before `after` along `axis`"
+ */
+export interface ResolvedConstraints {
+  pins: Map<string, Position>;
+  alignments: { axis: 'x' | 'y'; nodeIds: string[] }[];
+  orderings: { axis: 'x' | 'y'; before: string; after: string; gap: number }[];
+}
+
+// Gap used by relative constraints that do not set one
+const DEFAULT_GAP = 100;
+
+/**
+ * Collect constraints from the options and from `node.data.fixed` flags
+ * Constraints referring to unknown nodes are ignored
+ */
+export function resolveConstraints(
+  nodes: Node[],
+  constraints: LayoutConstraint[] = []
+): ResolvedConstraints {
+  const nodesById = new Map(nodes.map(node => [node.id, node]));
+  const pins = new Map<string, Position>();
+  const alignments: ResolvedConstraints['alignments'] = [];
+  const orderings: ResolvedConstraints['orderings'] = [];
+
+  const dataPosition = (node: Node): Position | null => {
+    const x = node.data?.x;
+    const y = node.data?.y;
+    return typeof x === 'number' && typeof y === 'number' ? { x, y } : null;
+  };
+
+  nodes.forEach(node => {
+    if (node.data?.fixed !== true) return;
+    const position = dataPosition(node);
+    if (position) pins.set(node.id, position);
+  });
+
+  constraints.forEach(constraint => {
+    if (constraint.type === 'pin') {
+      const node = nodesById.get(constraint.nodeId);
+      if (!node) return;
+
+      const fallback = dataPosition(node);
+      const x = constraint.x ?? fallback?.x;
+      const y = constraint.y ?? fallback?.y;
+      if (x === undefined || y === undefined) {
+        console.warn(`Pin constraint for "${constraint.nodeId}" has no position. Ignoring it.`);
+        return;
+      }
+      pins.set(constraint.nodeId, { x, y });
+    } else if (constraint.type === 'align') {
+      const nodeIds = constraint.nodeIds.filter(id => nodesById.has(id));
+      if (nodeIds.length < 2) return;
+      alignments.push({ axis: constraint.axis === 'horizontal' ? 'y' : 'x', nodeIds });
+    } else if (constraint.type === 'relative') {
+      if (!nodesById.has(constraint.nodeId) || !nodesById.has(constraint.targetId)) return;
+
+      const gap = constraint.gap ?? DEFAULT_GAP;
+      const { nodeId, targetId } = constraint;
+      switch (constraint.relation) {
+        case 'left-of':
+          orderings.push({ axis: 'x', before: nodeId, after: targetId, gap });
+          break;
+        case 'right-of':
+          orderings.push({ axis: 'x', before: targetId, after: nodeId, gap });
+          break;
+        case 'above':
+          orderings.push({ axis: 'y', before: nodeId, after: targetId, gap });
+          break;
+        case 'below':
+          orderings.push({ axis: 'y', before: targetId, after: nodeId, gap });
+          break;
+      }
+    }
+  });
+
+  return { pins, alignments, orderings };
+}
+
+/**
+ * Positions of the nodes held in place: nodes with `node.data.fixed` at
+ * `node.data.x`/`node.data.y`, and pinned nodes where they are now
+ */
+export function resolvePinnedPositions(
+  nodes: Node[],
+  pinned: Iterable<string> = [],
+  positions: Record<string, Position> = {}
+): Record<string, Position> {
+  const pinnedIds = new Set(pinned);
+  const result: Record<string, Position> = {};
+
+  nodes.forEach(node => {
+    const { x, y } = node.data || {};
+    if (node.data?.fixed === true && typeof x === 'number' && typeof y === 'number') {
+      result[node.id] = { x, y };
+    } else if (pinnedIds.has(node.id) && positions[node.id]) {
+      result[node.id] = { x: positions[node.id].x, y: positions[node.id].y };
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Whether there is anything to enforce
+ */
+export function hasConstraints(constraints: ResolvedConstraints): boolean {
+  return constraints.pins.size > 0
+    || constraints.alignments.length > 0
+    || constraints.orderings.length > 0;
+}
+
+/**
+ * Move positions in place so they satisfy the constraints
+ * Each pass aligns groups, separates ordered pairs with a minimal move shared
+ * by both nodes and finally snaps pinned nodes back to their pins
+ */
+export function projectConstraints(
+  positions: Record<string, Position>,
+  constraints: ResolvedConstraints,
+  passes = 1
+): void {
+  const { pins, alignments, orderings } = constraints;
+
+  for (let pass = 0; pass < passes; pass++) {
+    alignments.forEach(({ axis, nodeIds }) => {
+      const members = nodeIds.filter(id => positions[id]);
+      if (members.length === 0) return;
+
+      // Pinned members decide where the line goes
+      const pinnedMembers = members.filter(id => pins.has(id));
+      const source = pinnedMembers.length > 0 ? pinnedMembers : members;
+      const value = source.reduce(
+        (sum, id) => sum + (pins.get(id) || positions[id])[axis],
+        0
+      ) / source.length;
+
+      members.forEach(id => {
+        positions[id][axis] = value;
+      });
+    });
+
+    orderings.forEach(({ axis, before, after, gap }) => {
+      const first = positions[before];
+      const second = positions[after];
+      if (!first || !second) return;
+
+      const shortfall = gap - (second[axis] - first[axis]);
+      if (shortfall <= 0) return;
+
+      const firstPinned = pins.has(before);
+      const secondPinned = pins.has(after);
+      if (firstPinned && secondPinned) return;
+
+      if (firstPinned) {
+        second[axis] += shortfall;
+      } else if (secondPinned) {
+        first[axis] -= shortfall;
+      } else {
+        first[axis] -= shortfall / 2;
+        second[axis] += shortfall / 2;
+      }
+    });
+
+    pins.forEach((pin, id) => {
+      if (!positions[id]) return;
+      positions[id].x = pin.x;
+      positions[id].y = pin.y;
+    });
+  }
+}
+
+/**
+ * Translate a finished layout so its pinned nodes land as close as possible
+ * to their pins, keeping the shape of the layout
+ */
+export function translateToPins(
+  positions: Record<string, Position>,
+  pins: Map<string, Position>
+): void {
+  let dx = 0;
+  let dy = 0;
+  let count = 0;
+
+  pins.forEach((pin, id) => {
+    const position = positions[id];
+    if (!position) return;
+    dx += pin.x - position.x;
+    dy += pin.y - position.y;
+    count++;
+  });
+
+  if (count === 0) return;
+
+  dx /= count;
+  dy /= count;
+  Object.values(positions).forEach(position => {
+    position.x += dx;
+    position.y += dy;
+  });
+}
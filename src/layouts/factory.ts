@@ -2,71 +2,58 @@
  * Layout factory for selecting and using different graph layout algorithms
  */
 import { Node, Edge, Position } from '../types/graph';
-import { 
-  LayoutType,
-  CircularLayoutOptions,
-  ForceLayoutOptions,
-  GridLayoutOptions,
-  RadialLayoutOptions,
-  TreeLayoutOptions,
-  circularLayout, 
-  forceLayout, 
-  gridLayout, 
-  radialLayout, 
-  treeLayout 
-} from './index';
+import { gridLayout, GridLayoutOptions } from './grid';
+import { LayoutType, LayoutOptions, LayoutOptionsFor, getLayout } from './registry';
+import { ComponentPackingOptions, packComponents } from './packing';
 
 /**
  * Layout factory options
  */
-export interface LayoutFactoryOptions {
+export interface LayoutFactoryOptions<T extends LayoutType = LayoutType> {
   /** Type of layout algorithm to use */
-  type: LayoutType;
+  type: T;
   /** Options specific to the selected layout */
-  layoutOptions?: any;
+  layoutOptions?: LayoutOptionsFor<T>;
   /** Width of the layout viewport */
   width: number;
   /** Height of the layout viewport */
   height: number;
+  /** Lay out each connected component separately and pack the results */
+  packComponents?: boolean | ComponentPackingOptions;
 }
 
 /**
  * Creates a layout for the given nodes and edges using the specified algorithm
+ * Any layout added with registerLayout can be used, built-in ones included
  */
-export function createLayout(
+export function createLayout<T extends LayoutType>(
   nodes: Node[],
   edges: Edge[],
-  options: LayoutFactoryOptions
+  options: LayoutFactoryOptions<T>
 ): Record<string, Position> {
-  const { type, layoutOptions, width, height } = options;
+  const { type, layoutOptions, width, height, packComponents: packing } = options;
 
-  // Select and apply the appropriate layout algorithm
-  switch (type) {
-    case 'circular':
-      return circularLayout(nodes, width, height, layoutOptions as CircularLayoutOptions);
-    
-    case 'force':
-      return forceLayout(nodes, edges, width, height, layoutOptions as ForceLayoutOptions);
-    
-    case 'grid':
-      return gridLayout(nodes, width, height, layoutOptions as GridLayoutOptions);
-    
-    case 'radial':
-      return radialLayout(nodes, edges, width, height, layoutOptions as RadialLayoutOptions);
-    
-    case 'tree':
-      return treeLayout(nodes, edges, width, height, layoutOptions as TreeLayoutOptions);
-    
-    case 'spiral':
-      return radialLayout(nodes, edges, width, height, layoutOptions as RadialLayoutOptions);
-    
-    case 'donut':
-      return circularLayout(nodes, width, height, { ...layoutOptions as CircularLayoutOptions, isDonut: true });
-    
-    default:
-      console.warn(`Unknown layout type: ${type}. Falling back to grid layout.`);
-      return gridLayout(nodes, width, height, layoutOptions as GridLayoutOptions);
+  // Select and apply the registered layout algorithm
+  const layout = getLayout(type);
+
+  if (!layout) {
+    console.warn(`Unknown layout type: ${type}. Falling back to grid layout.`);
+    return gridLayout(nodes, width, height, layoutOptions as GridLayoutOptions);
+  }
+
+  if (packing) {
+    return packComponents(
+      nodes,
+      edges,
+      width,
+      height,
+      layout,
+      layoutOptions as LayoutOptions | undefined,
+      packing === true ? {} : packing
+    );
   }
+
+  return layout(nodes, edges, width, height, layoutOptions as LayoutOptions | undefined);
 }
 
 /**
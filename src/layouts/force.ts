@@ -3,6 +3,9 @@
  * It places connected nodes closer to each other
  */
 import { Node, Edge, Position } from '../types/graph';
+import { applyExactRepulsion, applyBarnesHutRepulsion, SimulationNode } from './repulsion';
+import { createRandom } from '../utils/random';
+import { LayoutConstraint, resolveConstraints, hasConstraints, projectConstraints } from './constraints';
 
 export interface ForceLayoutOptions {
   /** Number of iterations to run the simulation */
@@ -21,14 +24,18 @@ export interface ForceLayoutOptions {
   preventOverlap?: boolean;
   /** Randomize initial positions */
   randomizeInitialPositions?: boolean;
+  /** Seed for the random initial positions; the same seed always gives the same layout */
+  seed?: number | string;
   /** Center gravity strength */
   centerGravity?: number;
-}
-
-// Internal interface used for the simulation
-interface NodePosition extends Position {
-  vx: number;
-  vy: number;
+  /** How repulsion is computed: 'exact' compares every pair, 'barnes-hut' uses a quadtree approximation */
+  approximation?: 'exact' | 'barnes-hut';
+  /** Barnes–Hut accuracy threshold (cell size / distance); lower is more accurate but slower */
+  theta?: number;
+  /** Callback invoked after each iteration with the completed fraction (0 to 1) */
+  onProgress?: (progress: number) => void;
+  /** Pinned nodes, alignments and relative placements to respect */
+  constraints?: LayoutConstraint[];
 }
 
 /**
@@ -50,7 +57,12 @@ export function forceLayout(
     coolingFactor = 0.95,
     preventOverlap = true,
     randomizeInitialPositions = true,
+    seed,
     centerGravity = 0.1,
+    approximation = 'exact',
+    theta = 0.9,
+    onProgress,
+    constraints,
   } = options;
 
   // If there are no nodes, return an empty positioning object
@@ -74,16 +86,17 @@ export function forceLayout(
   });
 
   // Initialize positions
-  const simPositions: Record<string, NodePosition> = {};
+  const simPositions: Record<string, SimulationNode> = {};
   const centerX = width / 2;
   const centerY = height / 2;
   
   // Set initial positions either randomly or in a circle
+  const random = createRandom(seed);
   nodes.forEach((node, i) => {
     if (randomizeInitialPositions) {
       simPositions[node.id] = {
-        x: centerX + (Math.random() - 0.5) * width * 0.8,
-        y: centerY + (Math.random() - 0.5) * height * 0.8,
+        x: centerX + (random() - 0.5) * width * 0.8,
+        y: centerY + (random() - 0.5) * height * 0.8,
         vx: 0,
         vy: 0
       };
@@ -100,6 +113,11 @@ export function forceLayout(
     }
   });
 
+  // Start pinned nodes at their pins (nodes with `data.fixed` are pinned too)
+  const resolvedConstraints = resolveConstraints(nodes, constraints);
+  const isConstrained = hasConstraints(resolvedConstraints);
+  projectConstraints(simPositions, resolvedConstraints);
+
   // Run simulation
   let temperature = initialTemperature;
   
@@ -112,31 +130,11 @@ export function forceLayout(
       forces[node.id] = { fx: 0, fy: 0 };
     });
     
-    // Apply repulsion forces between all pairs of nodes
-    for (let i = 0; i < nodes.length; i++) {
-      const nodeA = nodes[i];
-      const posA = simPositions[nodeA.id];
-      
-      for (let j = i + 1; j < nodes.length; j++) {
-        const nodeB = nodes[j];
-        const posB = simPositions[nodeB.id];
-        
-        // Calculate distance between nodes
-        const dx = posB.x - posA.x;
-        const dy = posB.y - posA.y;
-        const distance = Math.sqrt(dx * dx + dy * dy) || 0.1; // Avoid division by zero
-        
-        // Apply repulsion force (inverse square law)
-        const force = repulsionForce / (distance * distance);
-        const forceX = dx / distance * force;
-        const forceY = dy / distance * force;
-        
-        // Add to forces (opposite directions)
-        forces[nodeA.id].fx -= forceX;
-        forces[nodeA.id].fy -= forceY;
-        forces[nodeB.id].fx += forceX;
-        forces[nodeB.id].fy += forceY;
-      }
+    // Apply repulsion forces between nodes
+    if (approximation === 'barnes-hut') {
+      applyBarnesHutRepulsion(nodes, simPositions, forces, repulsionForce, theta);
+    } else {
+      applyExactRepulsion(nodes, simPositions, forces, repulsionForce);
     }
     
     // Apply attraction forces between connected nodes
@@ -190,9 +188,23 @@ export function forceLayout(
         pos.y = Math.max(padding, Math.min(height - padding, pos.y));
       }
     });
+
+    // Pull nodes back onto their constraints so forces settle around them
+    if (isConstrained) {
+      projectConstraints(simPositions, resolvedConstraints);
+    }
     
     // Cool down the system
     temperature *= coolingFactor;
+
+    if (onProgress) {
+      onProgress((i + 1) / iterations);
+    }
+  }
+
+  // Make sure constraints hold exactly in the final positions
+  if (isConstrained) {
+    projectConstraints(simPositions, resolvedConstraints, 10);
   }
 
   // Clean up extra properties before returning
@@ -203,4 +215,4 @@ export function forceLayout(
   });
 
   return finalPositions;
-} 
\ No newline at end of file
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { groupedLayout, getGroupBounds, getNodeGroup } from './grouped';
+import { layouts, registerLayout, LayoutFunction } from './registry';
+import { Node, Edge, Position } from '../types/graph';
+
+const nodes: Node[] = [
+  { id: 'a1', type: 'a' },
+  { id: 'a2', type: 'a' },
+  { id: 'b1', type: 'b' },
+  { id: 'b2', type: 'b' },
+  { id: 'loose' },
+];
+const edges: Edge[] = [
+  { id: 'e1', source: 'a1', target: 'a2' },
+  { id: 'e2', source: 'a1', target: 'b1' },
+  { id: 'e3', source: 'a2', target: 'b2' },
+  { id: 'e4', source: 'b1', target: 'loose' },
+];
+
+// Places nodes on a horizontal line, 50 apart, in input order
+const line: LayoutFunction = (lineNodes: Node[]): Record<string, Position> =>
+  Object.fromEntries(lineNodes.map((node, i) => [node.id, { x: i * 50, y: 0 }]));
+
+afterEach(() => {
+  delete layouts.line;
+  delete layouts.column;
+  vi.restoreAllMocks();
+});
+
+describe('getNodeGroup', () => {
+  it('reads top-level and dotted fields as strings', () => {
+    const node: Node = { id: 'n', type: 'service', metadata: { team: { name: 'core' }, tier: 1 } };
+
+    expect(getNodeGroup(node, 'type')).toBe('service');
+    expect(getNodeGroup(node, 'metadata.team.name')).toBe('core');
+    expect(getNodeGroup(node, 'metadata.tier')).toBe('1');
+  });
+
+  it('treats missing and empty values as ungrouped', () => {
+    expect(getNodeGroup({ id: 'n' }, 'type')).toBeUndefined();
+    expect(getNodeGroup({ id: 'n', type: '' }, 'type')).toBeUndefined();
+    expect(getNodeGroup({ id: 'n', metadata: { team: null } }, 'metadata.team.name')).toBeUndefined();
+  });
+});
+
+describe('groupedLayout', () => {
+  it('lays out each group with the inner layout and keeps its shape', () => {
+    registerLayout('line', line);
+
+    const positions = groupedLayout(nodes, edges, 800, 600, { innerLayout: 'line', outerLayout: 'grid' });
+
+    expect(positions.a2.x - positions.a1.x).toBe(50);
+    expect(positions.a2.y).toBe(positions.a1.y);
+    expect(positions.b2.x - positions.b1.x).toBe(50);
+    expect(Object.keys(positions).sort()).toEqual(['a1', 'a2', 'b1', 'b2', 'loose']);
+  });
+
+  it('passes group members, their edges and the inner options to the inner layout', () => {
+    const inner = vi.fn<Parameters<LayoutFunction>, Record<string, Position>>(line);
+    registerLayout('line', inner);
+
+    groupedLayout(nodes, edges, 800, 600, { innerLayout: 'line', innerLayoutOptions: { seed: 1 } });
+
+    // Single-node groups are placed without running the layout
+    expect(inner).toHaveBeenCalledTimes(2);
+    expect(inner.mock.calls[0][0]).toEqual([nodes[0], nodes[1]]);
+    expect(inner.mock.calls[0][1]).toEqual([edges[0]]);
+    expect(inner.mock.calls[0][4]).toEqual({ seed: 1 });
+    expect(inner.mock.calls[1][0]).toEqual([nodes[2], nodes[3]]);
+    expect(inner.mock.calls[1][1]).toEqual([]);
+  });
+
+  it('arranges groups and ungrouped nodes as super-nodes with weighted edges', () => {
+    const outer = vi.fn<Parameters<LayoutFunction>, Record<string, Position>>(line);
+    registerLayout('column', outer);
+
+    groupedLayout(nodes, edges, 800, 600, { outerLayout: 'column', outerLayoutOptions: { nodeSpacing: 10 } });
+
+    const [superNodes, superEdges, , , options] = outer.mock.calls[0];
+    // Every ungrouped node is a group of its own
+    expect(superNodes.map(node => node.id)).toEqual(['group:a', 'group:b', 'node:loose']);
+    expect(superEdges.map(edge => [edge.source, edge.target, edge.data?.weight])).toEqual([
+      ['group:a', 'group:b', 2],
+      ['group:b', 'node:loose', 1],
+    ]);
+    expect(options).toEqual({ nodeSpacing: 10 });
+  });
+
+  it('keeps group boxes apart', () => {
+    registerLayout('line', line);
+    const options = { groupBy: 'type', groupPadding: 10, nodeSize: 20, groupSpacing: 30 };
+
+    // The outer line puts groups 50 apart, far closer than their boxes allow
+    const positions = groupedLayout(nodes, edges, 800, 600, { ...options, innerLayout: 'line', outerLayout: 'line' });
+    const [a, b] = getGroupBounds(nodes, positions, options);
+
+    const apart = a.x + a.width <= b.x || b.x + b.width <= a.x
+      || a.y + a.height <= b.y || b.y + b.height <= a.y;
+    expect(apart).toBe(true);
+  });
+
+  it('falls back to force for unknown layouts and handles empty graphs', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const positions = groupedLayout(nodes, edges, 800, 600, { innerLayout: 'missing' });
+
+    expect(Object.keys(positions)).toHaveLength(5);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Unknown layout type: missing'));
+    expect(groupedLayout([], [], 800, 600)).toEqual({});
+  });
+});
+
+describe('getGroupBounds', () => {
+  it('boxes each group with padding and skips ungrouped nodes', () => {
+    const positions = {
+      a1: { x: 0, y: 0 },
+      a2: { x: 100, y: 50 },
+      b1: { x: 300, y: 300 },
+      loose: { x: 0, y: 500 },
+    };
+
+    expect(getGroupBounds(nodes, positions, { groupPadding: 10, nodeSize: 20 })).toEqual([
+      { group: 'a', nodeIds: ['a1', 'a2'], x: -20, y: -20, width: 140, height: 90 },
+      { group: 'b', nodeIds: ['b1'], x: 280, y: 280, width: 40, height: 40 },
+    ]);
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Grouped (compound) layout keeps members of a group together
+ * Nodes are first laid out within their group, then the groups are laid out
+ * as super-nodes and moved apart until their bounding boxes no longer overlap
+ */
+import { Node, Edge, Position } from '../types/graph';
+import type { LayoutType, LayoutOptions } from './registry';
+import { getLayout } from './layoutTable';
+import { removeOverlaps, NodeSize } from './overlap';
+import { getNodeField } from '../utils/graph/nodeFields';
+
+export interface GroupedLayoutOptions {
+  /** Node property used for grouping, e.g. 'type' or 'metadata.team' */
+  groupBy?: string;
+  /** Layout used within each group */
+  innerLayout?: LayoutType;
+  /** Options for the layout within each group */
+  innerLayoutOptions?: LayoutOptions;
+  /** Layout used to arrange the groups */
+  outerLayout?: LayoutType;
+  /** Options for the layout of the groups */
+  outerLayoutOptions?: LayoutOptions;
+  /** Space between the outermost nodes of a group and its bounding box */
+  groupPadding?: number;
+  /** Minimum gap between the bounding boxes of neighbouring groups */
+  groupSpacing?: number;
+  /** Space reserved around each node center */
+  nodeSize?: number;
+}
+
+/**
+ * Bounding box of a group, suitable for drawing a container behind its nodes
+ */
+export interface GroupBounds {
+  /** Value of the grouping key */
+  group: string;
+  /** IDs of the nodes in the group */
+  nodeIds: string[];
+  /** Left edge of the box */
+  x: number;
+  /** Top edge of the box */
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Read the grouping key of a node; dotted paths reach into nested objects
+ */
+export function getNodeGroup(node: Node, groupBy: string): string | undefined {
+  const value = getNodeField(node, groupBy);
+  return value === undefined || value === null || value === '' ? undefined : String(value);
+}
+
+/**
+ * Calculate node positions in a grouped layout
+ */
+export function groupedLayout(
+  nodes: Node[],
+  edges: Edge[],
+  width: number,
+  height: number,
+  options: GroupedLayoutOptions = {}
+): Record<string, Position> {
+  const {
+    groupBy = 'type',
+    innerLayout = 'force',
+    innerLayoutOptions,
+    outerLayout = 'force',
+    outerLayoutOptions,
+    groupPadding = 40,
+    groupSpacing = 80,
+    nodeSize = 100,
+  } = options;
+
+  // If there are no nodes, return an empty positioning object
+  if (!nodes.length) return {};
+
+  const inner = resolveLayout(innerLayout);
+  const outer = resolveLayout(outerLayout);
+
+  // Nodes without a group form a group of their own
+  const groupOf = new Map<string, string>();
+  const members = new Map<string, Node[]>();
+  nodes.forEach(node => {
+    const group = getNodeGroup(node, groupBy);
+    const key = group !== undefined ? `group:${group}` : `node:${node.id}`;
+    groupOf.set(node.id, key);
+    if (!members.has(key)) members.set(key, []);
+    members.get(key)!.push(node);
+  });
+
+  // Split edges into edges within a group and weighted edges between groups
+  const innerEdges = new Map<string, Edge[]>();
+  const outerEdges = new Map<string, Edge>();
+  edges.forEach(edge => {
+    const sourceGroup = groupOf.get(edge.source);
+    const targetGroup = groupOf.get(edge.target);
+    if (!sourceGroup || !targetGroup) return;
+
+    if (sourceGroup === targetGroup) {
+      if (!innerEdges.has(sourceGroup)) innerEdges.set(sourceGroup, []);
+      innerEdges.get(sourceGroup)!.push(edge);
+      return;
+    }
+
+    const key = `${sourceGroup}\u0000${targetGroup}`;
+    const existing = outerEdges.get(key);
+    if (existing) {
+      existing.data!.weight = (existing.data!.weight as number) + 1;
+    } else {
+      outerEdges.set(key, {
+        id: key,
+        source: sourceGroup,
+        target: targetGroup,
+        data: { weight: 1 },
+      });
+    }
+  });
+
+  // Lay out every group on its own, centered on the origin
+  const localPositions = new Map<string, Record<string, Position>>();
+  const groupSizes: Record<string, NodeSize> = {};
+
+  members.forEach((groupNodes, key) => {
+    // Give each group a share of the viewport proportional to its size
+    const share = Math.sqrt(groupNodes.length / nodes.length);
+    const positions = groupNodes.length === 1
+      ? { [groupNodes[0].id]: { x: 0, y: 0 } }
+      : inner(groupNodes, innerEdges.get(key) || [], width * share, height * share, innerLayoutOptions);
+
+    const bounds = measure(positions);
+    const centered: Record<string, Position> = {};
+    Object.entries(positions).forEach(([nodeId, pos]) => {
+      centered[nodeId] = {
+        x: pos.x - (bounds.minX + bounds.maxX) / 2,
+        y: pos.y - (bounds.minY + bounds.maxY) / 2,
+      };
+    });
+
+    localPositions.set(key, centered);
+    groupSizes[key] = {
+      width: bounds.maxX - bounds.minX + nodeSize + 2 * groupPadding,
+      height: bounds.maxY - bounds.minY + nodeSize + 2 * groupPadding,
+    };
+  });
+
+  // Lay out the groups as super-nodes, then separate their boxes
+  const superNodes: Node[] = Array.from(members.keys()).map(key => ({ id: key, name: key }));
+  const groupCenters = removeOverlaps(
+    outer(superNodes, Array.from(outerEdges.values()), width, height, outerLayoutOptions),
+    groupSizes,
+    { padding: groupSpacing, maxIterations: 200 }
+  );
+
+  const result: Record<string, Position> = {};
+  localPositions.forEach((positions, key) => {
+    const center = groupCenters[key] || { x: width / 2, y: height / 2 };
+    Object.entries(positions).forEach(([nodeId, pos]) => {
+      result[nodeId] = { x: center.x + pos.x, y: center.y + pos.y };
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Compute the bounding boxes of the groups in a set of positions
+ * Works with any layout; nodes without a group are skipped
+ */
+export function getGroupBounds(
+  nodes: Node[],
+  positions: Record<string, Position>,
+  options: Pick<GroupedLayoutOptions, 'groupBy' | 'groupPadding' | 'nodeSize'> = {}
+): GroupBounds[] {
+  const { groupBy = 'type', groupPadding = 40, nodeSize = 100 } = options;
+
+  const groups = new Map<string, string[]>();
+  nodes.forEach(node => {
+    const group = getNodeGroup(node, groupBy);
+    if (group === undefined || !positions[node.id]) return;
+    if (!groups.has(group)) groups.set(group, []);
+    groups.get(group)!.push(node.id);
+  });
+
+  const margin = nodeSize / 2 + groupPadding;
+  return Array.from(groups.entries()).map(([group, nodeIds]) => {
+    const bounds = measure(Object.fromEntries(nodeIds.map(id => [id, positions[id]])));
+    return {
+      group,
+      nodeIds,
+      x: bounds.minX - margin,
+      y: bounds.minY - margin,
+      width: bounds.maxX - bounds.minX + 2 * margin,
+      height: bounds.maxY - bounds.minY + 2 * margin,
+    };
+  });
+}
+
+/**
+ * Look up a registered layout, falling back to force for unknown names
+ */
+function resolveLayout(type: LayoutType) {
+  const layout = getLayout(type);
+  if (layout) return layout;
+
+  console.warn(`Unknown layout type: ${type}. Falling back to force layout.`);
+  return getLayout('force')!;
+}
+
+/**
+ * Extent of a set of positions
+ */
+function measure(positions: Record<string, Position>) {
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  Object.values(positions).forEach(pos => {
+    minX = Math.min(minX, pos.x);
+    maxX = Math.max(maxX, pos.x);
+    minY = Math.min(minY, pos.y);
+    maxY = Math.max(maxY, pos.y);
+  });
+
+  if (minX === Infinity) {
+    return { minX: 0, maxX: 0, minY: 0, maxY: 0 };
+  }
+
+  return { minX, maxX, minY, maxY };
+}
@@ -0,0 +1,40 @@
+/**
+ * Binary min-heap of [priority, value] pairs stored in a plain array
+ */
+
+/**
+ * Push a [priority, value] pair onto a binary min-heap
+ */
+export function heapPush(heap: [number, number][], item: [number, number]): void {
+  heap.push(item);
+  let index = heap.length - 1;
+  while (index > 0) {
+    const parent = (index - 1) >> 1;
+    if (heap[parent][0] <= heap[index][0]) break;
+    [heap[parent], heap[index]] = [heap[index], heap[parent]];
+    index = parent;
+  }
+}
+
+/**
+ * Remove and return the pair with the lowest priority
+ */
+export function heapPop(heap: [number, number][]): [number, number] {
+  const top = heap[0];
+  const last = heap.pop()!;
+  if (heap.length > 0) {
+    heap[0] = last;
+    let index = 0;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < heap.length && heap[left][0] < heap[smallest][0]) smallest = left;
+      if (right < heap.length && heap[right][0] < heap[smallest][0]) smallest = right;
+      if (smallest === index) break;
+      [heap[smallest], heap[index]] = [heap[index], heap[smallest]];
+      index = smallest;
+    }
+  }
+  return top;
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { incrementalLayout } from './incremental';
+import { Node, Edge, Position } from '../types/graph';
+
+const distance = (p: Position, q: Position) => Math.hypot(p.x - q.x, p.y - q.y);
+
+const previous: Record<string, Position> = {
+  a: { x: 0, y: 0 },
+  b: { x: 200, y: 0 },
+};
+
+describe('incrementalLayout', () => {
+  it('returns the previous positions when nothing changed', () => {
+    const nodes: Node[] = [{ id: 'a' }, { id: 'b' }];
+
+    expect(incrementalLayout(nodes, [], previous)).toBe(previous);
+  });
+
+  it('keeps existing positions and places new nodes next to their positioned neighbours', () => {
+    const nodes: Node[] = [{ id: 'a' }, { id: 'b' }, { id: 'c' }];
+    const edges: Edge[] = [{ id: 'e1', source: 'b', target: 'c' }];
+
+    const positions = incrementalLayout(nodes, edges, previous, { nodeSpacing: 100 });
+
+    expect(positions.a).toBe(previous.a);
+    expect(positions.b).toBe(previous.b);
+    // A leaf hangs off its parent, away from the rest of the graph
+    expect(distance(positions.c, positions.b)).toBeCloseTo(100);
+    expect(positions.c.x).toBeGreaterThan(positions.b.x);
+  });
+
+  it('places a node between several neighbours at their centroid', () => {
+    const nodes: Node[] = [{ id: 'a' }, { id: 'b' }, { id: 'c' }];
+    const edges: Edge[] = [
+      { id: 'e1', source: 'a', target: 'c' },
+      { id: 'e2', source: 'c', target: 'b' },
+    ];
+
+    const positions = incrementalLayout(nodes, edges, previous, { nodeSpacing: 100 });
+
+    expect(positions.c).toEqual({ x: 100, y: 0 });
+  });
+
+  it('keeps new nodes clear of the existing ones', () => {
+    const nodes: Node[] = [{ id: 'a' }, { id: 'b' }, { id: 'c' }, { id: 'd' }];
+
+    const positions = incrementalLayout(nodes, [], previous, { nodeSpacing: 100, minDistance: 60 });
+
+    // Unconnected nodes start to the right of the existing layout
+    expect(positions.c.x).toBeGreaterThan(200);
+    Object.keys(positions).forEach(id => {
+      Object.keys(positions).filter(other => other !== id).forEach(other => {
+        expect(distance(positions[id], positions[other])).toBeGreaterThanOrEqual(60);
+      });
+    });
+  });
+
+  it('drops the positions of deleted nodes', () => {
+    const positions = incrementalLayout([{ id: 'b' }], [], previous);
+
+    expect(positions).toEqual({ b: previous.b });
+  });
+});
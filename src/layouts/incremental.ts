@@ -0,0 +1,168 @@
+/**
+ * Incremental layout keeps the positions of existing nodes and places
+ * only the nodes that are new, next to the neighbours they connect to
+ */
+import { Node, Edge, Position } from '../types/graph';
+
+export interface IncrementalLayoutOptions {
+  /** Preferred distance between a new node and its neighbours */
+  nodeSpacing?: number;
+  /** Minimum distance kept between a new node and any other node */
+  minDistance?: number;
+  /** Maximum number of candidate spots tried when looking for free space */
+  maxAttempts?: number;
+}
+
+// Golden angle spreads successive candidates evenly around a point
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+/**
+ * Update a set of positions after the graph changed
+ * Existing nodes keep their position, deleted nodes are dropped and new
+ * nodes are placed near their already positioned neighbours.
+ * Returns `previousPositions` itself when nothing needs to change.
+ */
+export function incrementalLayout(
+  nodes: Node[],
+  edges: Edge[],
+  previousPositions: Record<string, Position>,
+  options: IncrementalLayoutOptions = {}
+): Record<string, Position> {
+  const {
+    nodeSpacing = 150,
+    minDistance = nodeSpacing * 0.6,
+    maxAttempts = 200,
+  } = options;
+
+  const positions: Record<string, Position> = {};
+  const pending = new Set<string>();
+
+  nodes.forEach(node => {
+    const previous = previousPositions[node.id];
+    if (previous) {
+      positions[node.id] = previous;
+    } else {
+      pending.add(node.id);
+    }
+  });
+
+  // Nothing added and nothing removed: keep the same object to avoid re-renders
+  const removedCount = Object.keys(previousPositions).length - Object.keys(positions).length;
+  if (pending.size === 0 && removedCount === 0) {
+    return previousPositions;
+  }
+
+  if (pending.size === 0) {
+    return positions;
+  }
+
+  // Create adjacency lists to represent graph connectivity
+  const adjacency: Record<string, string[]> = {};
+  nodes.forEach(node => {
+    adjacency[node.id] = [];
+  });
+
+  edges.forEach(edge => {
+    if (edge.source === edge.target) return;
+    if (!adjacency[edge.source] || !adjacency[edge.target]) return;
+    adjacency[edge.source].push(edge.target);
+    adjacency[edge.target].push(edge.source);
+  });
+
+  const placed = Object.values(positions);
+  let placementIndex = 0;
+
+  const isFree = (candidate: Position) => placed.every(pos => {
+    const dx = pos.x - candidate.x;
+    const dy = pos.y - candidate.y;
+    return dx * dx + dy * dy >= minDistance * minDistance;
+  });
+
+  // Search outwards from the preferred spot until a free one is found
+  const findFreeSpot = (preferred: Position): Position => {
+    if (isFree(preferred)) return preferred;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const radius = minDistance * Math.sqrt(attempt) * 0.75;
+      const angle = attempt * GOLDEN_ANGLE;
+      const candidate = {
+        x: preferred.x + radius * Math.cos(angle),
+        y: preferred.y + radius * Math.sin(angle),
+      };
+      if (isFree(candidate)) return candidate;
+    }
+
+    return preferred;
+  };
+
+  const place = (nodeId: string, position: Position) => {
+    positions[nodeId] = position;
+    placed.push(position);
+    pending.delete(nodeId);
+    placementIndex++;
+  };
+
+  const centroidOf = (points: Position[]): Position => ({
+    x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+    y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+  });
+
+  while (pending.size > 0) {
+    // Prefer the new node with the most positioned neighbours
+    let bestId: string | null = null;
+    let bestCount = 0;
+
+    for (const nodeId of pending) {
+      const count = adjacency[nodeId].filter(neighbor => positions[neighbor]).length;
+      if (count > bestCount) {
+        bestId = nodeId;
+        bestCount = count;
+      }
+    }
+
+    if (bestId === null) {
+      // No new node touches the existing layout: start next to its bounding box
+      const nodeId = pending.values().next().value as string;
+      place(nodeId, findFreeSpot(outsideBounds(placed, nodeSpacing)));
+      continue;
+    }
+
+    const nodeId = bestId;
+    const neighbors = adjacency[nodeId]
+      .filter(neighbor => positions[neighbor])
+      .map(neighbor => positions[neighbor]);
+    const anchor = centroidOf(neighbors);
+
+    // Push the node away from the rest of the graph so it grows outwards
+    const graphCenter = centroidOf(placed);
+    let angle = Math.atan2(anchor.y - graphCenter.y, anchor.x - graphCenter.x);
+    if (Math.abs(anchor.x - graphCenter.x) < 1e-6 && Math.abs(anchor.y - graphCenter.y) < 1e-6) {
+      angle = placementIndex * GOLDEN_ANGLE;
+    }
+
+    // Nodes between several neighbours sit at their centroid, leaves hang off their parent
+    const distance = neighbors.length > 1 ? 0 : nodeSpacing;
+    place(nodeId, findFreeSpot({
+      x: anchor.x + distance * Math.cos(angle),
+      y: anchor.y + distance * Math.sin(angle),
+    }));
+  }
+
+  return positions;
+}
+
+/**
+ * A spot just to the right of the bounding box of the given points
+ */
+function outsideBounds(points: Position[], spacing: number): Position {
+  if (points.length === 0) return { x: 0, y: 0 };
+
+  let maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  points.forEach(pos => {
+    maxX = Math.max(maxX, pos.x);
+    minY = Math.min(minY, pos.y);
+    maxY = Math.max(maxY, pos.y);
+  });
+
+  return { x: maxX + spacing, y: (minY + maxY) / 2 };
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { layeredLayout } from './layered';
+import { Node, Edge } from '../types/graph';
+
+const toNodes = (ids: string[]): Node[] => ids.map(id => ({ id }));
+
+const toEdges = (pairs: [string, string][]): Edge[] =>
+  pairs.map(([source, target], index) => ({ id: `e${index}`, source, target }));
+
+describe('layeredLayout', () => {
+  it('returns an empty object for an empty graph', () => {
+    expect(layeredLayout([], [], 800, 600)).toEqual({});
+  });
+
+  it('assigns DAG nodes to layers by longest path', () => {
+    const nodes = toNodes(['a', 'b', 'c', 'd']);
+    const edges = toEdges([['a', 'b'], ['b', 'c'], ['a', 'c'], ['c', 'd']]);
+
+    const positions = layeredLayout(nodes, edges, 800, 600, { layerSpacing: 100 });
+
+    // `c` sits below `b` even though `a -> c` alone would put it in layer 1
+    expect(positions.b.y - positions.a.y).toBe(100);
+    expect(positions.c.y - positions.a.y).toBe(200);
+    expect(positions.d.y - positions.a.y).toBe(300);
+  });
+
+  it('centers the layers in the viewport', () => {
+    const nodes = toNodes(['a', 'b', 'c']);
+    const edges = toEdges([['a', 'b'], ['b', 'c']]);
+
+    const positions = layeredLayout(nodes, edges, 800, 600, { layerSpacing: 100 });
+
+    expect(positions.a).toEqual({ x: 400, y: 200 });
+    expect(positions.b).toEqual({ x: 400, y: 300 });
+    expect(positions.c).toEqual({ x: 400, y: 400 });
+  });
+
+  it('follows the flow direction', () => {
+    const nodes = toNodes(['a', 'b']);
+    const edges = toEdges([['a', 'b']]);
+
+    const leftRight = layeredLayout(nodes, edges, 800, 600, { direction: 'left-right' });
+    expect(leftRight.b.x).toBeGreaterThan(leftRight.a.x);
+    expect(leftRight.b.y).toBe(leftRight.a.y);
+
+    const bottomUp = layeredLayout(nodes, edges, 800, 600, { direction: 'bottom-up' });
+    expect(bottomUp.b.y).toBeLessThan(bottomUp.a.y);
+  });
+
+  it('lays out cyclic graphs by reversing back edges', () => {
+    const nodes = toNodes(['a', 'b', 'c']);
+    const edges = toEdges([['a', 'b'], ['b', 'c'], ['c', 'a']]);
+
+    const positions = layeredLayout(nodes, edges, 800, 600, { layerSpacing: 100 });
+
+    // The back edge `c -> a` is reversed, so the cycle unrolls into three layers
+    expect(Object.keys(positions).sort()).toEqual(['a', 'b', 'c']);
+    expect(positions.b.y - positions.a.y).toBe(100);
+    expect(positions.c.y - positions.b.y).toBe(100);
+  });
+
+  it('handles two-node cycles and self-loops', () => {
+    const nodes = toNodes(['a', 'b']);
+    const edges = toEdges([['a', 'b'], ['b', 'a'], ['a', 'a']]);
+
+    const positions = layeredLayout(nodes, edges, 800, 600, { layerSpacing: 100 });
+
+    expect(positions.b.y - positions.a.y).toBe(100);
+  });
+
+  it('removes the crossing between two swapped edges', () => {
+    // Input order puts `c` before `d`, so a -> d and b -> c cross as given
+    const nodes = toNodes(['a', 'b', 'c', 'd']);
+    const edges = toEdges([['a', 'd'], ['b', 'c']]);
+
+    const positions = layeredLayout(nodes, edges, 800, 600);
+
+    const upperOrder = Math.sign(positions.a.x - positions.b.x);
+    const lowerOrder = Math.sign(positions.d.x - positions.c.x);
+    expect(upperOrder).not.toBe(0);
+    expect(lowerOrder).toBe(upperOrder);
+  });
+
+  it('keeps edges through dummy layers free of crossings on a small fixture', () => {
+    const nodes = toNodes(['r', 'a', 'b', 'x', 'y', 'z']);
+    const edges = toEdges([
+      ['r', 'a'], ['r', 'b'],
+      ['a', 'y'], ['b', 'x'],
+      ['x', 'z'], ['r', 'z'],
+    ]);
+
+    const positions = layeredLayout(nodes, edges, 800, 600, { nodeSpacing: 100 });
+
+    // a -> y and b -> x are the only edges between layers 1 and 2
+    const upperOrder = Math.sign(positions.a.x - positions.b.x);
+    const lowerOrder = Math.sign(positions.y.x - positions.x.x);
+    expect(lowerOrder).toBe(upperOrder);
+  });
+
+  it('keeps at least nodeSpacing between nodes of one layer', () => {
+    const nodes = toNodes(['r', 'a', 'b', 'c']);
+    const edges = toEdges([['r', 'a'], ['r', 'b'], ['r', 'c']]);
+
+    const positions = layeredLayout(nodes, edges, 800, 600, { nodeSpacing: 80 });
+    const xs = ['a', 'b', 'c'].map(id => positions[id].x).sort((p, q) => p - q);
+
+    expect(xs[1] - xs[0]).toBeGreaterThanOrEqual(80 - 1e-9);
+    expect(xs[2] - xs[1]).toBeGreaterThanOrEqual(80 - 1e-9);
+    // The parent is centered above its children
+    expect(positions.r.x).toBeCloseTo((xs[0] + xs[2]) / 2);
+  });
+});
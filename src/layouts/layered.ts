@@ -0,0 +1,518 @@
+/**
+ * Layered (Sugiyama-style) layout arranges directed graphs in ranks
+ * It handles shared dependencies and cycles, unlike the single-root tree layout
+ */
+import { Node, Edge, Position } from '../types/graph';
+import { TreeLayoutOptions } from './tree';
+import {
+  LayoutConstraint,
+  ResolvedConstraints,
+  resolveConstraints,
+  hasConstraints,
+  projectConstraints,
+  translateToPins,
+} from './constraints';
+
+export interface LayeredLayoutOptions {
+  /** Direction of the flow: 'top-down', 'bottom-up', 'left-right', 'right-left' */
+  direction?: TreeLayoutOptions['direction'];
+  /** Spacing between consecutive layers */
+  layerSpacing?: number;
+  /** Spacing between nodes within the same layer */
+  nodeSpacing?: number;
+  /** Number of up/down sweeps used to reduce edge crossings */
+  crossingMinimizationPasses?: number;
+  /** Number of passes used to straighten edges during coordinate assignment */
+  coordinatePasses?: number;
+  /** Pinned nodes, alignments and relative placements to respect */
+  constraints?: LayoutConstraint[];
+}
+
+// Internal representation of a vertex in the layered graph (real node or dummy)
+interface LayerVertex {
+  id: string;
+  isDummy: boolean;
+  layer: number;
+  order: number;
+  x: number;
+  upper: LayerVertex[];
+  lower: LayerVertex[];
+}
+
+/**
+ * Calculate node positions in a layered layout
+ */
+export function layeredLayout(
+  nodes: Node[],
+  edges: Edge[],
+  width: number,
+  height: number,
+  options: LayeredLayoutOptions = {}
+): Record<string, Position> {
+  const {
+    direction = 'top-down',
+    layerSpacing = 120,
+    nodeSpacing = 150,
+    crossingMinimizationPasses = 24,
+    coordinatePasses = 8,
+    constraints,
+  } = options;
+
+  // If there are no nodes, return an empty positioning object
+  if (!nodes.length) return {};
+
+  // Build outgoing adjacency, ignoring self-loops, duplicates and unknown nodes
+  const outgoing: Record<string, string[]> = {};
+  nodes.forEach(node => {
+    outgoing[node.id] = [];
+  });
+
+  const seenEdges = new Set<string>();
+  edges.forEach(edge => {
+    if (edge.source === edge.target) return;
+    if (!outgoing[edge.source] || !outgoing[edge.target]) return;
+
+    const key = `${edge.source}\u0000${edge.target}`;
+    if (seenEdges.has(key)) return;
+    seenEdges.add(key);
+
+    outgoing[edge.source].push(edge.target);
+  });
+
+  const isHorizontal = direction === 'left-right' || direction === 'right-left';
+  const isReversed = direction === 'bottom-up' || direction === 'right-left';
+
+  // Constraints along the flow become layer constraints, those across it become order constraints
+  const resolvedConstraints = resolveConstraints(nodes, constraints);
+  const layerAxis = isHorizontal ? 'x' : 'y';
+  const layerConstraints = {
+    groups: resolvedConstraints.alignments
+      .filter(alignment => alignment.axis === layerAxis)
+      .map(alignment => alignment.nodeIds),
+    // [lower, upper]: `upper` must be in a later layer than `lower`
+    orderings: resolvedConstraints.orderings
+      .filter(ordering => ordering.axis === layerAxis)
+      .map(({ before, after }): [string, string] => isReversed ? [after, before] : [before, after]),
+  };
+  const crossOrderings = resolvedConstraints.orderings
+    .filter(ordering => ordering.axis !== layerAxis)
+    .map(({ before, after }): [string, string] => [before, after]);
+
+  const acyclicEdges = removeCycles(nodes, outgoing);
+  const layers = assignLayers(nodes, acyclicEdges, layerConstraints);
+  const ranks = buildLayerGraph(nodes, acyclicEdges, layers);
+
+  minimizeCrossings(ranks, crossingMinimizationPasses);
+  enforceOrderings(ranks, crossOrderings);
+  assignCoordinates(ranks, nodeSpacing, coordinatePasses);
+
+  // Map layer/offset coordinates onto the viewport according to direction
+  const positions: Record<string, Position> = {};
+  const layerExtent = (ranks.length - 1) * layerSpacing;
+
+  let minOffset = Infinity;
+  let maxOffset = -Infinity;
+  ranks.forEach(rank => {
+    rank.forEach(vertex => {
+      minOffset = Math.min(minOffset, vertex.x);
+      maxOffset = Math.max(maxOffset, vertex.x);
+    });
+  });
+  const offsetCenter = (minOffset + maxOffset) / 2;
+
+  const mainAxisStart = isHorizontal
+    ? (width - layerExtent) / 2
+    : (height - layerExtent) / 2;
+  const crossAxisCenter = isHorizontal ? height / 2 : width / 2;
+
+  ranks.forEach((rank, layerIndex) => {
+    const layerPos = isReversed
+      ? mainAxisStart + layerExtent - layerIndex * layerSpacing
+      : mainAxisStart + layerIndex * layerSpacing;
+
+    rank.forEach(vertex => {
+      if (vertex.isDummy) return;
+
+      const crossPos = crossAxisCenter + vertex.x - offsetCenter;
+      positions[vertex.id] = isHorizontal
+        ? { x: layerPos, y: crossPos }
+        : { x: crossPos, y: layerPos };
+    });
+  });
+
+  applyRemainingConstraints(positions, resolvedConstraints);
+
+  return positions;
+}
+
+/**
+ * Move the finished layout onto its pins, then satisfy alignments and
+ * placements that could not be expressed through layers and ordering
+ */
+function applyRemainingConstraints(
+  positions: Record<string, Position>,
+  constraints: ResolvedConstraints
+): void {
+  if (!hasConstraints(constraints)) return;
+
+  translateToPins(positions, constraints.pins);
+  projectConstraints(positions, constraints, 10);
+}
+
+/**
+ * Break cycles by reversing DFS back edges so the graph becomes acyclic
+ * Returns the acyclic edge list as [source, target] pairs
+ */
+function removeCycles(
+  nodes: Node[],
+  outgoing: Record<string, string[]>
+): [string, string][] {
+  const state: Record<string, 'visiting' | 'done'> = {};
+  const result: [string, string][] = [];
+
+  nodes.forEach(node => {
+    if (state[node.id]) return;
+
+    // Iterative DFS to avoid stack overflows on long chains
+    const stack: { id: string; next: number }[] = [{ id: node.id, next: 0 }];
+    state[node.id] = 'visiting';
+
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const targets = outgoing[frame.id];
+
+      if (frame.next >= targets.length) {
+        state[frame.id] = 'done';
+        stack.pop();
+        continue;
+      }
+
+      const target = targets[frame.next++];
+
+      if (state[target] === 'visiting') {
+        // Back edge: reverse it temporarily
+        result.push([target, frame.id]);
+      } else {
+        result.push([frame.id, target]);
+        if (!state[target]) {
+          state[target] = 'visiting';
+          stack.push({ id: target, next: 0 });
+        }
+      }
+    }
+  });
+
+  // Reversing can create duplicates of existing edges, drop them
+  const seen = new Set<string>();
+  return result.filter(([source, target]) => {
+    const key = `${source}\u0000${target}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Assign each node to a layer using the longest path from the sources
+ */
+function assignLayers(
+  nodes: Node[],
+  acyclicEdges: [string, string][],
+  constraints: { groups: string[][]; orderings: [string, string][] } = { groups: [], orderings: [] }
+): Record<string, number> {
+  const successors: Record<string, string[]> = {};
+  const inDegree: Record<string, number> = {};
+
+  nodes.forEach(node => {
+    successors[node.id] = [];
+    inDegree[node.id] = 0;
+  });
+
+  acyclicEdges.forEach(([source, target]) => {
+    successors[source].push(target);
+    inDegree[target]++;
+  });
+
+  // Topological traversal (Kahn) propagating the longest distance
+  const layers: Record<string, number> = {};
+  const queue: string[] = [];
+
+  nodes.forEach(node => {
+    layers[node.id] = 0;
+    if (inDegree[node.id] === 0) queue.push(node.id);
+  });
+
+  for (let head = 0; head < queue.length; head++) {
+    const current = queue[head];
+    successors[current].forEach(target => {
+      layers[target] = Math.max(layers[target], layers[current] + 1);
+      inDegree[target]--;
+      if (inDegree[target] === 0) queue.push(target);
+    });
+  }
+
+  if (constraints.groups.length === 0 && constraints.orderings.length === 0) {
+    return layers;
+  }
+
+  // Push nodes down until aligned groups share a layer, ordered pairs are in
+  // the requested order and every edge still points downwards. Contradicting
+  // constraints cannot all be met, so the number of rounds is bounded.
+  for (let round = 0; round <= nodes.length; round++) {
+    let changed = false;
+    const raise = (id: string, layer: number) => {
+      if (layers[id] < layer) {
+        layers[id] = layer;
+        changed = true;
+      }
+    };
+
+    constraints.groups.forEach(group => {
+      const layer = Math.max(...group.map(id => layers[id]));
+      group.forEach(id => raise(id, layer));
+    });
+
+    constraints.orderings.forEach(([lower, upper]) => {
+      raise(upper, layers[lower] + 1);
+    });
+
+    // Queue holds the topological order, so one sweep propagates all the way down
+    queue.forEach(current => {
+      successors[current].forEach(target => raise(target, layers[current] + 1));
+    });
+
+    if (!changed) break;
+  }
+
+  return layers;
+}
+
+/**
+ * Group vertices by layer and split long edges with dummy vertices
+ */
+function buildLayerGraph(
+  nodes: Node[],
+  acyclicEdges: [string, string][],
+  layers: Record<string, number>
+): LayerVertex[][] {
+  const ranks: LayerVertex[][] = [];
+  const vertices: Record<string, LayerVertex> = {};
+
+  const addVertex = (id: string, layer: number, isDummy: boolean): LayerVertex => {
+    const vertex: LayerVertex = { id, isDummy, layer, order: 0, x: 0, upper: [], lower: [] };
+    if (!ranks[layer]) ranks[layer] = [];
+    vertex.order = ranks[layer].length;
+    ranks[layer].push(vertex);
+    vertices[id] = vertex;
+    return vertex;
+  };
+
+  nodes.forEach(node => {
+    addVertex(node.id, layers[node.id], false);
+  });
+
+  acyclicEdges.forEach(([source, target], index) => {
+    let previous = vertices[source];
+    const targetVertex = vertices[target];
+
+    for (let layer = previous.layer + 1; layer < targetVertex.layer; layer++) {
+      const dummy = addVertex(`__dummy_${index}_${layer}`, layer, true);
+      previous.lower.push(dummy);
+      dummy.upper.push(previous);
+      previous = dummy;
+    }
+
+    previous.lower.push(targetVertex);
+    targetVertex.upper.push(previous);
+  });
+
+  // Layers are contiguous by construction, but guard against sparse arrays
+  return ranks.filter(rank => rank !== undefined);
+}
+
+/**
+ * Count crossings between two adjacent layers
+ */
+function countCrossings(upperRank: LayerVertex[]): number {
+  const segments: [number, number][] = [];
+  upperRank.forEach(vertex => {
+    vertex.lower.forEach(target => {
+      segments.push([vertex.order, target.order]);
+    });
+  });
+
+  let crossings = 0;
+  for (let i = 0; i < segments.length; i++) {
+    for (let j = i + 1; j < segments.length; j++) {
+      const [a1, b1] = segments[i];
+      const [a2, b2] = segments[j];
+      if ((a1 - a2) * (b1 - b2) < 0) crossings++;
+    }
+  }
+  return crossings;
+}
+
+function totalCrossings(ranks: LayerVertex[][]): number {
+  let total = 0;
+  for (let i = 0; i < ranks.length - 1; i++) {
+    total += countCrossings(ranks[i]);
+  }
+  return total;
+}
+
+/**
+ * Reorder vertices within layers using the barycenter heuristic,
+ * keeping the best ordering found across all sweeps
+ */
+function minimizeCrossings(ranks: LayerVertex[][], passes: number): void {
+  const snapshot = () => ranks.map(rank => rank.slice());
+  const restore = (saved: LayerVertex[][]) => {
+    saved.forEach((rank, i) => {
+      ranks[i] = rank;
+      rank.forEach((vertex, order) => {
+        vertex.order = order;
+      });
+    });
+  };
+
+  let best = snapshot();
+  let bestCrossings = totalCrossings(ranks);
+
+  for (let pass = 0; pass < passes && bestCrossings > 0; pass++) {
+    const downward = pass % 2 === 0;
+
+    if (downward) {
+      for (let i = 1; i < ranks.length; i++) {
+        reorderByBarycenter(ranks[i], vertex => vertex.upper);
+      }
+    } else {
+      for (let i = ranks.length - 2; i >= 0; i--) {
+        reorderByBarycenter(ranks[i], vertex => vertex.lower);
+      }
+    }
+
+    const crossings = totalCrossings(ranks);
+    if (crossings < bestCrossings) {
+      bestCrossings = crossings;
+      best = snapshot();
+    }
+  }
+
+  restore(best);
+}
+
+function reorderByBarycenter(
+  rank: LayerVertex[],
+  neighbors: (vertex: LayerVertex) => LayerVertex[]
+): void {
+  const barycenters = new Map<LayerVertex, number>();
+
+  rank.forEach(vertex => {
+    const adjacent = neighbors(vertex);
+    // Vertices without neighbours keep their current position
+    const value = adjacent.length > 0
+      ? adjacent.reduce((sum, n) => sum + n.order, 0) / adjacent.length
+      : vertex.order;
+    barycenters.set(vertex, value);
+  });
+
+  // Stable sort so ties keep their previous relative order
+  rank.sort((a, b) => (barycenters.get(a)! - barycenters.get(b)!) || (a.order - b.order));
+  rank.forEach((vertex, order) => {
+    vertex.order = order;
+  });
+}
+
+/**
+ * Reorder layers so that `before` precedes `after` when both share a layer
+ */
+function enforceOrderings(ranks: LayerVertex[][], orderings: [string, string][]): void {
+  if (orderings.length === 0) return;
+
+  const rankOf = new Map<string, LayerVertex[]>();
+  ranks.forEach(rank => {
+    rank.forEach(vertex => rankOf.set(vertex.id, rank));
+  });
+
+  // Each fix can break an earlier one, so repeat a bounded number of times
+  for (let round = 0; round < orderings.length; round++) {
+    let changed = false;
+
+    orderings.forEach(([before, after]) => {
+      const rank = rankOf.get(before);
+      if (!rank || rank !== rankOf.get(after)) return;
+
+      const beforeIndex = rank.findIndex(vertex => vertex.id === before);
+      const afterIndex = rank.findIndex(vertex => vertex.id === after);
+      if (beforeIndex < afterIndex) return;
+
+      // Move `before` directly in front of `after`
+      const [vertex] = rank.splice(beforeIndex, 1);
+      rank.splice(afterIndex, 0, vertex);
+      rank.forEach((v, order) => {
+        v.order = order;
+      });
+      changed = true;
+    });
+
+    if (!changed) break;
+  }
+}
+
+/**
+ * Assign offsets within each layer, pulling vertices towards the average of
+ * their neighbours while preserving order and minimum spacing
+ */
+function assignCoordinates(ranks: LayerVertex[][], spacing: number, passes: number): void {
+  ranks.forEach(rank => {
+    rank.forEach((vertex, index) => {
+      vertex.x = index * spacing;
+    });
+  });
+
+  for (let pass = 0; pass < passes; pass++) {
+    const downward = pass % 2 === 0;
+    const order = downward
+      ? ranks.map((_, i) => i)
+      : ranks.map((_, i) => ranks.length - 1 - i);
+
+    order.forEach(layerIndex => {
+      const rank = ranks[layerIndex];
+      const desired = rank.map(vertex => {
+        const adjacent = downward
+          ? vertex.upper
+          : vertex.lower;
+        const all = adjacent.length > 0 ? adjacent : [...vertex.upper, ...vertex.lower];
+        if (all.length === 0) return vertex.x;
+        return all.reduce((sum, n) => sum + n.x, 0) / all.length;
+      });
+
+      packLayer(rank, desired, spacing);
+    });
+  }
+}
+
+/**
+ * Place vertices as close as possible to their desired offsets while keeping
+ * at least `spacing` between neighbours
+ */
+function packLayer(rank: LayerVertex[], desired: number[], spacing: number): void {
+  if (rank.length === 0) return;
+
+  // Left-to-right pass enforces the minimum separation
+  const forward = desired.slice();
+  for (let i = 1; i < forward.length; i++) {
+    forward[i] = Math.max(forward[i], forward[i - 1] + spacing);
+  }
+
+  // Right-to-left pass does the same from the other side
+  const backward = desired.slice();
+  for (let i = backward.length - 2; i >= 0; i--) {
+    backward[i] = Math.min(backward[i], backward[i + 1] - spacing);
+  }
+
+  // Averaging both keeps separation and balances the displacement
+  rank.forEach((vertex, i) => {
+    vertex.x = (forward[i] + backward[i]) / 2;
+  });
+}
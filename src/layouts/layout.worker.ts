@@ -0,0 +1,54 @@
+/**
+ * Web Worker entry point that runs layout algorithms off the main thread
+ */
+import { Node, Edge, Position } from '../types/graph';
+import { createLayout, LayoutFactoryOptions } from './factory';
+
+/**
+ * Message sent from the main thread to start a layout
+ */
+export interface LayoutWorkerRequest {
+  /** Nodes to lay out */
+  nodes: Node[];
+  /** Edges between the nodes */
+  edges: Edge[];
+  /** Layout type, options and viewport size */
+  options: LayoutFactoryOptions;
+}
+
+/**
+ * Messages sent from the worker back to the main thread
+ */
+export type LayoutWorkerResponse =
+  | { type: 'progress'; progress: number }
+  | { type: 'result'; positions: Record<string, Position> }
+  | { type: 'error'; message: string };
+
+// The DOM lib types `self` as Window, so narrow it to the worker API we use
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<LayoutWorkerRequest>) => void) | null;
+  postMessage: (message: LayoutWorkerResponse) => void;
+};
+
+workerScope.onmessage = (event) => {
+  const { nodes, edges, options } = event.data;
+
+  try {
+    const positions = createLayout(nodes, edges, {
+      ...options,
+      layoutOptions: {
+        ...options.layoutOptions,
+        onProgress: (progress: number) => {
+          workerScope.postMessage({ type: 'progress', progress });
+        },
+      },
+    });
+
+    workerScope.postMessage({ type: 'result', positions });
+  } catch (e) {
+    workerScope.postMessage({
+      type: 'error',
+      message: e instanceof Error ? e.message : String(e),
+    });
+  }
+};
@@ -0,0 +1,17 @@
+/**
+ * Table of registered layouts, looked up by name at call time
+ * Kept apart from the registry so that layouts running other layouts
+ * (grouped, preset, auto) can look them up without importing the registry,
+ * which imports them in turn. The registry fills the table when it loads.
+ */
+import type { LayoutFunction, LayoutType } from './registry';
+
+// Layouts by name, built-in ones included
+export const layoutTable: Record<string, LayoutFunction> = {};
+
+/**
+ * Get the layout function registered under the given name
+ */
+export function getLayout(name: LayoutType): LayoutFunction | undefined {
+  return Object.prototype.hasOwnProperty.call(layoutTable, name) ? layoutTable[name] : undefined;
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { computeLayoutMetrics } from './metrics';
+import { Node, Edge, Position } from '../types/graph';
+
+const toNodes = (ids: string[]): Node[] => ids.map(id => ({ id }));
+
+const toEdges = (pairs: [string, string][]): Edge[] =>
+  pairs.map(([source, target], index) => ({ id: `e${index}`, source, target }));
+
+const small = { defaultSize: { width: 10, height: 10 } };
+
+describe('computeLayoutMetrics', () => {
+  it('counts the crossings of a square with both diagonals once', () => {
+    const nodes = toNodes(['a', 'b', 'c', 'd']);
+    const positions = { a: { x: 0, y: 0 }, b: { x: 100, y: 0 }, c: { x: 100, y: 100 }, d: { x: 0, y: 100 } };
+    const edges = toEdges([['a', 'b'], ['b', 'c'], ['c', 'd'], ['d', 'a'], ['a', 'c'], ['b', 'd']]);
+
+    expect(computeLayoutMetrics(nodes, edges, positions, small).edgeCrossings).toBe(1);
+  });
+
+  it('counts every crossing of a grid of lines', () => {
+    // Three horizontal and three vertical edges cross nine times
+    const positions: Record<string, Position> = {};
+    const pairs: [string, string][] = [];
+    [1, 2, 3].forEach(i => {
+      positions[`h${i}s`] = { x: 0, y: i * 100 };
+      positions[`h${i}t`] = { x: 400, y: i * 100 };
+      positions[`v${i}s`] = { x: i * 100, y: 0 };
+      positions[`v${i}t`] = { x: i * 100, y: 400 };
+      pairs.push([`h${i}s`, `h${i}t`], [`v${i}s`, `v${i}t`]);
+    });
+
+    const metrics = computeLayoutMetrics(toNodes(Object.keys(positions)), toEdges(pairs), positions, small);
+
+    expect(metrics.edgeCrossings).toBe(9);
+  });
+
+  it('ignores edges that share a node and self-loops', () => {
+    const nodes = toNodes(['a', 'b', 'c', 'd', 'e']);
+    const positions = {
+      a: { x: 0, y: 0 },
+      b: { x: 100, y: 100 },
+      c: { x: 100, y: 0 },
+      d: { x: 0, y: 100 },
+      e: { x: 50, y: 200 },
+    };
+    // Every pair of edges shares a node; the loop and the dangling edge are dropped
+    const edges = toEdges([['a', 'b'], ['a', 'c'], ['b', 'e'], ['d', 'd'], ['b', 'missing']]);
+
+    expect(computeLayoutMetrics(nodes, edges, positions, small).edgeCrossings).toBe(0);
+  });
+
+  it('does not count segments that only touch', () => {
+    const nodes = toNodes(['a', 'b', 'c', 'd']);
+    // c-d ends on the middle of a-b
+    const positions = { a: { x: 0, y: 0 }, b: { x: 200, y: 0 }, c: { x: 100, y: 100 }, d: { x: 100, y: 0 } };
+
+    expect(computeLayoutMetrics(nodes, toEdges([['a', 'b'], ['c', 'd']]), positions, small).edgeCrossings).toBe(0);
+  });
+
+  it('counts overlapping node boxes', () => {
+    const nodes = toNodes(['a', 'b', 'c', 'd']);
+    const positions = {
+      a: { x: 0, y: 0 },
+      b: { x: 50, y: 50 },
+      c: { x: 90, y: 0 },
+      d: { x: 300, y: 300 },
+    };
+
+    // Boxes are 100 wide: a overlaps b and c, b overlaps c, d is alone
+    expect(computeLayoutMetrics(nodes, [], positions).nodeOverlaps).toBe(3);
+    // Boxes that only touch do not overlap
+    expect(computeLayoutMetrics(nodes, [], positions, { defaultSize: { width: 50, height: 50 } }).nodeOverlaps)
+      .toBe(0);
+    expect(computeLayoutMetrics(nodes, [], positions, { nodeSizes: { d: { width: 600, height: 600 } } }).nodeOverlaps)
+      .toBe(6);
+  });
+
+  it('measures edge lengths, angles and the aspect ratio', () => {
+    const nodes = toNodes(['a', 'b', 'c']);
+    const positions = { a: { x: 0, y: 0 }, b: { x: 100, y: 0 }, c: { x: 0, y: 300 } };
+    const edges = toEdges([['a', 'b'], ['a', 'c']]);
+
+    const metrics = computeLayoutMetrics(nodes, edges, positions, { defaultSize: { width: 0, height: 0 } });
+
+    expect(metrics.meanEdgeLength).toBe(200);
+    // Lengths 100 and 300: variance 10000 over the squared mean 40000
+    expect(metrics.edgeLengthVariance).toBeCloseTo(0.25);
+    expect(metrics.angularResolution).toBeCloseTo(Math.PI / 2);
+    expect(metrics.aspectRatio).toBeCloseTo(100 / 300);
+  });
+
+  it('handles graphs without edges or positions', () => {
+    const metrics = computeLayoutMetrics(toNodes(['a']), [], {});
+
+    expect(metrics).toEqual({
+      edgeCrossings: 0,
+      nodeOverlaps: 0,
+      meanEdgeLength: 0,
+      edgeLengthVariance: 0,
+      angularResolution: 2 * Math.PI,
+      aspectRatio: 1,
+    });
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Layout quality metrics for comparing layouts of the same graph
+ * Metrics are computed from final positions, so they work with any layout
+ */
+import { Node, Edge, Position } from '../types/graph';
+import { NodeSize } from './overlap';
+
+export interface LayoutMetrics {
+  /** Number of pairs of edges that cross (edges sharing a node never count) */
+  edgeCrossings: number;
+  /** Number of pairs of nodes whose boxes overlap */
+  nodeOverlaps: number;
+  /** Mean length of the edges */
+  meanEdgeLength: number;
+  /** Variance of the edge lengths divided by the squared mean, so layouts of any size compare */
+  edgeLengthVariance: number;
+  /** Smallest angle between two edges at the same node in radians (2π when no node has two edges) */
+  angularResolution: number;
+  /** Width divided by height of the bounding box of all node boxes */
+  aspectRatio: number;
+}
+
+export interface LayoutMetricsOptions {
+  /** Measured node sizes, used for overlaps and the bounding box */
+  nodeSizes?: Record<string, NodeSize>;
+  /** Size used for nodes that have not been measured */
+  defaultSize?: NodeSize;
+}
+
+/**
+ * Compute quality metrics of a set of positions
+ * Nodes and edges without positions are ignored
+ */
+export function computeLayoutMetrics(
+  nodes: Node[],
+  edges: Edge[],
+  positions: Record<string, Position>,
+  options: LayoutMetricsOptions = {}
+): LayoutMetrics {
+  const { nodeSizes = {}, defaultSize = { width: 100, height: 100 } } = options;
+
+  const placedNodes = nodes.filter(node => positions[node.id]);
+  const placedEdges = edges.filter(edge =>
+    edge.source !== edge.target && positions[edge.source] && positions[edge.target]
+  );
+
+  return {
+    edgeCrossings: countCrossings(placedEdges, positions),
+    nodeOverlaps: countOverlaps(placedNodes, positions, nodeSizes, defaultSize),
+    ...edgeLengthStatistics(placedEdges, positions),
+    angularResolution: minimumAngle(placedEdges, positions),
+    aspectRatio: boundingAspectRatio(placedNodes, positions, nodeSizes, defaultSize),
+  };
+}
+
+/**
+ * Count pairs of edges whose segments properly intersect
+ */
+function countCrossings(edges: Edge[], positions: Record<string, Position>): number {
+  const segments = edges.map(edge => {
+    const a = positions[edge.source];
+    const b = positions[edge.target];
+    return {
+      edge,
+      a,
+      b,
+      minX: Math.min(a.x, b.x),
+      maxX: Math.max(a.x, b.x),
+      minY: Math.min(a.y, b.y),
+      maxY: Math.max(a.y, b.y),
+    };
+  });
+
+  // Sweep along x so only segments with overlapping x-ranges are compared
+  segments.sort((s, t) => s.minX - t.minX);
+
+  let crossings = 0;
+  for (let i = 0; i < segments.length; i++) {
+    const s = segments[i];
+    for (let j = i + 1; j < segments.length && segments[j].minX <= s.maxX; j++) {
+      const t = segments[j];
+      if (t.minY > s.maxY || t.maxY < s.minY) continue;
+
+      const { source, target } = s.edge;
+      if (source === t.edge.source || source === t.edge.target
+        || target === t.edge.source || target === t.edge.target) continue;
+
+      if (segmentsCross(s.a, s.b, t.a, t.b)) crossings++;
+    }
+  }
+
+  return crossings;
+}
+
+/**
+ * Whether segments ab and cd cross at a single interior point
+ */
+function segmentsCross(a: Position, b: Position, c: Position, d: Position): boolean {
+  const orient = (p: Position, q: Position, r: Position) =>
+    Math.sign((q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x));
+
+  const o1 = orient(a, b, c);
+  const o2 = orient(a, b, d);
+  const o3 = orient(c, d, a);
+  const o4 = orient(c, d, b);
+
+  return o1 * o2 < 0 && o3 * o4 < 0;
+}
+
+/**
+ * Count pairs of nodes whose boxes overlap
+ */
+function countOverlaps(
+  nodes: Node[],
+  positions: Record<string, Position>,
+  nodeSizes: Record<string, NodeSize>,
+  defaultSize: NodeSize
+): number {
+  const boxes = nodes.map(node => {
+    const pos = positions[node.id];
+    const size = nodeSizes[node.id] || defaultSize;
+    return {
+      minX: pos.x - size.width / 2,
+      maxX: pos.x + size.width / 2,
+      minY: pos.y - size.height / 2,
+      maxY: pos.y + size.height / 2,
+    };
+  });
+
+  boxes.sort((a, b) => a.minX - b.minX);
+
+  let overlaps = 0;
+  for (let i = 0; i < boxes.length; i++) {
+    const a = boxes[i];
+    for (let j = i + 1; j < boxes.length && boxes[j].minX < a.maxX; j++) {
+      const b = boxes[j];
+      if (b.minY < a.maxY && a.minY < b.maxY) overlaps++;
+    }
+  }
+
+  return overlaps;
+}
+
+/**
+ * Mean edge length and its normalized variance
+ */
+function edgeLengthStatistics(
+  edges: Edge[],
+  positions: Record<string, Position>
+): { meanEdgeLength: number; edgeLengthVariance: number } {
+  if (edges.length === 0) return { meanEdgeLength: 0, edgeLengthVariance: 0 };
+
+  const lengths = edges.map(edge => {
+    const a = positions[edge.source];
+    const b = positions[edge.target];
+    return Math.hypot(b.x - a.x, b.y - a.y);
+  });
+
+  const mean = lengths.reduce((sum, length) => sum + length, 0) / lengths.length;
+  if (mean === 0) return { meanEdgeLength: 0, edgeLengthVariance: 0 };
+
+  const variance = lengths.reduce((sum, length) => sum + (length - mean) ** 2, 0) / lengths.length;
+  return { meanEdgeLength: mean, edgeLengthVariance: variance / (mean * mean) };
+}
+
+/**
+ * Smallest angle between edges leaving the same node
+ */
+function minimumAngle(edges: Edge[], positions: Record<string, Position>): number {
+  const angles = new Map<string, number[]>();
+  const addAngle = (from: string, to: string) => {
+    const a = positions[from];
+    const b = positions[to];
+    if (a.x === b.x && a.y === b.y) return;
+    if (!angles.has(from)) angles.set(from, []);
+    angles.get(from)!.push(Math.atan2(b.y - a.y, b.x - a.x));
+  };
+
+  edges.forEach(edge => {
+    addAngle(edge.source, edge.target);
+    addAngle(edge.target, edge.source);
+  });
+
+  let minimum = 2 * Math.PI;
+  angles.forEach(list => {
+    if (list.length < 2) return;
+    list.sort((a, b) => a - b);
+    for (let i = 0; i < list.length; i++) {
+      const next = i + 1 < list.length ? list[i + 1] : list[0] + 2 * Math.PI;
+      minimum = Math.min(minimum, next - list[i]);
+    }
+  });
+
+  return minimum;
+}
+
+/**
+ * Width over height of the bounding box of the node boxes
+ */
+function boundingAspectRatio(
+  nodes: Node[],
+  positions: Record<string, Position>,
+  nodeSizes: Record<string, NodeSize>,
+  defaultSize: NodeSize
+): number {
+  if (nodes.length === 0) return 1;
+
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  nodes.forEach(node => {
+    const pos = positions[node.id];
+    const size = nodeSizes[node.id] || defaultSize;
+    minX = Math.min(minX, pos.x - size.width / 2);
+    maxX = Math.max(maxX, pos.x + size.width / 2);
+    minY = Math.min(minY, pos.y - size.height / 2);
+    maxY = Math.max(maxY, pos.y + size.height / 2);
+  });
+
+  const height = maxY - minY;
+  return height > 0 ? (maxX - minX) / height : 1;
+}
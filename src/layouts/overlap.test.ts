@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { removeOverlaps, NodeSize } from './overlap';
+import { Position } from '../types/graph';
+
+const square: NodeSize = { width: 100, height: 100 };
+const sizes: Record<string, NodeSize> = { a: square, b: square, c: square };
+
+describe('removeOverlaps', () => {
+  it('separates along the axis of least penetration, half each', () => {
+    // 20 apart along x but only 10 along y: the y overlap is larger
+    const positions = removeOverlaps({ a: { x: 0, y: 0 }, b: { x: 20, y: 10 } }, sizes, { padding: 0 });
+
+    expect(positions).toEqual({ a: { x: -40, y: 0 }, b: { x: 60, y: 10 } });
+  });
+
+  it('separates vertically when that is the smaller move', () => {
+    const positions = removeOverlaps({ a: { x: 0, y: 0 }, b: { x: 10, y: 80 } }, sizes, { padding: 10 });
+
+    expect(positions).toEqual({ a: { x: 0, y: -15 }, b: { x: 10, y: 95 } });
+  });
+
+  it('returns the same object when nothing overlaps', () => {
+    const positions: Record<string, Position> = { a: { x: 0, y: 0 }, b: { x: 200, y: 0 }, c: { x: 0, y: 200 } };
+
+    expect(removeOverlaps(positions, sizes)).toBe(positions);
+  });
+
+  it('ignores unmeasured nodes unless a default size is given', () => {
+    const positions: Record<string, Position> = { a: { x: 0, y: 0 }, d: { x: 10, y: 0 } };
+
+    expect(removeOverlaps(positions, sizes)).toBe(positions);
+    const separated = removeOverlaps(positions, sizes, { defaultSize: square, padding: 0 });
+    expect(separated.d.x - separated.a.x).toBe(100);
+  });
+
+  it('keeps pinned nodes where they are', () => {
+    const positions: Record<string, Position> = { a: { x: 0, y: 0 }, b: { x: 20, y: 0 }, c: { x: 40, y: 0 } };
+
+    const separated = removeOverlaps(positions, sizes, { padding: 0, pinned: ['b'] });
+
+    expect(separated.b).toEqual({ x: 20, y: 0 });
+    expect(Math.abs(separated.a.x - separated.b.x)).toBeGreaterThanOrEqual(100);
+    expect(Math.abs(separated.c.x - separated.b.x)).toBeGreaterThanOrEqual(100);
+    expect(Math.abs(separated.c.x - separated.a.x)).toBeGreaterThanOrEqual(100);
+  });
+
+  it('leaves two overlapping pinned nodes alone', () => {
+    const positions: Record<string, Position> = { a: { x: 0, y: 0 }, b: { x: 20, y: 0 } };
+
+    expect(removeOverlaps(positions, sizes, { pinned: new Set(['a', 'b']) })).toBe(positions);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Overlap removal pushes node rectangles apart after a layout has run
+ * Layouts treat nodes as points; this pass accounts for their measured sizes
+ */
+import { Position } from '../types/graph';
+
+export interface NodeSize {
+  /** Width of the node in graph units */
+  width: number;
+  /** Height of the node in graph units */
+  height: number;
+}
+
+export interface OverlapRemovalOptions {
+  /** Minimum gap kept between node rectangles */
+  padding?: number;
+  /** Maximum number of separation passes */
+  maxIterations?: number;
+  /** Size used for nodes that have not been measured (they are ignored if not set) */
+  defaultSize?: NodeSize;
+  /** Nodes that keep their position; the nodes overlapping them move the whole way */
+  pinned?: string[] | Set<string>;
+}
+
+// Internal rectangle used during separation
+interface Box {
+  id: string;
+  x: number;
+  y: number;
+  halfWidth: number;
+  halfHeight: number;
+  pinned: boolean;
+}
+
+/**
+ * Push overlapping node rectangles apart with minimal displacement
+ * Positions are node centers. Each overlapping pair is separated along the
+ * axis that needs the smallest move, sharing the move between both nodes.
+ * Pinned nodes do not move, and two overlapping pinned nodes are left as they are.
+ * Returns `positions` itself when no node had to move.
+ */
+export function removeOverlaps(
+  positions: Record<string, Position>,
+  nodeSizes: Record<string, NodeSize>,
+  options: OverlapRemovalOptions = {}
+): Record<string, Position> {
+  const {
+    padding = 10,
+    maxIterations = 50,
+    defaultSize,
+  } = options;
+
+  const pinnedIds = new Set(options.pinned);
+
+  const boxes: Box[] = [];
+  Object.entries(positions).forEach(([id, pos]) => {
+    const size = nodeSizes[id] || defaultSize;
+    if (!size) return;
+    boxes.push({
+      id,
+      x: pos.x,
+      y: pos.y,
+      halfWidth: (size.width + padding) / 2,
+      halfHeight: (size.height + padding) / 2,
+      pinned: pinnedIds.has(id),
+    });
+  });
+
+  if (boxes.length < 2) return positions;
+
+  let moved = false;
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let overlapFound = false;
+
+    // Sweep along x so only boxes with overlapping x-intervals are compared
+    boxes.sort((a, b) => (a.x - a.halfWidth) - (b.x - b.halfWidth));
+
+    for (let i = 0; i < boxes.length; i++) {
+      const a = boxes[i];
+
+      for (let j = i + 1; j < boxes.length; j++) {
+        const b = boxes[j];
+
+        // Sorted by left edge: once b starts after a ends, no later box can overlap a
+        if (b.x - b.halfWidth >= a.x + a.halfWidth) break;
+
+        const dx = b.x - a.x;
+        const dy = b.y - a.y;
+        const overlapX = a.halfWidth + b.halfWidth - Math.abs(dx);
+        const overlapY = a.halfHeight + b.halfHeight - Math.abs(dy);
+
+        if (overlapX <= 0 || overlapY <= 0) continue;
+        if (a.pinned && b.pinned) continue;
+
+        overlapFound = true;
+
+        // Move along the axis of least penetration, half each unless one is pinned
+        const shareA = a.pinned ? 0 : b.pinned ? 1 : 0.5;
+        const shareB = 1 - shareA;
+        if (overlapX < overlapY) {
+          const direction = dx !== 0 ? Math.sign(dx) : (a.id < b.id ? 1 : -1);
+          a.x -= overlapX * shareA * direction;
+          b.x += overlapX * shareB * direction;
+        } else {
+          const direction = dy !== 0 ? Math.sign(dy) : (a.id < b.id ? 1 : -1);
+          a.y -= overlapY * shareA * direction;
+          b.y += overlapY * shareB * direction;
+        }
+      }
+    }
+
+    if (!overlapFound) break;
+    moved = true;
+  }
+
+  if (!moved) return positions;
+
+  const result: Record<string, Position> = { ...positions };
+  boxes.forEach(box => {
+    result[box.id] = { x: box.x, y: box.y };
+  });
+
+  return result;
+}
@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import { packComponents, findConnectedComponents } from './packing';
+import { layouts } from './registry';
+import { createLayout } from './factory';
+import { Node, Edge, Position } from '../types/graph';
+
+const toNodes = (ids: string[]): Node[] => ids.map(id => ({ id }));
+
+const toEdges = (pairs: [string, string][]): Edge[] =>
+  pairs.map(([source, target], index) => ({ id: `e${index}`, source, target }));
+
+/**
+ * Box around the node centers of a component, grown by half a node on each side
+ */
+function boxOf(ids: string[], positions: Record<string, Position>, nodeSize: number) {
+  const xs = ids.map(id => positions[id].x);
+  const ys = ids.map(id => positions[id].y);
+  return {
+    minX: Math.min(...xs) - nodeSize / 2,
+    maxX: Math.max(...xs) + nodeSize / 2,
+    minY: Math.min(...ys) - nodeSize / 2,
+    maxY: Math.max(...ys) + nodeSize / 2,
+  };
+}
+
+describe('findConnectedComponents', () => {
+  it('splits a graph into components, largest first', () => {
+    const nodes = toNodes(['a', 'b', 'c', 'd', 'e', 'f']);
+    const edges = toEdges([['a', 'b'], ['c', 'd'], ['d', 'e'], ['e', 'missing']]);
+
+    const components = findConnectedComponents(nodes, edges);
+
+    expect(components.map(component => component.nodes.map(node => node.id))).toEqual([
+      ['c', 'd', 'e'],
+      ['a', 'b'],
+      ['f'],
+    ]);
+    expect(components[0].edges.map(edge => edge.id)).toEqual(['e1', 'e2']);
+    expect(components[2].edges).toEqual([]);
+  });
+});
+
+describe('packComponents', () => {
+  it('leaves a single-component graph unchanged', () => {
+    const nodes = toNodes(['a', 'b', 'c', 'd']);
+    const edges = toEdges([['a', 'b'], ['b', 'c'], ['c', 'd']]);
+
+    const packed = packComponents(nodes, edges, 800, 600, layouts.circular, { radius: 150 });
+
+    expect(packed).toEqual(layouts.circular(nodes, edges, 800, 600, { radius: 150 }));
+  });
+
+  it('packs component boxes without overlaps', () => {
+    const groups = [
+      ['a1', 'a2', 'a3', 'a4', 'a5', 'a6'],
+      ['b1', 'b2', 'b3', 'b4'],
+      ['c1', 'c2', 'c3'],
+      ['d1', 'd2'],
+      ['e1'],
+      ['f1'],
+    ];
+    const nodes = toNodes(groups.flat());
+    const edges = toEdges(groups.flatMap(ids =>
+      ids.slice(1).map((id, i): [string, string] => [ids[i], id])
+    ));
+    const nodeSize = 60;
+    const padding = 40;
+
+    const packed = packComponents(nodes, edges, 800, 600, layouts.circular, undefined, { nodeSize, padding });
+
+    expect(Object.keys(packed).sort()).toEqual(nodes.map(node => node.id).sort());
+
+    const boxes = groups.map(ids => boxOf(ids, packed, nodeSize));
+    for (let i = 0; i < boxes.length; i++) {
+      for (let j = i + 1; j < boxes.length; j++) {
+        const a = boxes[i];
+        const b = boxes[j];
+        const gapX = Math.max(b.minX - a.maxX, a.minX - b.maxX);
+        const gapY = Math.max(b.minY - a.maxY, a.minY - b.maxY);
+        expect(Math.max(gapX, gapY)).toBeGreaterThanOrEqual(padding - 1e-6);
+      }
+    }
+  });
+
+  it('keeps the shape of each component', () => {
+    const nodes = toNodes(['a', 'b', 'c', 'x', 'y']);
+    const edges = toEdges([['a', 'b'], ['b', 'c'], ['x', 'y']]);
+
+    const packed = packComponents(nodes, edges, 800, 600, layouts.grid);
+    const [large] = findConnectedComponents(nodes, edges);
+    const alone = layouts.grid(large.nodes, large.edges, 800 * Math.sqrt(3 / 5), 600 * Math.sqrt(3 / 5));
+
+    // Packing only translates a component
+    expect(packed.b.x - packed.a.x).toBeCloseTo(alone.b.x - alone.a.x);
+    expect(packed.b.y - packed.a.y).toBeCloseTo(alone.b.y - alone.a.y);
+    expect(packed.c.x - packed.a.x).toBeCloseTo(alone.c.x - alone.a.x);
+    expect(packed.c.y - packed.a.y).toBeCloseTo(alone.c.y - alone.a.y);
+  });
+
+  it('centers the packed result in the viewport', () => {
+    const nodes = toNodes(['a', 'b']);
+    const nodeSize = 100;
+
+    const packed = packComponents(nodes, [], 800, 600, layouts.grid, undefined, { nodeSize, padding: 0 });
+    const box = boxOf(['a', 'b'], packed, nodeSize);
+
+    expect((box.minX + box.maxX) / 2).toBeCloseTo(400);
+    expect((box.minY + box.maxY) / 2).toBeCloseTo(300);
+  });
+
+  it('keeps pinned nodes on their pins', () => {
+    const nodes = toNodes(['a', 'b', 'c', 'x', 'y', 'z']);
+    const edges = toEdges([['a', 'b'], ['b', 'c'], ['x', 'y']]);
+    const nodeSize = 100;
+
+    const positions = createLayout(nodes, edges, {
+      type: 'force',
+      layoutOptions: { seed: 1, constraints: [{ type: 'pin', nodeId: 'b', x: 150, y: 120 }] },
+      width: 800,
+      height: 600,
+      packComponents: { nodeSize },
+    });
+
+    expect(positions.b.x).toBeCloseTo(150);
+    expect(positions.b.y).toBeCloseTo(120);
+
+    // The other components are packed beside the pinned one
+    const pinned = boxOf(['a', 'b', 'c'], positions, nodeSize);
+    ['x', 'y', 'z'].forEach(id => {
+      expect(positions[id].x - nodeSize / 2).toBeGreaterThan(pinned.maxX);
+    });
+  });
+
+  it('keeps nodes with data.fixed in place', () => {
+    const nodes: Node[] = [
+      { id: 'a', data: { fixed: true, x: 500, y: 400 } },
+      { id: 'b' },
+      { id: 'x' },
+    ];
+    const edges = toEdges([['a', 'b']]);
+
+    const positions = createLayout(nodes, edges, {
+      type: 'layered',
+      width: 800,
+      height: 600,
+      packComponents: true,
+    });
+
+    expect(positions.a).toEqual({ x: 500, y: 400 });
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Connected-component packing lays out every component of a disconnected graph
+ * on its own and arranges the results in rows that fill the viewport
+ */
+import { Node, Edge, Position } from '../types/graph';
+import { LayoutFunction, LayoutOptions } from './registry';
+import { resolveConstraints } from './constraints';
+
+export interface ComponentPackingOptions {
+  /** Gap kept between neighbouring components */
+  padding?: number;
+  /** Target width / height ratio of the packed result (defaults to the viewport ratio) */
+  aspectRatio?: number;
+  /** Space reserved around the outermost node centers of a component */
+  nodeSize?: number;
+}
+
+export interface GraphComponent {
+  /** Nodes of the component in input order */
+  nodes: Node[];
+  /** Edges between nodes of the component */
+  edges: Edge[];
+}
+
+// Bounding box of a laid out component
+interface ComponentBox {
+  positions: Record<string, Position>;
+  minX: number;
+  minY: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Split a graph into its connected components, largest first
+ * Edge direction is ignored; edges to unknown nodes are dropped
+ */
+export function findConnectedComponents(nodes: Node[], edges: Edge[]): GraphComponent[] {
+  const parent: Record<string, string> = {};
+  nodes.forEach(node => {
+    parent[node.id] = node.id;
+  });
+
+  const find = (id: string): string => {
+    let root = id;
+    while (parent[root] !== root) root = parent[root];
+    // Path compression
+    while (parent[id] !== root) {
+      const next = parent[id];
+      parent[id] = root;
+      id = next;
+    }
+    return root;
+  };
+
+  edges.forEach(edge => {
+    if (parent[edge.source] === undefined || parent[edge.target] === undefined) return;
+    const sourceRoot = find(edge.source);
+    const targetRoot = find(edge.target);
+    if (sourceRoot !== targetRoot) parent[sourceRoot] = targetRoot;
+  });
+
+  const byRoot = new Map<string, GraphComponent>();
+  nodes.forEach(node => {
+    const root = find(node.id);
+    let component = byRoot.get(root);
+    if (!component) {
+      component = { nodes: [], edges: [] };
+      byRoot.set(root, component);
+    }
+    component.nodes.push(node);
+  });
+
+  edges.forEach(edge => {
+    if (parent[edge.source] === undefined || parent[edge.target] === undefined) return;
+    byRoot.get(find(edge.source))!.edges.push(edge);
+  });
+
+  // Array.prototype.sort is stable, so equally sized components keep their order
+  return Array.from(byRoot.values()).sort((a, b) => b.nodes.length - a.nodes.length);
+}
+
+/**
+ * Lay out each connected component with the given layout and pack the results
+ * Graphs with a single component are laid out as usual
+ */
+export function packComponents(
+  nodes: Node[],
+  edges: Edge[],
+  width: number,
+  height: number,
+  layout: LayoutFunction,
+  layoutOptions?: LayoutOptions,
+  options: ComponentPackingOptions = {}
+): Record<string, Position> {
+  const {
+    padding = 80,
+    aspectRatio = width > 0 && height > 0 ? width / height : 1,
+    nodeSize = 100,
+  } = options;
+
+  const components = findConnectedComponents(nodes, edges);
+  if (components.length <= 1) {
+    return layout(nodes, edges, width, height, layoutOptions);
+  }
+
+  // Report progress across all components instead of restarting for each one
+  const onProgress = typeof layoutOptions?.onProgress === 'function'
+    ? layoutOptions.onProgress as (progress: number) => void
+    : undefined;
+  let completedNodes = 0;
+
+  const layoutComponent = (component: GraphComponent, componentWidth: number, componentHeight: number) => {
+    const componentOptions = onProgress
+      ? {
+          ...layoutOptions,
+          onProgress: (progress: number) =>
+            onProgress((completedNodes + progress * component.nodes.length) / nodes.length),
+        }
+      : layoutOptions;
+
+    const positions = layout(
+      component.nodes,
+      component.edges,
+      componentWidth,
+      componentHeight,
+      componentOptions
+    );
+    completedNodes += component.nodes.length;
+    return positions;
+  };
+
+  // Components with pinned nodes are laid out in the full viewport and not
+  // moved, so their pins hold; the other components are packed beside them
+  const { pins } = resolveConstraints(nodes, layoutOptions?.constraints);
+  const isAnchored = (component: GraphComponent) => component.nodes.some(node => pins.has(node.id));
+
+  const result: Record<string, Position> = {};
+  const anchoredComponents = components.filter(isAnchored);
+  anchoredComponents.forEach(component => {
+    Object.assign(result, layoutComponent(component, width, height));
+  });
+
+  const boxes: ComponentBox[] = components.filter(component => !isAnchored(component)).map(component => {
+    // Give each component a share of the viewport proportional to its size
+    const share = Math.sqrt(component.nodes.length / nodes.length);
+    const positions = layoutComponent(component, width * share, height * share);
+    const { minX, maxX, minY, maxY } = measure(positions);
+
+    return {
+      positions,
+      minX: minX - nodeSize / 2,
+      minY: minY - nodeSize / 2,
+      width: maxX - minX + nodeSize + padding,
+      height: maxY - minY + nodeSize + padding,
+    };
+  });
+
+  if (boxes.length === 0) return result;
+
+  const offsets = packBoxes(boxes, aspectRatio);
+
+  let packedWidth = 0;
+  let packedHeight = 0;
+  boxes.forEach((box, index) => {
+    packedWidth = Math.max(packedWidth, offsets[index].x + box.width);
+    packedHeight = Math.max(packedHeight, offsets[index].y + box.height);
+  });
+
+  // Center the packed arrangement in the viewport, or next to the anchored components
+  let originX = width / 2 - (packedWidth - padding) / 2;
+  let originY = height / 2 - (packedHeight - padding) / 2;
+  if (anchoredComponents.length > 0) {
+    const anchored = measure(result);
+    originX = anchored.maxX + nodeSize / 2 + padding;
+    originY = (anchored.minY + anchored.maxY) / 2 - (packedHeight - padding) / 2;
+  }
+
+  boxes.forEach((box, index) => {
+    const dx = originX + offsets[index].x - box.minX;
+    const dy = originY + offsets[index].y - box.minY;
+    Object.entries(box.positions).forEach(([nodeId, pos]) => {
+      result[nodeId] = { x: pos.x + dx, y: pos.y + dy };
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Extent of a set of positions; empty sets measure as a point at the origin
+ */
+function measure(positions: Record<string, Position>) {
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  Object.values(positions).forEach(pos => {
+    minX = Math.min(minX, pos.x);
+    maxX = Math.max(maxX, pos.x);
+    minY = Math.min(minY, pos.y);
+    maxY = Math.max(maxY, pos.y);
+  });
+
+  if (minX === Infinity) {
+    minX = maxX = minY = maxY = 0;
+  }
+
+  return { minX, maxX, minY, maxY };
+}
+
+/**
+ * Shelf packing: boxes are sorted by height and placed in rows
+ * Several row widths are tried and the one that fits an area with the
+ * target aspect ratio at the largest scale wins
+ */
+function packBoxes(boxes: ComponentBox[], aspectRatio: number): Position[] {
+  const order = boxes.map((_, index) => index)
+    .sort((a, b) => boxes[b].height - boxes[a].height);
+
+  let widest = 0;
+  let totalWidth = 0;
+  boxes.forEach(box => {
+    widest = Math.max(widest, box.width);
+    totalWidth += box.width;
+  });
+
+  const shelve = (rowWidth: number) => {
+    const offsets: Position[] = new Array(boxes.length);
+    let x = 0;
+    let y = 0;
+    let rowHeight = 0;
+    let usedWidth = 0;
+
+    order.forEach(index => {
+      const box = boxes[index];
+      if (x > 0 && x + box.width > rowWidth) {
+        y += rowHeight;
+        x = 0;
+        rowHeight = 0;
+      }
+      offsets[index] = { x, y };
+      x += box.width;
+      rowHeight = Math.max(rowHeight, box.height);
+      usedWidth = Math.max(usedWidth, x);
+    });
+
+    return { offsets, width: usedWidth, height: y + rowHeight };
+  };
+
+  const candidates = 24;
+  let best = shelve(totalWidth);
+  let bestScale = Math.min(aspectRatio / best.width, 1 / best.height);
+
+  for (let i = 0; i < candidates; i++) {
+    // Geometric steps between the widest box and a single row
+    const rowWidth = widest * Math.pow(totalWidth / widest, i / candidates);
+    const packing = shelve(rowWidth);
+    const scale = Math.min(aspectRatio / packing.width, 1 / packing.height);
+    if (scale > bestScale) {
+      best = packing;
+      bestScale = scale;
+    }
+  }
+
+  return best.offsets;
+}
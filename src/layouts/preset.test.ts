@@ -0,0 +1,102 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { presetLayout, getPresetPosition } from './preset';
+import { layouts, registerLayout } from './registry';
+import { Node, Edge } from '../types/graph';
+
+const edges: Edge[] = [
+  { id: 'e1', source: 'a', target: 'b' },
+  { id: 'e2', source: 'b', target: 'c' },
+];
+
+afterEach(() => {
+  delete layouts.line;
+  vi.restoreAllMocks();
+});
+
+describe('getPresetPosition', () => {
+  it('reads data.x/data.y or data.position', () => {
+    expect(getPresetPosition({ id: 'a', data: { x: 1, y: 2 } })).toEqual({ x: 1, y: 2 });
+    expect(getPresetPosition({ id: 'a', data: { position: { x: 3, y: 4 } } })).toEqual({ x: 3, y: 4 });
+  });
+
+  it('ignores missing and invalid positions', () => {
+    expect(getPresetPosition({ id: 'a' })).toBeNull();
+    expect(getPresetPosition({ id: 'a', data: { x: 1 } })).toBeNull();
+    expect(getPresetPosition({ id: 'a', data: { x: NaN, y: 0 } })).toBeNull();
+    expect(getPresetPosition({ id: 'a', data: { position: { x: '1', y: 2 } } })).toBeNull();
+  });
+});
+
+describe('presetLayout', () => {
+  it('returns stored positions exactly', () => {
+    const nodes: Node[] = [
+      { id: 'a', data: { x: -10, y: 5 } },
+      { id: 'b', data: { position: { x: 200, y: 300 } } },
+      { id: 'c', data: { x: 0, y: 0 } },
+    ];
+
+    expect(presetLayout(nodes, edges, 800, 600, { layout: 'grid' })).toEqual({
+      a: { x: -10, y: 5 },
+      b: { x: 200, y: 300 },
+      c: { x: 0, y: 0 },
+    });
+  });
+
+  it('places nodes without a position next to their neighbours', () => {
+    const nodes: Node[] = [
+      { id: 'a', data: { x: 0, y: 0 } },
+      { id: 'b', data: { x: 100, y: 0 } },
+      { id: 'c' },
+    ];
+
+    const positions = presetLayout(nodes, edges, 800, 600, { nodeSpacing: 50 });
+
+    expect(positions.a).toEqual({ x: 0, y: 0 });
+    expect(positions.b).toEqual({ x: 100, y: 0 });
+    const { x, y } = positions.c;
+    expect(Math.hypot(x - 100, y)).toBeCloseTo(50);
+  });
+
+  it('lays out missing nodes as a block to the right of the stored ones', () => {
+    registerLayout('line', (nodes: Node[]) =>
+      Object.fromEntries(nodes.map((node, i) => [node.id, { x: i * 10, y: i * 10 }])));
+    const nodes: Node[] = [
+      { id: 'a', data: { x: 0, y: -50 } },
+      { id: 'b', data: { x: 100, y: 50 } },
+      { id: 'c' },
+      { id: 'd' },
+    ];
+
+    const positions = presetLayout(nodes, edges, 800, 600, { layout: 'line', nodeSpacing: 40 });
+
+    expect(positions.a).toEqual({ x: 0, y: -50 });
+    expect(positions.b).toEqual({ x: 100, y: 50 });
+    // The block keeps its shape, starts nodeSpacing to the right and is centred vertically
+    expect(positions.c).toEqual({ x: 140, y: -5 });
+    expect(positions.d).toEqual({ x: 150, y: 5 });
+  });
+
+  it('runs the chosen layout when no node has a position', () => {
+    const nodes: Node[] = ['a', 'b', 'c'].map(id => ({ id }));
+    const layout = vi.fn(() => ({ a: { x: 1, y: 1 } }));
+    registerLayout('line', layout);
+
+    expect(presetLayout(nodes, edges, 800, 600, { layout: 'line', layoutOptions: { seed: 1 } }))
+      .toEqual({ a: { x: 1, y: 1 } });
+    expect(layout).toHaveBeenCalledWith(nodes, edges, 800, 600, { seed: 1 });
+  });
+
+  it('falls back to force for unknown layouts', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const nodes: Node[] = ['a', 'b', 'c'].map(id => ({ id }));
+
+    const positions = presetLayout(nodes, edges, 800, 600, { layout: 'missing' });
+
+    expect(Object.keys(positions).sort()).toEqual(['a', 'b', 'c']);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Unknown layout type: missing'));
+  });
+
+  it('returns nothing for an empty graph', () => {
+    expect(presetLayout([], [], 800, 600)).toEqual({});
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Preset layout uses positions already stored on the nodes
+ * Positions come from `node.data.x`/`node.data.y` (as written by applyLayout and
+ * the D3 and Cytoscape adapters) or from `node.data.position`
+ */
+import { Node, Edge, Position } from '../types/graph';
+import type { LayoutType, LayoutOptions } from './registry';
+import { getLayout } from './layoutTable';
+import { incrementalLayout } from './incremental';
+
+export interface PresetLayoutOptions {
+  /** Layout run for the nodes without a stored position (placed next to their neighbours if not set) */
+  layout?: LayoutType;
+  /** Options for the layout of the nodes without a stored position */
+  layoutOptions?: LayoutOptions;
+  /** Distance between newly placed nodes and the nodes with stored positions */
+  nodeSpacing?: number;
+}
+
+/**
+ * Read the stored position of a node, if it has one
+ */
+export function getPresetPosition(node: Node): Position | null {
+  const data = node.data;
+  if (!data || typeof data !== 'object') return null;
+
+  if (typeof data.x === 'number' && typeof data.y === 'number'
+    && Number.isFinite(data.x) && Number.isFinite(data.y)) {
+    return { x: data.x, y: data.y };
+  }
+
+  const position = data.position as Partial<Position> | undefined;
+  if (position && typeof position.x === 'number' && typeof position.y === 'number'
+    && Number.isFinite(position.x) && Number.isFinite(position.y)) {
+    return { x: position.x, y: position.y };
+  }
+
+  return null;
+}
+
+/**
+ * Calculate node positions from the positions stored on the nodes
+ * Nodes without a stored position are laid out with `layout` and placed
+ * beside the others, or placed one by one next to their neighbours
+ */
+export function presetLayout(
+  nodes: Node[],
+  edges: Edge[],
+  width: number,
+  height: number,
+  options: PresetLayoutOptions = {}
+): Record<string, Position> {
+  const { layout: layoutType, layoutOptions, nodeSpacing = 150 } = options;
+
+  // If there are no nodes, return an empty positioning object
+  if (!nodes.length) return {};
+
+  const positions: Record<string, Position> = {};
+  const missing: Node[] = [];
+  nodes.forEach(node => {
+    const position = getPresetPosition(node);
+    if (position) {
+      positions[node.id] = position;
+    } else {
+      missing.push(node);
+    }
+  });
+
+  if (missing.length === 0) return positions;
+
+  if (!layoutType) {
+    return incrementalLayout(nodes, edges, positions, { nodeSpacing });
+  }
+
+  let layout = getLayout(layoutType);
+  if (!layout) {
+    console.warn(`Unknown layout type: ${layoutType}. Falling back to force layout.`);
+    layout = getLayout('force')!;
+  }
+
+  // Nothing is stored yet, so this is just the chosen layout
+  if (missing.length === nodes.length) {
+    return layout(nodes, edges, width, height, layoutOptions);
+  }
+
+  // Lay out the nodes without a position among themselves
+  const missingIds = new Set(missing.map(node => node.id));
+  const share = Math.sqrt(missing.length / nodes.length);
+  const placed = layout(
+    missing,
+    edges.filter(edge => missingIds.has(edge.source) && missingIds.has(edge.target)),
+    width * share,
+    height * share,
+    layoutOptions
+  );
+
+  // Move them as a block to the right of the stored positions
+  const preset = measure(Object.values(positions));
+  const block = measure(Object.values(placed));
+  const dx = preset.maxX + nodeSpacing - block.minX;
+  const dy = (preset.minY + preset.maxY) / 2 - (block.minY + block.maxY) / 2;
+
+  Object.entries(placed).forEach(([nodeId, pos]) => {
+    positions[nodeId] = { x: pos.x + dx, y: pos.y + dy };
+  });
+
+  return positions;
+}
+
+/**
+ * Extent of a set of points
+ */
+function measure(points: Position[]) {
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  points.forEach(pos => {
+    minX = Math.min(minX, pos.x);
+    maxX = Math.max(maxX, pos.x);
+    minY = Math.min(minY, pos.y);
+    maxY = Math.max(maxY, pos.y);
+  });
+
+  if (minX === Infinity) {
+    return { minX: 0, maxX: 0, minY: 0, maxY: 0 };
+  }
+
+  return { minX, maxX, minY, maxY };
+}
@@ -0,0 +1,103 @@
+/**
+ * Quadtree used for Barnes–Hut approximation of n-body forces
+ */
+
+/**
+ * A square cell of the quadtree with the aggregated mass of its points
+ */
+export interface QuadtreeCell {
+  /** Left edge of the cell */
+  x0: number;
+  /** Top edge of the cell */
+  y0: number;
+  /** Side length of the (square) cell */
+  size: number;
+  /** Number of points contained in the cell */
+  mass: number;
+  /** X coordinate of the center of mass */
+  centerX: number;
+  /** Y coordinate of the center of mass */
+  centerY: number;
+  /** Child cells (NW, NE, SW, SE); null for leaves */
+  children: (QuadtreeCell | null)[] | null;
+  /** Indices of the points held by a leaf */
+  points: number[];
+}
+
+// Stop subdividing past this depth so coincident points share a leaf
+const MAX_DEPTH = 32;
+
+/**
+ * Build a quadtree over the given point coordinates
+ */
+export function buildQuadtree(xs: ArrayLike<number>, ys: ArrayLike<number>): QuadtreeCell | null {
+  const count = xs.length;
+  if (count === 0) return null;
+
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  for (let i = 0; i < count; i++) {
+    minX = Math.min(minX, xs[i]);
+    maxX = Math.max(maxX, xs[i]);
+    minY = Math.min(minY, ys[i]);
+    maxY = Math.max(maxY, ys[i]);
+  }
+
+  // Use a square root cell so that every cell keeps a 1:1 aspect ratio
+  const size = Math.max(maxX - minX, maxY - minY, 1);
+  const indices = Array.from({ length: count }, (_, i) => i);
+
+  return buildCell(xs, ys, indices, minX, minY, size, 0);
+}
+
+function buildCell(
+  xs: ArrayLike<number>,
+  ys: ArrayLike<number>,
+  indices: number[],
+  x0: number,
+  y0: number,
+  size: number,
+  depth: number
+): QuadtreeCell {
+  let sumX = 0;
+  let sumY = 0;
+  indices.forEach(i => {
+    sumX += xs[i];
+    sumY += ys[i];
+  });
+
+  const cell: QuadtreeCell = {
+    x0,
+    y0,
+    size,
+    mass: indices.length,
+    centerX: sumX / indices.length,
+    centerY: sumY / indices.length,
+    children: null,
+    points: [],
+  };
+
+  if (indices.length <= 1 || depth >= MAX_DEPTH) {
+    cell.points = indices;
+    return cell;
+  }
+
+  // Partition points into the four quadrants
+  const half = size / 2;
+  const midX = x0 + half;
+  const midY = y0 + half;
+  const quadrants: number[][] = [[], [], [], []];
+
+  indices.forEach(i => {
+    const quadrant = (xs[i] >= midX ? 1 : 0) + (ys[i] >= midY ? 2 : 0);
+    quadrants[quadrant].push(i);
+  });
+
+  cell.children = quadrants.map((quadrantIndices, quadrant) => {
+    if (quadrantIndices.length === 0) return null;
+    const childX = quadrant % 2 === 1 ? midX : x0;
+    const childY = quadrant >= 2 ? midY : y0;
+    return buildCell(xs, ys, quadrantIndices, childX, childY, half, depth + 1);
+  });
+
+  return cell;
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { layouts, registerLayout, getLayout, isBuiltInLayout, LayoutFunction } from './registry';
+import { createLayout } from './factory';
+import { Node } from '../types/graph';
+
+const nodes: Node[] = [{ id: 'a' }, { id: 'b' }];
+const originalGrid = layouts.grid;
+
+const fixed = (layoutNodes: Node[]) => {
+  const positions: Record<string, { x: number; y: number }> = {};
+  layoutNodes.forEach((node, i) => {
+    positions[node.id] = { x: i, y: i };
+  });
+  return positions;
+};
+
+afterEach(() => {
+  registerLayout<string>('grid', originalGrid);
+  delete layouts.diagonal;
+});
+
+describe('layout registry', () => {
+  it('knows the built-in layouts', () => {
+    expect(getLayout('force')).toBeTypeOf('function');
+    expect(isBuiltInLayout('force')).toBe(true);
+    expect(isBuiltInLayout('auto')).toBe(true);
+  });
+
+  it('registers custom layouts for createLayout', () => {
+    registerLayout('diagonal', fixed);
+
+    expect(getLayout('diagonal')).toBe(fixed);
+    expect(isBuiltInLayout('diagonal')).toBe(false);
+    expect(createLayout(nodes, [], { type: 'diagonal', width: 100, height: 100 })).toEqual({
+      a: { x: 0, y: 0 },
+      b: { x: 1, y: 1 },
+    });
+  });
+
+  it('lets registerLayout override a built-in layout', () => {
+    registerLayout('grid', fixed);
+
+    expect(getLayout('grid')).toBe(fixed);
+    expect(isBuiltInLayout('grid')).toBe(false);
+    expect(createLayout(nodes, [], { type: 'grid', width: 100, height: 100 })).toEqual({
+      a: { x: 0, y: 0 },
+      b: { x: 1, y: 1 },
+    });
+  });
+
+  it('treats a built-in layout registered again as built-in', () => {
+    registerLayout('grid', fixed);
+    registerLayout<string>('grid', originalGrid);
+
+    expect(isBuiltInLayout('grid')).toBe(true);
+  });
+
+  it('uses overrides inside layouts that run other layouts', () => {
+    registerLayout('grid', fixed);
+
+    const positions = createLayout(nodes, [], {
+      type: 'preset',
+      layoutOptions: { layout: 'grid' },
+      width: 100,
+      height: 100,
+    });
+
+    expect(positions).toEqual({ a: { x: 0, y: 0 }, b: { x: 1, y: 1 } });
+  });
+
+  it('does not resolve unknown or inherited names', () => {
+    expect(getLayout('missing')).toBeUndefined();
+    expect(getLayout('toString')).toBeUndefined();
+    expect(isBuiltInLayout('missing')).toBe(false);
+    expect(isBuiltInLayout('toString')).toBe(false);
+  });
+
+  it('rejects invalid registrations', () => {
+    expect(() => registerLayout('', fixed)).toThrow('Layout name must be a non-empty string');
+    expect(() => registerLayout('broken', 'grid' as unknown as LayoutFunction)).toThrow(
+      'Layout "broken" must be a function'
+    );
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Layout registry shared by createLayout, the layouts record and the Graph component
+ * Built-in layouts are registered here; custom layouts are added with registerLayout
+ */
+import { Node, Edge, Position } from '../types/graph';
+import { CircularLayoutOptions, circularLayout } from './circular';
+import { ForceLayoutOptions, forceLayout } from './force';
+import { GridLayoutOptions, gridLayout } from './grid';
+import { RadialLayoutOptions, radialLayout } from './radial';
+import { TreeLayoutOptions, treeLayout } from './tree';
+import { LayeredLayoutOptions, layeredLayout } from './layered';
+import { SpiralLayoutOptions, spiralLayout } from './spiral';
+import { StressLayoutOptions, stressLayout } from './stress';
+import { TidyTreeLayoutOptions, tidyTreeLayout } from './tidyTree';
+import { GroupedLayoutOptions, groupedLayout } from './grouped';
+import { PresetLayoutOptions, presetLayout } from './preset';
+import { TimelineLayoutOptions, timelineLayout } from './timeline';
+import { AutoLayoutOptions, pickBestLayout } from './auto';
+import { LayoutConstraint } from './constraints';
+import { layoutTable } from './layoutTable';
+
+/**
+ * Option types of the known layouts, keyed by layout name
+ * Extend it through declaration merging to type the options of a custom layout:
+ *
+ * ```ts
+ * declare module 'diagrammatic-ui' {
+ *   interface LayoutOptionsMap {
+ *     swimlane: SwimlaneLayoutOptions;
+ *   }
+ * }
+ * ```
+ */
+export interface LayoutOptionsMap {
+  force: ForceLayoutOptions;
+  circular: CircularLayoutOptions;
+  tree: TreeLayoutOptions;
+  spiral: SpiralLayoutOptions;
+  donut: CircularLayoutOptions;
+  grid: GridLayoutOptions;
+  radial: RadialLayoutOptions;
+  layered: LayeredLayoutOptions;
+  stress: StressLayoutOptions;
+  'tidy-tree': TidyTreeLayoutOptions;
+  dendrogram: TidyTreeLayoutOptions;
+  grouped: GroupedLayoutOptions;
+  preset: PresetLayoutOptions;
+  timeline: TimelineLayoutOptions;
+  auto: AutoLayoutOptions;
+}
+
+// Names of layouts with known option types
+export type KnownLayoutType = keyof LayoutOptionsMap;
+
+// Supported layout algorithm types (any registered name is accepted)
+export type LayoutType = KnownLayoutType | (string & {});
+
+// Union type of all layout options
+export interface LayoutOptions {
+  /** Spacing between nodes */
+  nodeSpacing?: number;
+  /** Strength of forces in force-directed layout */
+  forceStrength?: number;
+  /** Number of iterations for force-directed layout */
+  iterations?: number;
+  /** Direction for tree layout */
+  treeDirection?: 'horizontal' | 'vertical';
+  /** Radius for circular layouts */
+  radius?: number;
+  /** Seed for layouts with random steps, making their output reproducible */
+  seed?: number | string;
+  /** Pinned nodes, alignments and relative placements (respected by force and layered) */
+  constraints?: LayoutConstraint[];
+  [key: string]: unknown;
+}
+
+// Options accepted by the layout registered under the given name
+export type LayoutOptionsFor<T extends string> = T extends KnownLayoutType
+  ? LayoutOptionsMap[T]
+  : LayoutOptions;
+
+export interface LayoutResult {
+  [nodeId: string]: Position;
+}
+
+// Generic layout function signature
+export type LayoutFunction<TOptions = LayoutOptions> = (
+  nodes: Node[],
+  edges: Edge[],
+  width: number,
+  height: number,
+  options?: TOptions
+) => LayoutResult;
+
+// Built-in layouts, kept separately so overrides can be detected
+const builtInLayouts: Record<KnownLayoutType, LayoutFunction> = {
+  force: (nodes, edges, width, height, options) =>
+    forceLayout(nodes, edges, width, height, options as ForceLayoutOptions),
+
+  circular: (nodes, _edges, width, height, options) =>
+    circularLayout(nodes, width, height, options as CircularLayoutOptions),
+
+  tree: (nodes, edges, width, height, options) =>
+    treeLayout(nodes, edges, width, height, options as TreeLayoutOptions),
+
+  spiral: (nodes, edges, width, height, options) =>
+    spiralLayout(nodes, edges, width, height, options as SpiralLayoutOptions),
+
+  donut: (nodes, _edges, width, height, options) =>
+    circularLayout(nodes, width, height, { ...options as CircularLayoutOptions, isDonut: true }),
+
+  grid: (nodes, _edges, width, height, options) =>
+    gridLayout(nodes, width, height, options as GridLayoutOptions),
+
+  radial: (nodes, edges, width, height, options) =>
+    radialLayout(nodes, edges, width, height, options as RadialLayoutOptions),
+
+  layered: (nodes, edges, width, height, options) =>
+    layeredLayout(nodes, edges, width, height, options as LayeredLayoutOptions),
+
+  stress: (nodes, edges, width, height, options) =>
+    stressLayout(nodes, edges, width, height, options as StressLayoutOptions),
+
+  'tidy-tree': (nodes, edges, width, height, options) =>
+    tidyTreeLayout(nodes, edges, width, height, options as TidyTreeLayoutOptions),
+
+  dendrogram: (nodes, edges, width, height, options) =>
+    tidyTreeLayout(nodes, edges, width, height, {
+      radial: true,
+      alignLeaves: true,
+      ...options as TidyTreeLayoutOptions,
+    }),
+
+  grouped: (nodes, edges, width, height, options) =>
+    groupedLayout(nodes, edges, width, height, options as GroupedLayoutOptions),
+
+  preset: (nodes, edges, width, height, options) =>
+    presetLayout(nodes, edges, width, height, options as PresetLayoutOptions),
+
+  timeline: (nodes, _edges, width, height, options) =>
+    timelineLayout(nodes, width, height, options as TimelineLayoutOptions),
+
+  auto: (nodes, edges, width, height, options) =>
+    pickBestLayout(nodes, edges, width, height, options as AutoLayoutOptions).positions,
+};
+
+// Layout registry to easily access all available layouts, shared with the
+// layouts that look others up by name
+export const layouts: Record<LayoutType, LayoutFunction> = Object.assign(layoutTable, builtInLayouts);
+
+/**
+ * Register a layout algorithm under the given name
+ * Registering an existing name replaces that layout, including built-in ones
+ */
+export function registerLayout<T extends string>(
+  name: T,
+  layout: LayoutFunction<LayoutOptionsFor<T>>
+): void {
+  if (!name) {
+    throw new Error('Layout name must be a non-empty string');
+  }
+  if (typeof layout !== 'function') {
+    throw new Error(`Layout "${name}" must be a function`);
+  }
+  layouts[name] = layout as LayoutFunction;
+}
+
+// Lookup by name lives with the table so composite layouts can use it
+export { getLayout } from './layoutTable';
+
+/**
+ * Whether the given name still refers to the built-in layout of that name
+ * Only built-in layouts are available inside the layout Web Worker
+ */
+export function isBuiltInLayout(name: LayoutType): boolean {
+  return Object.prototype.hasOwnProperty.call(builtInLayouts, name)
+    && layouts[name] === builtInLayouts[name as KnownLayoutType];
+}
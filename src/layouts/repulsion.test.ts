@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { applyExactRepulsion, applyBarnesHutRepulsion, SimulationNode } from './repulsion';
+import { createRandom } from '../utils/random';
+import { Node } from '../types/graph';
+
+type Forces = Record<string, { fx: number; fy: number }>;
+
+/**
+ * Scatter nodes in a square with a fixed seed
+ */
+function scatter(count: number, seed: number): { nodes: Node[]; positions: Record<string, SimulationNode> } {
+  const random = createRandom(seed);
+  const nodes: Node[] = [];
+  const positions: Record<string, SimulationNode> = {};
+
+  for (let i = 0; i < count; i++) {
+    const id = `n${i}`;
+    nodes.push({ id });
+    positions[id] = { x: random() * 1000, y: random() * 1000, vx: 0, vy: 0 };
+  }
+
+  return { nodes, positions };
+}
+
+function zeroForces(nodes: Node[]): Forces {
+  const forces: Forces = {};
+  nodes.forEach(node => {
+    forces[node.id] = { fx: 0, fy: 0 };
+  });
+  return forces;
+}
+
+function exactForces(nodes: Node[], positions: Record<string, SimulationNode>): Forces {
+  const forces = zeroForces(nodes);
+  applyExactRepulsion(nodes, positions, forces, 1000);
+  return forces;
+}
+
+function barnesHutForces(nodes: Node[], positions: Record<string, SimulationNode>, theta: number): Forces {
+  const forces = zeroForces(nodes);
+  applyBarnesHutRepulsion(nodes, positions, forces, 1000, theta);
+  return forces;
+}
+
+/**
+ * Largest error of the approximated force vectors relative to the mean exact force
+ */
+function relativeError(nodes: Node[], exact: Forces, approximate: Forces): number {
+  let meanMagnitude = 0;
+  let maxError = 0;
+
+  nodes.forEach(node => {
+    const e = exact[node.id];
+    const a = approximate[node.id];
+    meanMagnitude += Math.hypot(e.fx, e.fy) / nodes.length;
+    maxError = Math.max(maxError, Math.hypot(e.fx - a.fx, e.fy - a.fy));
+  });
+
+  return maxError / meanMagnitude;
+}
+
+describe('applyBarnesHutRepulsion', () => {
+  const { nodes, positions } = scatter(300, 42);
+  const exact = exactForces(nodes, positions);
+
+  it('matches the exact forces when theta is 0', () => {
+    const approximate = barnesHutForces(nodes, positions, 0);
+
+    // Every interaction is computed pairwise; only the summation order differs
+    nodes.forEach(node => {
+      expect(approximate[node.id].fx).toBeCloseTo(exact[node.id].fx, 10);
+      expect(approximate[node.id].fy).toBeCloseTo(exact[node.id].fy, 10);
+    });
+  });
+
+  it('stays within tolerance of the exact forces', () => {
+    expect(relativeError(nodes, exact, barnesHutForces(nodes, positions, 0.5))).toBeLessThan(0.05);
+    // The force layout default
+    expect(relativeError(nodes, exact, barnesHutForces(nodes, positions, 0.9))).toBeLessThan(0.35);
+  });
+
+  it('gets closer to the exact forces as theta decreases', () => {
+    const coarse = relativeError(nodes, exact, barnesHutForces(nodes, positions, 1.2));
+    const fine = relativeError(nodes, exact, barnesHutForces(nodes, positions, 0.3));
+
+    expect(fine).toBeLessThan(coarse);
+  });
+
+  it('pushes two nodes apart symmetrically', () => {
+    const pair: Node[] = [{ id: 'a' }, { id: 'b' }];
+    const pairPositions: Record<string, SimulationNode> = {
+      a: { x: 0, y: 0, vx: 0, vy: 0 },
+      b: { x: 10, y: 0, vx: 0, vy: 0 },
+    };
+
+    const forces = barnesHutForces(pair, pairPositions, 0.8);
+
+    expect(forces.a.fx).toBeCloseTo(-10);
+    expect(forces.b.fx).toBeCloseTo(10);
+    expect(forces.a.fy).toBeCloseTo(0);
+    expect(forces.b.fy).toBeCloseTo(0);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Repulsion forces shared by the force layout and the live force simulation
+ */
+import { Node, Position } from '../types/graph';
+import { buildQuadtree, QuadtreeCell } from './quadtree';
+
+// Position and velocity of a node during a simulation
+export interface SimulationNode extends Position {
+  vx: number;
+  vy: number;
+}
+
+/**
+ * Apply repulsion forces between all pairs of nodes, O(n²) per iteration
+ */
+export function applyExactRepulsion(
+  nodes: Node[],
+  simPositions: Record<string, SimulationNode>,
+  forces: Record<string, { fx: number; fy: number }>,
+  repulsionForce: number
+): void {
+  for (let i = 0; i < nodes.length; i++) {
+    const nodeA = nodes[i];
+    const posA = simPositions[nodeA.id];
+    
+    for (let j = i + 1; j < nodes.length; j++) {
+      const nodeB = nodes[j];
+      const posB = simPositions[nodeB.id];
+      
+      // Calculate distance between nodes
+      const dx = posB.x - posA.x;
+      const dy = posB.y - posA.y;
+      const distance = Math.sqrt(dx * dx + dy * dy) || 0.1; // Avoid division by zero
+      
+      // Apply repulsion force (inverse square law)
+      const force = repulsionForce / (distance * distance);
+      const forceX = dx / distance * force;
+      const forceY = dy / distance * force;
+      
+      // Add to forces (opposite directions)
+      forces[nodeA.id].fx -= forceX;
+      forces[nodeA.id].fy -= forceY;
+      forces[nodeB.id].fx += forceX;
+      forces[nodeB.id].fy += forceY;
+    }
+  }
+}
+
+/**
+ * Approximate repulsion using a Barnes–Hut quadtree: distant groups of nodes
+ * are treated as a single mass at their center, giving O(n log n) per iteration
+ */
+export function applyBarnesHutRepulsion(
+  nodes: Node[],
+  simPositions: Record<string, SimulationNode>,
+  forces: Record<string, { fx: number; fy: number }>,
+  repulsionForce: number,
+  theta: number
+): void {
+  const xs = new Float64Array(nodes.length);
+  const ys = new Float64Array(nodes.length);
+  nodes.forEach((node, i) => {
+    xs[i] = simPositions[node.id].x;
+    ys[i] = simPositions[node.id].y;
+  });
+
+  const root = buildQuadtree(xs, ys);
+  if (!root) return;
+
+  const stack: QuadtreeCell[] = [];
+
+  nodes.forEach((node, i) => {
+    const force = forces[node.id];
+    const x = xs[i];
+    const y = ys[i];
+
+    stack.push(root);
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+
+      if (cell.children) {
+        const dx = cell.centerX - x;
+        const dy = cell.centerY - y;
+        const distance = Math.sqrt(dx * dx + dy * dy);
+
+        // Far enough away: treat the whole cell as a single body
+        if (distance > 0 && cell.size / distance < theta) {
+          const magnitude = repulsionForce * cell.mass / (distance * distance);
+          force.fx -= dx / distance * magnitude;
+          force.fy -= dy / distance * magnitude;
+          continue;
+        }
+
+        cell.children.forEach(child => {
+          if (child) stack.push(child);
+        });
+        continue;
+      }
+
+      // Leaf: compute exact interactions with the points it holds
+      cell.points.forEach(j => {
+        if (j === i) return;
+
+        const dx = xs[j] - x;
+        const dy = ys[j] - y;
+        const distance = Math.sqrt(dx * dx + dy * dy) || 0.1; // Avoid division by zero
+        const magnitude = repulsionForce / (distance * distance);
+        force.fx -= dx / distance * magnitude;
+        force.fy -= dy / distance * magnitude;
+      });
+    }
+  });
+}
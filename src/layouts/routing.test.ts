@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { createEdgeRouter } from './routing';
+import { Edge, Position } from '../types/graph';
+import { NodeSize } from './overlap';
+
+const size: NodeSize = { width: 40, height: 40 };
+
+const toEdges = (pairs: [string, string][]): Edge[] =>
+  pairs.map(([source, target], index) => ({ id: `e${index}`, source, target }));
+
+/**
+ * Whether a horizontal or vertical segment passes through the interior of a node box
+ */
+function crossesBox(from: Position, to: Position, center: Position): boolean {
+  const minX = center.x - size.width / 2;
+  const maxX = center.x + size.width / 2;
+  const minY = center.y - size.height / 2;
+  const maxY = center.y + size.height / 2;
+
+  if (from.y === to.y) {
+    return from.y > minY && from.y < maxY
+      && Math.max(from.x, to.x) > minX && Math.min(from.x, to.x) < maxX;
+  }
+  return from.x > minX && from.x < maxX
+    && Math.max(from.y, to.y) > minY && Math.min(from.y, to.y) < maxY;
+}
+
+describe('createEdgeRouter', () => {
+  it('routes around a node in the way', () => {
+    const positions = { a: { x: 0, y: 0 }, b: { x: 150, y: 0 }, c: { x: 300, y: 0 } };
+    const [edge] = toEdges([['a', 'c']]);
+
+    const routes = createEdgeRouter({ padding: 10 }).route([edge], positions, {});
+    const { points } = routes[edge.id];
+
+    expect(points.length).toBeGreaterThan(2);
+    for (let i = 1; i < points.length; i++) {
+      // Orthogonal routes only use horizontal and vertical segments
+      expect(points[i].x === points[i - 1].x || points[i].y === points[i - 1].y).toBe(true);
+      expect(crossesBox(points[i - 1], points[i], positions.b)).toBe(false);
+    }
+  });
+
+  it('starts and ends routes on the borders of the node boxes', () => {
+    const positions = { a: { x: 0, y: 0 }, b: { x: 300, y: 200 } };
+    const [edge] = toEdges([['a', 'b']]);
+
+    const { points } = createEdgeRouter({ defaultSize: size }).route([edge], positions, {})[edge.id];
+    const first = points[0];
+    const last = points[points.length - 1];
+
+    expect(Math.max(Math.abs(first.x - 0), Math.abs(first.y - 0))).toBeCloseTo(20);
+    expect(Math.max(Math.abs(last.x - 300), Math.abs(last.y - 200))).toBeCloseTo(20);
+  });
+
+  it('draws straight routes between box borders', () => {
+    const positions = { a: { x: 0, y: 0 }, b: { x: 150, y: 0 }, c: { x: 300, y: 0 } };
+    const [edge] = toEdges([['a', 'c']]);
+
+    const routes = createEdgeRouter({ style: 'straight' }).route([edge], positions, { a: size, c: size });
+
+    expect(routes[edge.id].points).toEqual([{ x: 20, y: 0 }, { x: 280, y: 0 }]);
+  });
+
+  it('rounds the corners of spline routes', () => {
+    const positions = { a: { x: 0, y: 0 }, b: { x: 300, y: 200 } };
+    const [edge] = toEdges([['a', 'b']]);
+
+    const route = createEdgeRouter({ style: 'spline' }).route([edge], positions, {})[edge.id];
+
+    expect(route.path.startsWith('M')).toBe(true);
+    expect(route.path).toMatch(/[QC]/);
+  });
+
+  it('skips self-loops and edges to unpositioned nodes', () => {
+    const edges = toEdges([['a', 'a'], ['a', 'missing']]);
+
+    expect(createEdgeRouter().route(edges, { a: { x: 0, y: 0 } }, {})).toEqual({});
+  });
+
+  it('reuses routes whose area did not change', () => {
+    const router = createEdgeRouter({ defaultSize: size });
+    const edges = toEdges([['a', 'b'], ['c', 'd']]);
+    const positions = {
+      a: { x: 0, y: 0 },
+      b: { x: 200, y: 0 },
+      c: { x: 0, y: 1000 },
+      d: { x: 200, y: 1000 },
+    };
+
+    const first = router.route(edges, positions, {});
+    const second = router.route(edges, { ...positions, d: { x: 250, y: 1050 } }, {});
+
+    // Only the edge of the moved node is routed again
+    expect(second.e0).toBe(first.e0);
+    expect(second.e1).not.toBe(first.e1);
+  });
+
+  it('reroutes an edge when another node moves into its area', () => {
+    const router = createEdgeRouter({ defaultSize: size });
+    const edges = toEdges([['a', 'b']]);
+    const positions = { a: { x: 0, y: 0 }, b: { x: 300, y: 0 }, c: { x: 150, y: 2000 } };
+
+    const first = router.route(edges, positions, {});
+    const second = router.route(edges, { ...positions, c: { x: 150, y: 0 } }, {});
+
+    expect(second.e0).not.toBe(first.e0);
+    second.e0.points.slice(1).forEach((point, i) => {
+      expect(crossesBox(second.e0.points[i], point, { x: 150, y: 0 })).toBe(false);
+    });
+  });
+
+  it('reroutes an edge when node sizes change', () => {
+    const router = createEdgeRouter({ defaultSize: size });
+    const edges = toEdges([['a', 'b']]);
+    const positions = { a: { x: 0, y: 0 }, b: { x: 300, y: 0 } };
+
+    const first = router.route(edges, positions, {});
+    const same = router.route(edges, { ...positions }, {});
+    const resized = router.route(edges, positions, { b: { width: 80, height: 80 } });
+
+    expect(same.e0).toBe(first.e0);
+    expect(resized.e0).not.toBe(first.e0);
+  });
+
+  it('forgets cached routes on clear', () => {
+    const router = createEdgeRouter();
+    const edges = toEdges([['a', 'b']]);
+    const positions = { a: { x: 0, y: 0 }, b: { x: 300, y: 0 } };
+
+    const first = router.route(edges, positions, {});
+    router.clear();
+
+    expect(router.route(edges, positions, {}).e0).not.toBe(first.e0);
+  });
+});
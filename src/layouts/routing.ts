@@ -0,0 +1,428 @@
+/**
+ * Edge routing draws edges around node bounding boxes instead of through them
+ * Orthogonal routes are searched on a sparse grid built from the boxes near an
+ * edge; spline routes round off the corners of the orthogonal route
+ */
+import { Edge, Position } from '../types/graph';
+import { NodeSize } from './overlap';
+import { heapPush, heapPop } from './heap';
+
+export type EdgeRoutingStyle = 'straight' | 'orthogonal' | 'spline';
+
+export interface EdgeRoutingOptions {
+  /** Shape of the routes */
+  style?: EdgeRoutingStyle;
+  /** Clearance kept between routes and node boxes */
+  padding?: number;
+  /** Extra length charged for every bend, favouring routes with fewer bends */
+  bendPenalty?: number;
+  /** Size used for nodes that have not been measured */
+  defaultSize?: NodeSize;
+}
+
+export interface EdgeRoute {
+  /** Points of the route, from the border of the source box to the border of the target box */
+  points: Position[];
+  /** SVG path data of the route */
+  path: string;
+}
+
+/**
+ * Router that keeps the routes it computed and recomputes a route only when
+ * its source or target moves, or when a node moves in or out of the area the
+ * route was searched in
+ */
+export interface EdgeRouter {
+  /** Routes keyed by edge ID; edges between unpositioned nodes are skipped */
+  route(
+    edges: Edge[],
+    positions: Record<string, Position>,
+    nodeSizes: Record<string, NodeSize>
+  ): Record<string, EdgeRoute>;
+  /** Forget all cached routes */
+  clear(): void;
+}
+
+// Axis-aligned rectangle
+interface Box {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// A cached route with what it depends on
+interface CachedRoute {
+  source: string;
+  target: string;
+  /** Area whose obstacles were taken into account */
+  area: Box;
+  route: EdgeRoute;
+}
+
+// Directions of travel on the routing grid: +x, -x, +y, -y, and none at the start
+const DIRECTIONS = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+const NO_DIRECTION = 4;
+
+/**
+ * Create an edge router with the given options
+ */
+export function createEdgeRouter(options: EdgeRoutingOptions = {}): EdgeRouter {
+  const {
+    style = 'orthogonal',
+    padding = 12,
+    bendPenalty = 40,
+    defaultSize = { width: 120, height: 120 },
+  } = options;
+
+  let boxes = new Map<string, Box>();
+  let cache = new Map<string, CachedRoute>();
+
+  const route: EdgeRouter['route'] = (edges, positions, nodeSizes) => {
+    // Boxes of all positioned nodes, and the nodes whose box changed
+    const nextBoxes = new Map<string, Box>();
+    Object.entries(positions).forEach(([id, pos]) => {
+      const size = nodeSizes[id] || defaultSize;
+      nextBoxes.set(id, {
+        minX: pos.x - size.width / 2,
+        minY: pos.y - size.height / 2,
+        maxX: pos.x + size.width / 2,
+        maxY: pos.y + size.height / 2,
+      });
+    });
+
+    const changedBoxes: Box[] = [];
+    const changedIds = new Set<string>();
+    nextBoxes.forEach((box, id) => {
+      const previous = boxes.get(id);
+      if (previous && sameBox(previous, box)) return;
+      changedIds.add(id);
+      changedBoxes.push(box);
+      if (previous) changedBoxes.push(previous);
+    });
+    boxes.forEach((box, id) => {
+      if (nextBoxes.has(id)) return;
+      changedIds.add(id);
+      changedBoxes.push(box);
+    });
+    boxes = nextBoxes;
+
+    const obstacles = Array.from(nextBoxes.entries());
+    const nextCache = new Map<string, CachedRoute>();
+    const routes: Record<string, EdgeRoute> = {};
+
+    edges.forEach(edge => {
+      const sourceBox = nextBoxes.get(edge.source);
+      const targetBox = nextBoxes.get(edge.target);
+      if (!sourceBox || !targetBox || edge.source === edge.target) return;
+
+      const cached = cache.get(edge.id);
+      if (
+        cached
+        && cached.source === edge.source
+        && cached.target === edge.target
+        && !changedIds.has(edge.source)
+        && !changedIds.has(edge.target)
+        && !changedBoxes.some(box => intersects(box, cached.area))
+      ) {
+        nextCache.set(edge.id, cached);
+        routes[edge.id] = cached.route;
+        return;
+      }
+
+      const computed = style === 'straight'
+        ? { area: union(sourceBox, targetBox), points: straightRoute(sourceBox, targetBox) }
+        : findRoute(edge, sourceBox, targetBox, obstacles, padding, bendPenalty);
+
+      const result = {
+        points: computed.points,
+        path: toPath(computed.points, style === 'spline'),
+      };
+      nextCache.set(edge.id, {
+        source: edge.source,
+        target: edge.target,
+        area: computed.area,
+        route: result,
+      });
+      routes[edge.id] = result;
+    });
+
+    cache = nextCache;
+    return routes;
+  };
+
+  const clear = () => {
+    boxes = new Map();
+    cache = new Map();
+  };
+
+  return { route, clear };
+}
+
+/**
+ * Find an orthogonal route between two boxes that avoids the other boxes
+ * Falls back to a straight line when the target cannot be reached
+ */
+function findRoute(
+  edge: Edge,
+  sourceBox: Box,
+  targetBox: Box,
+  allBoxes: [string, Box][],
+  padding: number,
+  bendPenalty: number
+): { area: Box; points: Position[] } {
+  const start = center(sourceBox);
+  const end = center(targetBox);
+
+  // Only boxes near the edge are obstacles; routes may detour around them
+  const largest = Math.max(
+    sourceBox.maxX - sourceBox.minX, sourceBox.maxY - sourceBox.minY,
+    targetBox.maxX - targetBox.minX, targetBox.maxY - targetBox.minY
+  );
+  const region = expand(union(sourceBox, targetBox), largest / 2 + padding * 4);
+
+  const obstacles: Box[] = [];
+  let area = region;
+  allBoxes.forEach(([id, box]) => {
+    if (id === edge.source || id === edge.target || !intersects(box, region)) return;
+    const padded = expand(box, padding);
+    obstacles.push(padded);
+    area = union(area, padded);
+  });
+
+  // Grid lines through the route ends, the midpoints and the obstacle borders
+  const xs = uniqueSorted([
+    start.x, end.x, (start.x + end.x) / 2, area.minX, area.maxX,
+    ...obstacles.flatMap(box => [box.minX, box.maxX]),
+  ]);
+  const ys = uniqueSorted([
+    start.y, end.y, (start.y + end.y) / 2, area.minY, area.maxY,
+    ...obstacles.flatMap(box => [box.minY, box.maxY]),
+  ]);
+
+  const columns = xs.length;
+  const rows = ys.length;
+
+  // Mark grid points and segments inside obstacles; every obstacle border is a grid line
+  const blockedPoint = new Uint8Array(columns * rows);
+  const blockedHorizontal = new Uint8Array(columns * rows);
+  const blockedVertical = new Uint8Array(columns * rows);
+  obstacles.forEach(box => {
+    const left = xs.indexOf(box.minX);
+    const right = xs.indexOf(box.maxX);
+    const top = ys.indexOf(box.minY);
+    const bottom = ys.indexOf(box.maxY);
+
+    for (let row = top; row <= bottom; row++) {
+      for (let column = left; column <= right; column++) {
+        const index = row * columns + column;
+        const insideRows = row > top && row < bottom;
+        const insideColumns = column > left && column < right;
+        if (insideRows && insideColumns) blockedPoint[index] = 1;
+        // Segment from this point to the next column / row
+        if (insideRows && column < right) blockedHorizontal[index] = 1;
+        if (insideColumns && row < bottom) blockedVertical[index] = 1;
+      }
+    }
+  });
+
+  // Whether the segment between two neighbouring grid points crosses an obstacle
+  const isBlocked = (from: number, to: number, horizontal: boolean) => {
+    if (blockedPoint[to]) return true;
+    const first = Math.min(from, to);
+    return horizontal ? blockedHorizontal[first] === 1 : blockedVertical[first] === 1;
+  };
+
+  const startIndex = ys.indexOf(start.y) * columns + xs.indexOf(start.x);
+  const endIndex = ys.indexOf(end.y) * columns + xs.indexOf(end.x);
+
+  // A* over (grid point, direction of arrival) states
+  const stateCount = columns * rows * 5;
+  const cost = new Float64Array(stateCount).fill(Infinity);
+  const previous = new Int32Array(stateCount).fill(-1);
+  const heuristic = (index: number) =>
+    Math.abs(xs[index % columns] - end.x) + Math.abs(ys[Math.floor(index / columns)] - end.y);
+
+  const startState = startIndex * 5 + NO_DIRECTION;
+  cost[startState] = 0;
+  const heap: [number, number][] = [[heuristic(startIndex), startState]];
+  let goalState = -1;
+
+  while (heap.length > 0) {
+    const [priority, state] = heapPop(heap);
+    const index = Math.floor(state / 5);
+    const direction = state % 5;
+    if (priority > cost[state] + heuristic(index) + 1e-9) continue;
+
+    if (index === endIndex) {
+      goalState = state;
+      break;
+    }
+
+    const column = index % columns;
+    const row = Math.floor(index / columns);
+
+    DIRECTIONS.forEach(([dx, dy], nextDirection) => {
+      // Never turn back on the segment just travelled
+      if (direction !== NO_DIRECTION && (direction ^ 1) === nextDirection) return;
+
+      const nextColumn = column + dx;
+      const nextRow = row + dy;
+      if (nextColumn < 0 || nextColumn >= columns || nextRow < 0 || nextRow >= rows) return;
+
+      const nextIndex = nextRow * columns + nextColumn;
+      if (isBlocked(index, nextIndex, dx !== 0)) return;
+
+      const x = xs[nextColumn];
+      const y = ys[nextRow];
+      const nextState = nextIndex * 5 + nextDirection;
+      const turn = direction !== NO_DIRECTION && direction !== nextDirection ? bendPenalty : 0;
+      const nextCost = cost[state] + Math.abs(x - xs[column]) + Math.abs(y - ys[row]) + turn;
+
+      if (nextCost < cost[nextState]) {
+        cost[nextState] = nextCost;
+        previous[nextState] = state;
+        heapPush(heap, [nextCost + heuristic(nextIndex), nextState]);
+      }
+    });
+  }
+
+  if (goalState === -1) {
+    return { area, points: straightRoute(sourceBox, targetBox) };
+  }
+
+  // Walk back from the goal, keeping only the corners
+  const points: Position[] = [];
+  for (let state = goalState; state !== -1; state = previous[state]) {
+    const index = Math.floor(state / 5);
+    const point = { x: xs[index % columns], y: ys[Math.floor(index / columns)] };
+    const last = points[points.length - 1];
+    if (!last || last.x !== point.x || last.y !== point.y) points.push(point);
+  }
+  points.reverse();
+
+  return { area, points: clipRoute(simplify(points), sourceBox, targetBox) };
+}
+
+/**
+ * A straight route between the borders of two boxes
+ */
+function straightRoute(sourceBox: Box, targetBox: Box): Position[] {
+  const start = center(sourceBox);
+  const end = center(targetBox);
+  return [exitPoint(start, end, sourceBox), exitPoint(end, start, targetBox)];
+}
+
+/**
+ * Trim a route that runs from center to center so it starts and ends on the box borders
+ */
+function clipRoute(points: Position[], sourceBox: Box, targetBox: Box): Position[] {
+  if (points.length < 2) return points;
+
+  let first = 0;
+  while (first < points.length - 2 && contains(sourceBox, points[first + 1])) first++;
+  let last = points.length - 1;
+  while (last > first + 1 && contains(targetBox, points[last - 1])) last--;
+
+  const clipped = points.slice(first, last + 1);
+  clipped[0] = exitPoint(points[first], points[first + 1], sourceBox);
+  clipped[clipped.length - 1] = exitPoint(points[last], points[last - 1], targetBox);
+  return clipped;
+}
+
+/**
+ * Point where the segment from `inside` towards `outside` leaves the box
+ */
+function exitPoint(inside: Position, outside: Position, box: Box): Position {
+  const dx = outside.x - inside.x;
+  const dy = outside.y - inside.y;
+
+  let t = 1;
+  if (dx > 0) t = Math.min(t, (box.maxX - inside.x) / dx);
+  if (dx < 0) t = Math.min(t, (box.minX - inside.x) / dx);
+  if (dy > 0) t = Math.min(t, (box.maxY - inside.y) / dy);
+  if (dy < 0) t = Math.min(t, (box.minY - inside.y) / dy);
+  t = Math.max(0, t);
+
+  return { x: inside.x + dx * t, y: inside.y + dy * t };
+}
+
+/**
+ * Drop points that lie on a straight line between their neighbours
+ */
+function simplify(points: Position[]): Position[] {
+  return points.filter((point, index) => {
+    if (index === 0 || index === points.length - 1) return true;
+    const before = points[index - 1];
+    const after = points[index + 1];
+    return !((before.x === point.x && point.x === after.x) || (before.y === point.y && point.y === after.y));
+  });
+}
+
+/**
+ * SVG path data for a route, optionally rounding every corner into a curve
+ */
+function toPath(points: Position[], smooth: boolean): string {
+  if (points.length === 0) return '';
+
+  let path = `M ${points[0].x} ${points[0].y}`;
+  for (let i = 1; i < points.length; i++) {
+    const point = points[i];
+    if (!smooth || i === points.length - 1) {
+      path += ` L ${point.x} ${point.y}`;
+      continue;
+    }
+
+    // Curve from the middle of the incoming segment to the middle of the outgoing one
+    const before = points[i - 1];
+    const after = points[i + 1];
+    const entry = i === 1 ? before : midpoint(before, point);
+    const exit = i === points.length - 2 ? after : midpoint(point, after);
+    path += ` L ${entry.x} ${entry.y} Q ${point.x} ${point.y} ${exit.x} ${exit.y}`;
+  }
+  return path;
+}
+
+// Geometry helpers for boxes and points
+
+function center(box: Box): Position {
+  return { x: (box.minX + box.maxX) / 2, y: (box.minY + box.maxY) / 2 };
+}
+
+function midpoint(a: Position, b: Position): Position {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
+
+function expand(box: Box, amount: number): Box {
+  return {
+    minX: box.minX - amount,
+    minY: box.minY - amount,
+    maxX: box.maxX + amount,
+    maxY: box.maxY + amount,
+  };
+}
+
+function union(a: Box, b: Box): Box {
+  return {
+    minX: Math.min(a.minX, b.minX),
+    minY: Math.min(a.minY, b.minY),
+    maxX: Math.max(a.maxX, b.maxX),
+    maxY: Math.max(a.maxY, b.maxY),
+  };
+}
+
+function intersects(a: Box, b: Box): boolean {
+  return a.minX < b.maxX && b.minX < a.maxX && a.minY < b.maxY && b.minY < a.maxY;
+}
+
+function contains(box: Box, point: Position): boolean {
+  return point.x >= box.minX && point.x <= box.maxX && point.y >= box.minY && point.y <= box.maxY;
+}
+
+function sameBox(a: Box, b: Box): boolean {
+  return a.minX === b.minX && a.minY === b.minY && a.maxX === b.maxX && a.maxY === b.maxY;
+}
+
+function uniqueSorted(values: number[]): number[] {
+  return Array.from(new Set(values)).sort((a, b) => a - b);
+}
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { createForceSimulation, ForceSimulation } from './simulation';
+import { Node, Edge, Position } from '../types/graph';
+
+const nodes: Node[] = ['a', 'b', 'c'].map(id => ({ id }));
+const edges: Edge[] = [
+  { id: 'e1', source: 'a', target: 'b' },
+  { id: 'e2', source: 'b', target: 'c' },
+];
+const start: Record<string, Position> = {
+  a: { x: -300, y: 0 },
+  b: { x: 0, y: 10 },
+  c: { x: 300, y: -10 },
+};
+
+/**
+ * Tick until the simulation cools down, returning the number of ticks
+ */
+function runToRest(simulation: ForceSimulation, limit = 10000): number {
+  let ticks = 0;
+  while (simulation.tick() && ticks < limit) ticks++;
+  return ticks;
+}
+
+const distance = (p: Position, q: Position) => Math.hypot(p.x - q.x, p.y - q.y);
+
+describe('createForceSimulation', () => {
+  it('cools down and comes to rest', () => {
+    const simulation = createForceSimulation(nodes, edges, start);
+
+    const ticks = runToRest(simulation);
+    const rest = simulation.getPositions();
+    simulation.tick();
+
+    expect(ticks).toBeLessThan(10000);
+    expect(simulation.isActive()).toBe(false);
+    // Motion has died down by the time alpha drops below alphaMin
+    Object.keys(rest).forEach(id => {
+      expect(distance(simulation.getPositions()[id], rest[id])).toBeLessThan(0.5);
+    });
+  });
+
+  it('pulls connected nodes towards the link distance', () => {
+    const simulation = createForceSimulation(nodes, edges, start, { linkDistance: 100 });
+
+    runToRest(simulation);
+    const positions = simulation.getPositions();
+
+    // Both links were 300 long; repulsion keeps them a little above the link distance
+    expect(distance(positions.a, positions.b)).toBeLessThan(200);
+    expect(distance(positions.b, positions.c)).toBeLessThan(200);
+    expect(distance(positions.a, positions.c)).toBeGreaterThan(distance(positions.a, positions.b));
+  });
+
+  it('places nodes without a position next to their neighbours, by seed', () => {
+    const first = createForceSimulation(nodes, edges, { a: { x: 0, y: 0 } }, { seed: 7, linkDistance: 50 });
+    const second = createForceSimulation(nodes, edges, { a: { x: 0, y: 0 } }, { seed: 7, linkDistance: 50 });
+
+    const positions = first.getPositions();
+    expect(positions).toEqual(second.getPositions());
+    expect(distance(positions.a, positions.b)).toBeCloseTo(50);
+  });
+
+  it('holds a pinned node while its neighbours follow it', () => {
+    const simulation = createForceSimulation(nodes, edges, start);
+    runToRest(simulation);
+    const before = simulation.getPositions();
+
+    const pin = { x: before.a.x - 400, y: before.a.y };
+    simulation.pin('a', pin);
+    for (let i = 0; i < 100; i++) simulation.tick();
+    const held = simulation.getPositions();
+
+    expect(held.a).toEqual(pin);
+    expect(held.b.x).toBeLessThan(before.b.x);
+    // The drag alpha target keeps the simulation warm while a node is held
+    expect(simulation.isActive()).toBe(true);
+  });
+
+  it('cools down again once a node is released', () => {
+    const simulation = createForceSimulation(nodes, edges, start);
+    simulation.pin('a', { x: -500, y: 0 });
+    for (let i = 0; i < 10; i++) simulation.tick();
+
+    simulation.unpin('a');
+    const ticks = runToRest(simulation);
+
+    expect(ticks).toBeLessThan(10000);
+    expect(simulation.isActive()).toBe(false);
+    // Released nodes move freely again
+    expect(simulation.getPositions().a).not.toEqual({ x: -500, y: 0 });
+  });
+
+  it('holds fixed pins given at creation, where they were last dropped', () => {
+    const simulation = createForceSimulation(nodes, edges, start, { pins: { a: { x: -500, y: 100 } } });
+    runToRest(simulation);
+    expect(simulation.getPositions().a).toEqual({ x: -500, y: 100 });
+
+    simulation.pin('a', { x: 200, y: 200 });
+    simulation.tick();
+    simulation.unpin('a');
+    runToRest(simulation);
+
+    expect(simulation.getPositions().a).toEqual({ x: 200, y: 200 });
+  });
+
+  it('continues from positions set from outside', () => {
+    const simulation = createForceSimulation(nodes, edges, start);
+    runToRest(simulation);
+
+    simulation.setPositions({ a: { x: 1000, y: 1000 }, unknown: { x: 0, y: 0 } });
+    expect(simulation.getPositions().a).toEqual({ x: 1000, y: 1000 });
+
+    simulation.reheat();
+    simulation.tick();
+    // Velocities were reset, so the node starts moving from the new position
+    expect(distance(simulation.getPositions().a, { x: 1000, y: 1000 })).toBeLessThanOrEqual(50);
+  });
+
+  it('uses the Barnes-Hut approximation when asked', () => {
+    const simulation = createForceSimulation(nodes, edges, start, { approximation: 'barnes-hut' });
+
+    expect(runToRest(simulation)).toBeLessThan(10000);
+    Object.values(simulation.getPositions()).forEach(position => {
+      expect(Number.isFinite(position.x) && Number.isFinite(position.y)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Live force simulation that advances one tick at a time
+ * Uses the same forces as the force layout, with a d3-style alpha that cools
+ * the simulation down and can be reheated while nodes are dragged
+ */
+import { Node, Edge, Position } from '../types/graph';
+import { applyExactRepulsion, applyBarnesHutRepulsion, SimulationNode } from './repulsion';
+import { createRandom } from '../utils/random';
+
+export interface ForceSimulationOptions {
+  /** Strength of attraction between connected nodes */
+  attractionForce?: number;
+  /** Strength of repulsion between nodes */
+  repulsionForce?: number;
+  /** Distance between connected nodes */
+  linkDistance?: number;
+  /** Center gravity strength */
+  centerGravity?: number;
+  /** X position nodes are pulled towards */
+  centerX?: number;
+  /** Y position nodes are pulled towards */
+  centerY?: number;
+  /** Starting alpha; higher values let nodes move further */
+  alpha?: number;
+  /** The simulation stops once alpha drops below this value */
+  alphaMin?: number;
+  /** Rate at which alpha approaches its target each tick */
+  alphaDecay?: number;
+  /** Alpha target while a node is held, keeping neighbours moving */
+  dragAlphaTarget?: number;
+  /** Fraction of velocity lost each tick */
+  velocityDecay?: number;
+  /** How repulsion is computed: 'exact' compares every pair, 'barnes-hut' uses a quadtree approximation */
+  approximation?: 'exact' | 'barnes-hut';
+  /** Barnes–Hut accuracy threshold (cell size / distance); lower is more accurate but slower */
+  theta?: number;
+  /** Seed for the positions of nodes that start without one */
+  seed?: number | string;
+  /** Nodes held at fixed positions; a dragged fixed node stays where it is dropped */
+  pins?: Record<string, Position>;
+}
+
+/**
+ * Handle to a running force simulation
+ */
+export interface ForceSimulation {
+  /** Advance the simulation by one step; returns whether it is still active */
+  tick: () => boolean;
+  /** Current node positions */
+  getPositions: () => Record<string, Position>;
+  /** Whether alpha is still above alphaMin */
+  isActive: () => boolean;
+  /** Raise alpha so the simulation starts moving again */
+  reheat: (alpha?: number) => void;
+  /** Hold a node at the given position; neighbours keep reacting to it */
+  pin: (nodeId: string, position: Position) => void;
+  /** Release a held node and let the simulation settle */
+  unpin: (nodeId: string) => void;
+  /** Move nodes to positions changed outside the simulation, stopping their motion */
+  setPositions: (positions: Record<string, Position>) => void;
+}
+
+// Largest distance a node may travel in one tick, keeps close encounters from exploding
+const MAX_SPEED = 50;
+
+/**
+ * Create a force simulation starting from the given positions
+ * Nodes without a position start next to their positioned neighbours
+ */
+export function createForceSimulation(
+  nodes: Node[],
+  edges: Edge[],
+  initialPositions: Record<string, Position>,
+  options: ForceSimulationOptions = {}
+): ForceSimulation {
+  const {
+    attractionForce = 0.1,
+    repulsionForce = 2000,
+    linkDistance = 100,
+    centerGravity = 0.01,
+    centerX = 0,
+    centerY = 0,
+    alphaMin = 0.001,
+    alphaDecay = 1 - Math.pow(alphaMin, 1 / 300),
+    dragAlphaTarget = 0.3,
+    velocityDecay = 0.4,
+    approximation = 'exact',
+    theta = 0.9,
+    seed,
+    pins = {},
+  } = options;
+
+  let alpha = options.alpha ?? 0.5;
+  let alphaTarget = 0;
+
+  const random = createRandom(seed);
+  const simPositions: Record<string, SimulationNode> = {};
+  // Nodes held while dragged, and nodes fixed for the whole simulation
+  const pinned = new Map<string, Position>();
+  const fixed = new Map<string, Position>();
+
+  // Only keep edges between known nodes
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const simEdges = edges.filter(edge =>
+    edge.source !== edge.target && nodeIds.has(edge.source) && nodeIds.has(edge.target)
+  );
+
+  nodes.forEach(node => {
+    const pin = pins[node.id];
+    if (pin) fixed.set(node.id, { x: pin.x, y: pin.y });
+
+    const position = pin || initialPositions[node.id];
+    if (position) {
+      simPositions[node.id] = { x: position.x, y: position.y, vx: 0, vy: 0 };
+    }
+  });
+
+  // Place new nodes around their positioned neighbours, or near the center
+  nodes.forEach(node => {
+    if (simPositions[node.id]) return;
+
+    let sumX = 0;
+    let sumY = 0;
+    let count = 0;
+    simEdges.forEach(edge => {
+      const neighbour = edge.source === node.id
+        ? simPositions[edge.target]
+        : edge.target === node.id ? simPositions[edge.source] : undefined;
+      if (neighbour) {
+        sumX += neighbour.x;
+        sumY += neighbour.y;
+        count++;
+      }
+    });
+
+    const angle = random() * 2 * Math.PI;
+    simPositions[node.id] = {
+      x: (count ? sumX / count : centerX) + Math.cos(angle) * linkDistance,
+      y: (count ? sumY / count : centerY) + Math.sin(angle) * linkDistance,
+      vx: 0,
+      vy: 0,
+    };
+  });
+
+  const tick = () => {
+    alpha += (alphaTarget - alpha) * alphaDecay;
+
+    const forces: Record<string, { fx: number; fy: number }> = {};
+    nodes.forEach(node => {
+      forces[node.id] = { fx: 0, fy: 0 };
+    });
+
+    if (approximation === 'barnes-hut') {
+      applyBarnesHutRepulsion(nodes, simPositions, forces, repulsionForce, theta);
+    } else {
+      applyExactRepulsion(nodes, simPositions, forces, repulsionForce);
+    }
+
+    simEdges.forEach(edge => {
+      const sourcePos = simPositions[edge.source];
+      const targetPos = simPositions[edge.target];
+      const dx = targetPos.x - sourcePos.x;
+      const dy = targetPos.y - sourcePos.y;
+      const distance = Math.sqrt(dx * dx + dy * dy) || 0.1;
+
+      // Force is proportional to distance from ideal length
+      const force = (distance - linkDistance) * attractionForce;
+      const forceX = dx / distance * force;
+      const forceY = dy / distance * force;
+
+      forces[edge.source].fx += forceX;
+      forces[edge.source].fy += forceY;
+      forces[edge.target].fx -= forceX;
+      forces[edge.target].fy -= forceY;
+    });
+
+    nodes.forEach(node => {
+      const pos = simPositions[node.id];
+      const force = forces[node.id];
+      const pin = pinned.get(node.id) || fixed.get(node.id);
+
+      if (pin) {
+        pos.x = pin.x;
+        pos.y = pin.y;
+        pos.vx = 0;
+        pos.vy = 0;
+        return;
+      }
+
+      force.fx += (centerX - pos.x) * centerGravity;
+      force.fy += (centerY - pos.y) * centerGravity;
+
+      pos.vx = (pos.vx + force.fx * alpha) * (1 - velocityDecay);
+      pos.vy = (pos.vy + force.fy * alpha) * (1 - velocityDecay);
+
+      const speed = Math.sqrt(pos.vx * pos.vx + pos.vy * pos.vy);
+      if (speed > MAX_SPEED) {
+        pos.vx *= MAX_SPEED / speed;
+        pos.vy *= MAX_SPEED / speed;
+      }
+
+      pos.x += pos.vx;
+      pos.y += pos.vy;
+    });
+
+    return alpha >= alphaMin;
+  };
+
+  const getPositions = () => {
+    const positions: Record<string, Position> = {};
+    nodes.forEach(node => {
+      const pos = simPositions[node.id];
+      positions[node.id] = { x: pos.x, y: pos.y };
+    });
+    return positions;
+  };
+
+  const reheat = (value = dragAlphaTarget) => {
+    alpha = Math.max(alpha, value);
+  };
+
+  const pin = (nodeId: string, position: Position) => {
+    const pos = simPositions[nodeId];
+    if (!pos) return;
+
+    pinned.set(nodeId, { x: position.x, y: position.y });
+    pos.x = position.x;
+    pos.y = position.y;
+    alphaTarget = dragAlphaTarget;
+    reheat();
+  };
+
+  const unpin = (nodeId: string) => {
+    const held = pinned.get(nodeId);
+    if (!held) return;
+
+    pinned.delete(nodeId);
+    if (fixed.has(nodeId)) fixed.set(nodeId, held);
+    if (pinned.size === 0) alphaTarget = 0;
+  };
+
+  const setPositions = (positions: Record<string, Position>) => {
+    Object.entries(positions).forEach(([nodeId, position]) => {
+      const pos = simPositions[nodeId];
+      if (!pos) return;
+      pos.x = position.x;
+      pos.y = position.y;
+      pos.vx = 0;
+      pos.vy = 0;
+    });
+  };
+
+  return {
+    tick,
+    getPositions,
+    isActive: () => alpha >= alphaMin,
+    reheat,
+    pin,
+    unpin,
+    setPositions,
+  };
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { spiralLayout } from './spiral';
+import { Node, Edge, Position } from '../types/graph';
+
+const center = { x: 400, y: 300 };
+const distance = (p: Position, q: Position) => Math.hypot(p.x - q.x, p.y - q.y);
+
+// Node IDs from the center outwards
+const order = (positions: Record<string, Position>) =>
+  Object.keys(positions).sort((a, b) => distance(positions[a], center) - distance(positions[b], center));
+
+const nodes: Node[] = [
+  { id: 'a', metadata: { rank: 2 } },
+  { id: 'b', metadata: { rank: 3 } },
+  { id: 'c', metadata: { rank: 1 } },
+  { id: 'd' },
+];
+const edges: Edge[] = [
+  { id: 'e1', source: 'c', target: 'a' },
+  { id: 'e2', source: 'c', target: 'b' },
+  { id: 'e3', source: 'c', target: 'd' },
+  { id: 'e4', source: 'a', target: 'b' },
+];
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('spiralLayout', () => {
+  it('puts the highest degree at the center and keeps input order for ties', () => {
+    const positions = spiralLayout(nodes, edges, 800, 600);
+
+    expect(positions.c).toEqual(center);
+    expect(order(positions)).toEqual(['c', 'a', 'b', 'd']);
+  });
+
+  it('orders by metadata, with missing values on the outside', () => {
+    expect(order(spiralLayout(nodes, edges, 800, 600, { orderBy: 'metadata', metadataKey: 'rank' })))
+      .toEqual(['b', 'a', 'c', 'd']);
+    expect(order(spiralLayout(nodes, edges, 800, 600, {
+      orderBy: 'metadata',
+      metadataKey: 'rank',
+      sortDirection: 'asc',
+    }))).toEqual(['c', 'a', 'b', 'd']);
+  });
+
+  it('falls back to input order without a metadata key', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(order(spiralLayout(nodes, edges, 800, 600, { orderBy: 'metadata' }))).toEqual(['a', 'b', 'c', 'd']);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('without a metadataKey'));
+  });
+
+  it('steps a constant arc length along an archimedean spiral', () => {
+    const many: Node[] = Array.from({ length: 30 }, (_, i) => ({ id: `n${i}` }));
+
+    const positions = spiralLayout(many, [], 800, 600, { orderBy: 'input', spacing: 50 });
+
+    for (let i = 1; i < many.length; i++) {
+      const gap = distance(positions[`n${i - 1}`], positions[`n${i}`]);
+      // Steps are taken from the inner radius, so they run slightly long near the center
+      expect(gap).toBeGreaterThan(49);
+      expect(gap).toBeLessThan(52);
+    }
+  });
+
+  it('keeps phyllotaxis neighbours roughly spacing apart', () => {
+    const many: Node[] = Array.from({ length: 50 }, (_, i) => ({ id: `n${i}` }));
+
+    const positions = spiralLayout(many, [], 800, 600, { spiralType: 'phyllotaxis', orderBy: 'input', spacing: 40 });
+
+    many.forEach(({ id }) => {
+      const nearest = Math.min(...many.filter(other => other.id !== id).map(other =>
+        distance(positions[id], positions[other.id])));
+      expect(nearest).toBeGreaterThan(20);
+      expect(nearest).toBeLessThan(60);
+    });
+  });
+
+  it('handles empty graphs and single nodes', () => {
+    expect(spiralLayout([], [], 800, 600)).toEqual({});
+    expect(spiralLayout([{ id: 'only' }], [], 800, 600, { spiralType: 'phyllotaxis' })).toEqual({ only: center });
+    expect(spiralLayout([{ id: 'only' }], [], 800, 600, { centerX: 0, centerY: 0 })).toEqual({ only: { x: 0, y: 0 } });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Spiral layout places nodes along a spiral starting at the center
+ * The first node in the chosen order sits in the middle, making it suited to ranked lists
+ */
+import { Node, Edge, Position } from '../types/graph';
+
+export interface SpiralLayoutOptions {
+  /** Shape of the spiral: evenly spaced turns or a sunflower-like phyllotaxis pattern */
+  spiralType?: 'archimedean' | 'phyllotaxis';
+  /** How nodes are ordered from the center outwards */
+  orderBy?: 'degree' | 'metadata' | 'input';
+  /** Metadata key to order by when `orderBy` is 'metadata' */
+  metadataKey?: string;
+  /** Order direction; 'desc' puts the highest value at the center */
+  sortDirection?: 'asc' | 'desc';
+  /** Distance between consecutive nodes */
+  spacing?: number;
+  /** Distance between successive turns of an archimedean spiral */
+  turnSpacing?: number;
+  /** Angle between consecutive nodes of a phyllotaxis spiral (defaults to the golden angle) */
+  angleStep?: number;
+  /** Angle of the first turn in radians */
+  startAngle?: number;
+  /** Center X position of the spiral */
+  centerX?: number;
+  /** Center Y position of the spiral */
+  centerY?: number;
+}
+
+// The golden angle gives the most even phyllotaxis packing
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+/**
+ * Calculate node positions in a spiral layout
+ */
+export function spiralLayout(
+  nodes: Node[],
+  edges: Edge[],
+  width: number,
+  height: number,
+  options: SpiralLayoutOptions = {}
+): Record<string, Position> {
+  const {
+    spiralType = 'archimedean',
+    orderBy = 'degree',
+    metadataKey,
+    sortDirection = 'desc',
+    spacing = 100,
+    turnSpacing = spacing,
+    angleStep = GOLDEN_ANGLE,
+    startAngle = 0,
+    centerX = width / 2,
+    centerY = height / 2,
+  } = options;
+
+  // If there are no nodes, return an empty positioning object
+  if (!nodes.length) return {};
+
+  const orderedNodes = orderNodes(nodes, edges, orderBy, metadataKey, sortDirection);
+  const positions: Record<string, Position> = {};
+
+  if (spiralType === 'phyllotaxis') {
+    // Radius grows with the square root of the index so every node covers the same area;
+    // with the golden angle, neighbours end up roughly `spacing` apart
+    const scale = spacing / Math.sqrt((2 * Math.PI) / Math.sqrt(3));
+    orderedNodes.forEach((node, index) => {
+      const radius = scale * Math.sqrt(index);
+      const angle = startAngle + index * angleStep;
+      positions[node.id] = {
+        x: centerX + radius * Math.cos(angle),
+        y: centerY + radius * Math.sin(angle),
+      };
+    });
+    return positions;
+  }
+
+  // Archimedean spiral r = b * theta, stepping by a constant arc length
+  const b = turnSpacing / (2 * Math.PI);
+  let theta = 0;
+
+  orderedNodes.forEach((node, index) => {
+    if (index > 0) {
+      const radius = b * theta;
+      // Arc length ds = sqrt(r² + b²) dθ
+      theta += spacing / Math.sqrt(radius * radius + b * b);
+    }
+
+    const radius = b * theta;
+    const angle = startAngle + theta;
+    positions[node.id] = {
+      x: centerX + radius * Math.cos(angle),
+      y: centerY + radius * Math.sin(angle),
+    };
+  });
+
+  return positions;
+}
+
+/**
+ * Order nodes from the center of the spiral outwards
+ */
+function orderNodes(
+  nodes: Node[],
+  edges: Edge[],
+  orderBy: SpiralLayoutOptions['orderBy'],
+  metadataKey: string | undefined,
+  sortDirection: 'asc' | 'desc'
+): Node[] {
+  if (orderBy === 'input') return [...nodes];
+
+  const sign = sortDirection === 'desc' ? -1 : 1;
+  const indexOf = new Map(nodes.map((node, index) => [node.id, index]));
+  // Ties keep their input order
+  const byInput = (a: Node, b: Node) => indexOf.get(a.id)! - indexOf.get(b.id)!;
+
+  if (orderBy === 'metadata') {
+    if (!metadataKey) {
+      console.warn('Spiral layout ordered by metadata without a metadataKey. Using input order.');
+      return [...nodes];
+    }
+
+    return [...nodes].sort((a, b) => {
+      const valueA = a.metadata?.[metadataKey];
+      const valueB = b.metadata?.[metadataKey];
+
+      // Nodes without a value always go to the outside
+      const hasA = valueA !== undefined && valueA !== null;
+      const hasB = valueB !== undefined && valueB !== null;
+      if (!hasA || !hasB) {
+        return hasA === hasB ? byInput(a, b) : (hasA ? -1 : 1);
+      }
+
+      let comparison: number;
+      if (typeof valueA === 'number' && typeof valueB === 'number') {
+        comparison = valueA - valueB;
+      } else {
+        comparison = String(valueA).localeCompare(String(valueB));
+      }
+
+      return comparison * sign || byInput(a, b);
+    });
+  }
+
+  // Order by number of connections
+  const degree: Record<string, number> = {};
+  nodes.forEach(node => {
+    degree[node.id] = 0;
+  });
+
+  edges.forEach(edge => {
+    if (edge.source === edge.target) return;
+    if (degree[edge.source] !== undefined) degree[edge.source]++;
+    if (degree[edge.target] !== undefined) degree[edge.target]++;
+  });
+
+  return [...nodes].sort((a, b) => (degree[a.id] - degree[b.id]) * sign || byInput(a, b));
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { stressLayout } from './stress';
+import { Node, Edge, Position } from '../types/graph';
+
+const toNodes = (ids: string[]): Node[] => ids.map(id => ({ id }));
+
+const toEdges = (pairs: [string, string, number?][]): Edge[] =>
+  pairs.map(([source, target, weight], index) => ({
+    id: `e${index}`,
+    source,
+    target,
+    data: weight === undefined ? undefined : { weight },
+  }));
+
+const distance = (a: Position, b: Position) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Breadth-first graph distances between all pairs of an unweighted graph
+ */
+function graphDistances(nodes: Node[], edges: Edge[]): Map<string, Map<string, number>> {
+  const neighbors = new Map<string, string[]>(nodes.map(node => [node.id, []]));
+  edges.forEach(edge => {
+    neighbors.get(edge.source)!.push(edge.target);
+    neighbors.get(edge.target)!.push(edge.source);
+  });
+
+  const result = new Map<string, Map<string, number>>();
+  nodes.forEach(node => {
+    const row = new Map([[node.id, 0]]);
+    const queue = [node.id];
+    for (let head = 0; head < queue.length; head++) {
+      const current = queue[head];
+      neighbors.get(current)!.forEach(next => {
+        if (row.has(next)) return;
+        row.set(next, row.get(current)! + 1);
+        queue.push(next);
+      });
+    }
+    result.set(node.id, row);
+  });
+  return result;
+}
+
+/**
+ * Stress of a layout with the weights used by the layout (d⁻²)
+ */
+function stressOf(
+  nodes: Node[],
+  distances: Map<string, Map<string, number>>,
+  positions: Record<string, Position>,
+  edgeLength: number
+): number {
+  let stress = 0;
+  for (let i = 0; i < nodes.length; i++) {
+    for (let j = i + 1; j < nodes.length; j++) {
+      const target = distances.get(nodes[i].id)!.get(nodes[j].id)! * edgeLength;
+      const difference = distance(positions[nodes[i].id], positions[nodes[j].id]) - target;
+      stress += difference * difference / (target * target);
+    }
+  }
+  return stress;
+}
+
+describe('stressLayout', () => {
+  it('returns an empty object for an empty graph and centers a single node', () => {
+    expect(stressLayout([], [], 800, 600)).toEqual({});
+    expect(stressLayout(toNodes(['a']), [], 800, 600)).toEqual({ a: { x: 400, y: 300 } });
+  });
+
+  it('recovers a path as a straight line', () => {
+    const nodes = toNodes(['a', 'b', 'c', 'd']);
+    const edges = toEdges([['a', 'b'], ['b', 'c'], ['c', 'd']]);
+
+    const positions = stressLayout(nodes, edges, 800, 600, { edgeLength: 100 });
+
+    expect(distance(positions.a, positions.b)).toBeCloseTo(100, 0);
+    expect(distance(positions.b, positions.c)).toBeCloseTo(100, 0);
+    expect(distance(positions.a, positions.c)).toBeCloseTo(200, 0);
+    expect(distance(positions.a, positions.d)).toBeCloseTo(300, 0);
+  });
+
+  it('recovers a square from weighted sides and diagonals', () => {
+    const nodes = toNodes(['a', 'b', 'c', 'd']);
+    const edges = toEdges([
+      ['a', 'b', 1], ['b', 'c', 1], ['c', 'd', 1], ['d', 'a', 1],
+      ['a', 'c', Math.SQRT2], ['b', 'd', Math.SQRT2],
+    ]);
+
+    const positions = stressLayout(nodes, edges, 800, 600, { edgeLength: 100 });
+
+    expect(distance(positions.a, positions.b)).toBeCloseTo(100, 1);
+    expect(distance(positions.b, positions.c)).toBeCloseTo(100, 1);
+    expect(distance(positions.c, positions.d)).toBeCloseTo(100, 1);
+    expect(distance(positions.d, positions.a)).toBeCloseTo(100, 1);
+    expect(distance(positions.a, positions.c)).toBeCloseTo(100 * Math.SQRT2, 1);
+    expect(distance(positions.b, positions.d)).toBeCloseTo(100 * Math.SQRT2, 1);
+  });
+
+  it('centers the layout in the viewport', () => {
+    const nodes = toNodes(['a', 'b', 'c']);
+    const edges = toEdges([['a', 'b'], ['b', 'c']]);
+
+    const positions = stressLayout(nodes, edges, 800, 600);
+    const xs = Object.values(positions).map(p => p.x);
+    const ys = Object.values(positions).map(p => p.y);
+
+    expect(xs.reduce((a, b) => a + b) / 3).toBeCloseTo(400);
+    expect(ys.reduce((a, b) => a + b) / 3).toBeCloseTo(300);
+  });
+
+  it('never increases the stress from one iteration to the next', () => {
+    // A 3×3 grid graph, which MDS alone does not place exactly
+    const ids = ['00', '01', '02', '10', '11', '12', '20', '21', '22'];
+    const nodes = toNodes(ids);
+    const edges = toEdges([
+      ['00', '01'], ['01', '02'], ['10', '11'], ['11', '12'], ['20', '21'], ['21', '22'],
+      ['00', '10'], ['10', '20'], ['01', '11'], ['11', '21'], ['02', '12'], ['12', '22'],
+      ['00', '11'],
+    ]);
+    const distances = graphDistances(nodes, edges);
+
+    const stresses = [0, 1, 2, 3, 5, 8, 13, 21].map(iterations =>
+      stressOf(nodes, distances, stressLayout(nodes, edges, 800, 600, { iterations, tolerance: 0 }), 100)
+    );
+
+    for (let i = 1; i < stresses.length; i++) {
+      expect(stresses[i]).toBeLessThanOrEqual(stresses[i - 1] + 1e-9);
+    }
+    expect(stresses[stresses.length - 1]).toBeLessThan(stresses[0]);
+  });
+
+  it('is deterministic for a given seed', () => {
+    const nodes = toNodes(['a', 'b', 'c', 'd']);
+    const edges = toEdges([['a', 'b'], ['b', 'c'], ['c', 'a'], ['c', 'd']]);
+
+    expect(stressLayout(nodes, edges, 800, 600, { seed: 7 }))
+      .toEqual(stressLayout(nodes, edges, 800, 600, { seed: 7 }));
+  });
+
+  it('lays out disconnected graphs without overlapping components', () => {
+    const nodes = toNodes(['a', 'b', 'c', 'x', 'y', 'lonely']);
+    const edges = toEdges([['a', 'b'], ['b', 'c'], ['x', 'y']]);
+
+    const positions = stressLayout(nodes, edges, 800, 600, { edgeLength: 100 });
+
+    Object.values(positions).forEach(position => {
+      expect(Number.isFinite(position.x)).toBe(true);
+      expect(Number.isFinite(position.y)).toBe(true);
+    });
+
+    // Edges keep their length and nodes of different components stay apart
+    expect(distance(positions.a, positions.b)).toBeCloseTo(100, -1);
+    expect(distance(positions.x, positions.y)).toBeCloseTo(100, -1);
+    ['a', 'b', 'c'].forEach(id => {
+      expect(distance(positions[id], positions.x)).toBeGreaterThan(50);
+      expect(distance(positions[id], positions.lonely)).toBeGreaterThan(50);
+    });
+  });
+});
@@ -0,0 +1,330 @@
+/**
+ * Stress majorization layout places nodes so that on-screen distances match
+ * shortest-path distances in the graph. It starts from classical MDS and then
+ * minimizes the stress of the layout
+ */
+import { Node, Edge, Position } from '../types/graph';
+import { createRandom } from '../utils/random';
+import { heapPush, heapPop } from './heap';
+
+export interface StressLayoutOptions {
+  /** Target on-screen length of an edge with weight 1 */
+  edgeLength?: number;
+  /** Maximum number of stress majorization iterations */
+  iterations?: number;
+  /** Stop once the relative stress improvement drops below this value */
+  tolerance?: number;
+  /** Whether to read edge lengths from `edge.data.weight` */
+  useEdgeWeights?: boolean;
+  /** How weights are interpreted: as a distance, or as a strength (length = 1 / weight) */
+  weightMode?: 'distance' | 'strength';
+  /** Seed for the initial vectors; the default gives the same layout on every run */
+  seed?: number | string;
+  /** Callback invoked after each iteration with the completed fraction (0 to 1) */
+  onProgress?: (progress: number) => void;
+}
+
+/**
+ * Calculate node positions in a stress majorization layout
+ */
+export function stressLayout(
+  nodes: Node[],
+  edges: Edge[],
+  width: number,
+  height: number,
+  options: StressLayoutOptions = {}
+): Record<string, Position> {
+  const {
+    edgeLength = 100,
+    iterations = 100,
+    tolerance = 1e-4,
+    useEdgeWeights = true,
+    weightMode = 'distance',
+    seed = 1,
+    onProgress,
+  } = options;
+
+  // If there are no nodes, return an empty positioning object
+  if (!nodes.length) return {};
+
+  const centerX = width / 2;
+  const centerY = height / 2;
+
+  if (nodes.length === 1) {
+    return { [nodes[0].id]: { x: centerX, y: centerY } };
+  }
+
+  const n = nodes.length;
+  const indexOf = new Map<string, number>();
+  nodes.forEach((node, index) => indexOf.set(node.id, index));
+
+  // Build a weighted, undirected adjacency list
+  const adjacency: { target: number; length: number }[][] = nodes.map(() => []);
+
+  edges.forEach(edge => {
+    const source = indexOf.get(edge.source);
+    const target = indexOf.get(edge.target);
+    if (source === undefined || target === undefined || source === target) return;
+
+    const length = edgeLength * edgeLengthFactor(edge, useEdgeWeights, weightMode);
+    adjacency[source].push({ target, length });
+    adjacency[target].push({ target: source, length });
+  });
+
+  const distances = allPairsShortestPaths(adjacency);
+
+  // Place disconnected pairs a little further apart than the farthest connected pair
+  let maxDistance = 0;
+  for (let i = 0; i < distances.length; i++) {
+    if (Number.isFinite(distances[i])) maxDistance = Math.max(maxDistance, distances[i]);
+  }
+  const disconnectedDistance = maxDistance + edgeLength;
+  for (let i = 0; i < distances.length; i++) {
+    if (!Number.isFinite(distances[i])) distances[i] = disconnectedDistance;
+  }
+
+  const random = createRandom(seed);
+  const { xs, ys } = classicalMDS(distances, n, random);
+  majorizeStress(distances, n, xs, ys, iterations, tolerance, onProgress);
+
+  // Center the result in the viewport
+  let meanX = 0;
+  let meanY = 0;
+  for (let i = 0; i < n; i++) {
+    meanX += xs[i] / n;
+    meanY += ys[i] / n;
+  }
+
+  const positions: Record<string, Position> = {};
+  nodes.forEach((node, i) => {
+    positions[node.id] = {
+      x: centerX + xs[i] - meanX,
+      y: centerY + ys[i] - meanY,
+    };
+  });
+
+  return positions;
+}
+
+/**
+ * Relative length of an edge derived from `edge.data.weight`
+ */
+function edgeLengthFactor(
+  edge: Edge,
+  useEdgeWeights: boolean,
+  weightMode: 'distance' | 'strength'
+): number {
+  const weight = edge.data?.weight;
+  if (!useEdgeWeights || typeof weight !== 'number' || !(weight > 0)) return 1;
+  return weightMode === 'strength' ? 1 / weight : weight;
+}
+
+/**
+ * Dijkstra from every node, returning a flat n×n distance matrix
+ */
+function allPairsShortestPaths(adjacency: { target: number; length: number }[][]): Float64Array {
+  const n = adjacency.length;
+  const distances = new Float64Array(n * n).fill(Infinity);
+
+  for (let source = 0; source < n; source++) {
+    const row = source * n;
+    distances[row + source] = 0;
+
+    // Binary heap of [distance, node] pairs
+    const heap: [number, number][] = [[0, source]];
+
+    while (heap.length > 0) {
+      const [distance, current] = heapPop(heap);
+      if (distance > distances[row + current]) continue;
+
+      adjacency[current].forEach(({ target, length }) => {
+        const candidate = distance + length;
+        if (candidate < distances[row + target]) {
+          distances[row + target] = candidate;
+          heapPush(heap, [candidate, target]);
+        }
+      });
+    }
+  }
+
+  return distances;
+}
+
+/**
+ * Classical (Torgerson) MDS: the two leading eigenvectors of the
+ * double-centered squared distance matrix give the initial coordinates
+ */
+function classicalMDS(
+  distances: Float64Array,
+  n: number,
+  random: () => number
+): { xs: Float64Array; ys: Float64Array } {
+  // B = -1/2 * J * D² * J
+  const b = new Float64Array(n * n);
+  const rowMeans = new Float64Array(n);
+  let grandMean = 0;
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      const squared = distances[i * n + j] * distances[i * n + j];
+      b[i * n + j] = squared;
+      rowMeans[i] += squared / n;
+    }
+    grandMean += rowMeans[i] / n;
+  }
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      // D² is symmetric, so row means double as column means
+      b[i * n + j] = -0.5 * (b[i * n + j] - rowMeans[i] - rowMeans[j] + grandMean);
+    }
+  }
+
+  const first = powerIteration(b, n, random, null);
+  const second = powerIteration(b, n, random, first);
+
+  const xs = new Float64Array(n);
+  const ys = new Float64Array(n);
+  const scaleX = Math.sqrt(Math.max(first.value, 0));
+  const scaleY = Math.sqrt(Math.max(second.value, 0));
+
+  for (let i = 0; i < n; i++) {
+    // Tiny random offsets separate nodes that MDS puts on the same spot
+    xs[i] = first.vector[i] * scaleX + (random() - 0.5) * 1e-3;
+    ys[i] = second.vector[i] * scaleY + (random() - 0.5) * 1e-3;
+  }
+
+  return { xs, ys };
+}
+
+/**
+ * Find the dominant eigenvector of a symmetric matrix, optionally
+ * deflating a previously found eigenpair
+ */
+function powerIteration(
+  matrix: Float64Array,
+  n: number,
+  random: () => number,
+  deflate: { vector: Float64Array; value: number } | null
+): { vector: Float64Array; value: number } {
+  let vector = new Float64Array(n);
+  for (let i = 0; i < n; i++) vector[i] = random() - 0.5;
+  normalize(vector);
+
+  let value = 0;
+
+  for (let iteration = 0; iteration < 100; iteration++) {
+    const next = multiply(matrix, n, vector);
+
+    if (deflate) {
+      let projection = 0;
+      for (let i = 0; i < n; i++) projection += deflate.vector[i] * vector[i];
+      for (let i = 0; i < n; i++) next[i] -= deflate.value * projection * deflate.vector[i];
+    }
+
+    value = 0;
+    for (let i = 0; i < n; i++) value += vector[i] * next[i];
+
+    if (normalize(next) === 0) break;
+
+    let change = 0;
+    for (let i = 0; i < n; i++) change += Math.abs(next[i] - vector[i]);
+    vector = next;
+
+    if (change < 1e-7) break;
+  }
+
+  return { vector, value };
+}
+
+function multiply(matrix: Float64Array, n: number, vector: Float64Array): Float64Array {
+  const result = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    let sum = 0;
+    const row = i * n;
+    for (let j = 0; j < n; j++) sum += matrix[row + j] * vector[j];
+    result[i] = sum;
+  }
+  return result;
+}
+
+function normalize(vector: Float64Array): number {
+  let length = 0;
+  for (let i = 0; i < vector.length; i++) length += vector[i] * vector[i];
+  length = Math.sqrt(length);
+  if (length > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= length;
+  }
+  return length;
+}
+
+/**
+ * Localized stress majorization (Gansner, Koren & North) with weights d⁻²
+ */
+function majorizeStress(
+  distances: Float64Array,
+  n: number,
+  xs: Float64Array,
+  ys: Float64Array,
+  iterations: number,
+  tolerance: number,
+  onProgress?: (progress: number) => void
+): void {
+  let previousStress = computeStress(distances, n, xs, ys);
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    for (let i = 0; i < n; i++) {
+      let sumWeights = 0;
+      let sumX = 0;
+      let sumY = 0;
+
+      for (let j = 0; j < n; j++) {
+        if (i === j) continue;
+        const target = distances[i * n + j];
+        if (target <= 0) continue;
+
+        const weight = 1 / (target * target);
+        const dx = xs[i] - xs[j];
+        const dy = ys[i] - ys[j];
+        const current = Math.sqrt(dx * dx + dy * dy) || 1e-9;
+
+        sumWeights += weight;
+        sumX += weight * (xs[j] + target * dx / current);
+        sumY += weight * (ys[j] + target * dy / current);
+      }
+
+      if (sumWeights > 0) {
+        xs[i] = sumX / sumWeights;
+        ys[i] = sumY / sumWeights;
+      }
+    }
+
+    if (onProgress) {
+      onProgress((iteration + 1) / iterations);
+    }
+
+    const stress = computeStress(distances, n, xs, ys);
+    if (previousStress === 0 || (previousStress - stress) / previousStress < tolerance) break;
+    previousStress = stress;
+  }
+}
+
+function computeStress(
+  distances: Float64Array,
+  n: number,
+  xs: Float64Array,
+  ys: Float64Array
+): number {
+  let stress = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const target = distances[i * n + j];
+      if (target <= 0) continue;
+      const dx = xs[i] - xs[j];
+      const dy = ys[i] - ys[j];
+      const difference = Math.sqrt(dx * dx + dy * dy) - target;
+      stress += difference * difference / (target * target);
+    }
+  }
+  return stress;
+}
@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import { tidyTreeLayout } from './tidyTree';
+import { Node, Edge, Position } from '../types/graph';
+
+const toEdges = (pairs: [string, string][]): Edge[] =>
+  pairs.map(([source, target], index) => ({ id: `e${index}`, source, target }));
+
+/**
+ * Nodes and edges of a tree given as a parent → children map
+ */
+function tree(children: Record<string, string[]>): { nodes: Node[]; edges: Edge[] } {
+  const ids = new Set<string>();
+  const pairs: [string, string][] = [];
+  Object.entries(children).forEach(([parent, kids]) => {
+    ids.add(parent);
+    kids.forEach(kid => {
+      ids.add(kid);
+      pairs.push([parent, kid]);
+    });
+  });
+  return { nodes: [...ids].map(id => ({ id })), edges: toEdges(pairs) };
+}
+
+/**
+ * IDs of a node and all its descendants
+ */
+function subtree(children: Record<string, string[]>, id: string): string[] {
+  return [id, ...(children[id] || []).flatMap(kid => subtree(children, kid))];
+}
+
+/**
+ * Horizontal extent of a set of nodes on each level (keyed by y)
+ */
+function contours(ids: string[], positions: Record<string, Position>): Map<number, [number, number]> {
+  const levels = new Map<number, [number, number]>();
+  ids.forEach(id => {
+    const { x, y } = positions[id];
+    const [min, max] = levels.get(y) || [Infinity, -Infinity];
+    levels.set(y, [Math.min(min, x), Math.max(max, x)]);
+  });
+  return levels;
+}
+
+const children: Record<string, string[]> = {
+  r: ['a', 'b', 'c'],
+  a: ['a1', 'a2', 'a3'],
+  c: ['c1', 'c2'],
+  c1: ['c11', 'c12', 'c13'],
+  c2: ['c21'],
+};
+
+describe('tidyTreeLayout', () => {
+  it('returns an empty object for an empty graph', () => {
+    expect(tidyTreeLayout([], [], 800, 600)).toEqual({});
+  });
+
+  it('places each level at its depth', () => {
+    const { nodes, edges } = tree(children);
+
+    const positions = tidyTreeLayout(nodes, edges, 800, 600, { levelSpacing: 100 });
+
+    expect(positions.a.y - positions.r.y).toBe(100);
+    expect(positions.c1.y - positions.r.y).toBe(200);
+    expect(positions.c11.y - positions.r.y).toBe(300);
+  });
+
+  it('never lets sibling subtrees overlap', () => {
+    const { nodes, edges } = tree(children);
+    const nodeSpacing = 60;
+
+    const positions = tidyTreeLayout(nodes, edges, 800, 600, { nodeSpacing });
+
+    Object.values(children).forEach(kids => {
+      for (let i = 1; i < kids.length; i++) {
+        const left = contours(subtree(children, kids[i - 1]), positions);
+        const right = contours(subtree(children, kids[i]), positions);
+
+        left.forEach(([, leftMax], y) => {
+          const rightExtent = right.get(y);
+          if (!rightExtent) return;
+          expect(rightExtent[0] - leftMax).toBeGreaterThanOrEqual(nodeSpacing - 1e-9);
+        });
+      }
+    });
+  });
+
+  it('centers parents over their children', () => {
+    const { nodes, edges } = tree(children);
+
+    const positions = tidyTreeLayout(nodes, edges, 800, 600);
+
+    Object.entries(children).forEach(([parent, kids]) => {
+      const first = positions[kids[0]].x;
+      const last = positions[kids[kids.length - 1]].x;
+      expect(positions[parent].x).toBeCloseTo((first + last) / 2);
+    });
+  });
+
+  it('keeps siblings nodeSpacing apart', () => {
+    const { nodes, edges } = tree({ r: ['a', 'b', 'c'] });
+
+    const positions = tidyTreeLayout(nodes, edges, 800, 600, { nodeSpacing: 80 });
+
+    expect(positions.b.x - positions.a.x).toBeCloseTo(80);
+    expect(positions.c.x - positions.b.x).toBeCloseTo(80);
+    expect(positions.r.x).toBeCloseTo(400);
+  });
+
+  it('places the trees of a forest side by side', () => {
+    const forest = { r1: ['a', 'b'], r2: ['c', 'd'], r3: [] };
+    const { nodes, edges } = tree(forest);
+
+    const positions = tidyTreeLayout(nodes, edges, 800, 600, { nodeSpacing: 50, subtreeSpacing: 100 });
+
+    // Every root is on the top level
+    expect(positions.r2.y).toBe(positions.r1.y);
+    expect(positions.r3.y).toBe(positions.r1.y);
+    expect(positions.a.y).toBeGreaterThan(positions.r1.y);
+
+    const first = contours(subtree(forest, 'r1'), positions);
+    const second = contours(subtree(forest, 'r2'), positions);
+    first.forEach(([, max], y) => {
+      const extent = second.get(y);
+      if (extent) expect(extent[0] - max).toBeGreaterThanOrEqual(100 - 1e-9);
+    });
+    expect(positions.r3.x).toBeGreaterThan(positions.r2.x);
+  });
+
+  it('uses the given roots', () => {
+    const { nodes, edges } = tree({ a: ['b'], b: ['c'], c: ['a'] });
+
+    const positions = tidyTreeLayout(nodes, edges, 800, 600, { rootIds: ['b'], levelSpacing: 100 });
+
+    expect(positions.c.y - positions.b.y).toBe(100);
+    expect(positions.a.y - positions.b.y).toBe(200);
+  });
+
+  it('puts every leaf on the deepest level with alignLeaves', () => {
+    const { nodes, edges } = tree(children);
+
+    const positions = tidyTreeLayout(nodes, edges, 800, 600, { alignLeaves: true });
+
+    const leaves = ['a1', 'a2', 'a3', 'b', 'c11', 'c12', 'c13', 'c21'];
+    leaves.forEach(id => expect(positions[id].y).toBe(positions.c11.y));
+    Object.entries(children).forEach(([parent, kids]) => {
+      const first = positions[kids[0]].x;
+      const last = positions[kids[kids.length - 1]].x;
+      expect(positions[parent].x).toBeCloseTo((first + last) / 2);
+    });
+  });
+
+  it('puts the root in the middle and levels on rings when radial', () => {
+    const { nodes, edges } = tree(children);
+
+    const positions = tidyTreeLayout(nodes, edges, 800, 600, { radial: true, levelSpacing: 100 });
+    const radius = (id: string) => Math.hypot(positions[id].x - 400, positions[id].y - 300);
+
+    expect(radius('r')).toBeCloseTo(0);
+    const ring = radius('a');
+    expect(ring).toBeGreaterThanOrEqual(100);
+    expect(radius('b')).toBeCloseTo(ring);
+    expect(radius('c1')).toBeCloseTo(2 * ring);
+    expect(radius('c11')).toBeCloseTo(3 * ring);
+  });
+
+  it('puts every leaf on the outer ring of a radial dendrogram', () => {
+    const { nodes, edges } = tree(children);
+
+    const positions = tidyTreeLayout(nodes, edges, 800, 600, { radial: true, alignLeaves: true });
+    const radius = (id: string) => Math.hypot(positions[id].x - 400, positions[id].y - 300);
+
+    const outer = radius('c11');
+    ['a1', 'a2', 'a3', 'b', 'c12', 'c13', 'c21'].forEach(id => {
+      expect(radius(id)).toBeCloseTo(outer);
+    });
+    expect(radius('a')).toBeLessThan(outer);
+  });
+});
@@ -0,0 +1,420 @@
+/**
+ * Tidy tree layout based on the Reingold–Tilford algorithm (in Buchheim's linear-time form)
+ * Subtrees are packed as closely as their contours allow without overlapping,
+ * and every root of a forest gets its own tree next to the others
+ */
+import { Node, Edge, Position } from '../types/graph';
+import { TreeLayoutOptions } from './tree';
+
+export interface TidyTreeLayoutOptions {
+  /** Direction of the tree: 'top-down', 'bottom-up', 'left-right', 'right-left' (ignored when radial) */
+  direction?: TreeLayoutOptions['direction'];
+  /** Minimum distance between siblings */
+  nodeSpacing?: number;
+  /** Minimum distance between neighbouring nodes with different parents */
+  subtreeSpacing?: number;
+  /** Distance between levels (ring spacing when radial) */
+  levelSpacing?: number;
+  /** IDs of the roots; nodes without incoming edges are used when not provided */
+  rootIds?: string[];
+  /** Place all leaves on the deepest level, like a dendrogram */
+  alignLeaves?: boolean;
+  /** Wrap the tree around the center, with roots in the middle */
+  radial?: boolean;
+  /** Angle covered by a radial tree in radians */
+  arcAngle?: number;
+  /** Angle of the first subtree of a radial tree in radians */
+  startAngle?: number;
+}
+
+// Working node of the tidy tree algorithm
+interface TidyNode {
+  id: string | null;
+  parent: TidyNode | null;
+  children: TidyNode[];
+  /** 1-based position among its siblings */
+  number: number;
+  depth: number;
+  x: number;
+  mod: number;
+  thread: TidyNode | null;
+  ancestor: TidyNode;
+  change: number;
+  shift: number;
+}
+
+/**
+ * Calculate node positions in a tidy tree layout
+ */
+export function tidyTreeLayout(
+  nodes: Node[],
+  edges: Edge[],
+  width: number,
+  height: number,
+  options: TidyTreeLayoutOptions = {}
+): Record<string, Position> {
+  const {
+    direction = 'top-down',
+    nodeSpacing = 100,
+    subtreeSpacing = nodeSpacing,
+    levelSpacing = 120,
+    rootIds,
+    alignLeaves = false,
+    radial = false,
+    arcAngle = 2 * Math.PI,
+    startAngle = 0,
+  } = options;
+
+  // If there are no nodes, return an empty positioning object
+  if (!nodes.length) return {};
+
+  // A virtual root holds every tree of the forest so they are packed against each other
+  const root = buildForest(nodes, edges, rootIds);
+
+  const separation = (left: TidyNode, right: TidyNode) =>
+    left.parent === right.parent ? nodeSpacing : subtreeSpacing;
+
+  if (alignLeaves) {
+    clusterLayout(root, separation);
+  } else {
+    firstWalk(root, separation);
+    secondWalk(root);
+  }
+
+  const treeNodes = collectNodes(root);
+  let maxDepth = 0;
+  let minX = Infinity;
+  let maxX = -Infinity;
+  treeNodes.forEach(node => {
+    maxDepth = Math.max(maxDepth, node.depth);
+    minX = Math.min(minX, node.x);
+    maxX = Math.max(maxX, node.x);
+  });
+
+  const levelOf = (node: TidyNode) =>
+    alignLeaves && node.children.length === 0 ? maxDepth : node.depth;
+
+  const positions: Record<string, Position> = {};
+  const centerX = width / 2;
+  const centerY = height / 2;
+
+  if (radial) {
+    // A forest keeps its virtual root at the center; a single tree puts its own root there
+    const offset = root.children.length > 1 ? 1 : 0;
+    const outerRing = maxDepth + offset;
+    const isFullCircle = arcAngle >= 2 * Math.PI - 1e-9;
+    const span = (maxX - minX) + (isFullCircle ? nodeSpacing : 0) || 1;
+
+    // Grow the rings when the outer ring is too short to keep leaves apart
+    const ringSpacing = outerRing > 0
+      ? Math.max(levelSpacing, span / (arcAngle * outerRing))
+      : levelSpacing;
+
+    treeNodes.forEach(node => {
+      const radius = (levelOf(node) + offset) * ringSpacing;
+      const angle = startAngle + ((node.x - minX) / span) * arcAngle;
+      positions[node.id!] = {
+        x: centerX + radius * Math.cos(angle),
+        y: centerY + radius * Math.sin(angle),
+      };
+    });
+
+    return positions;
+  }
+
+  const isHorizontal = direction === 'left-right' || direction === 'right-left';
+  const isReversed = direction === 'bottom-up' || direction === 'right-left';
+  const breadthCenter = (minX + maxX) / 2;
+  const depthCenter = (maxDepth * levelSpacing) / 2;
+
+  treeNodes.forEach(node => {
+    const breadth = node.x - breadthCenter;
+    const depth = (levelOf(node) * levelSpacing - depthCenter) * (isReversed ? -1 : 1);
+    positions[node.id!] = isHorizontal
+      ? { x: centerX + depth, y: centerY + breadth }
+      : { x: centerX + breadth, y: centerY + depth };
+  });
+
+  return positions;
+}
+
+/**
+ * Extract a spanning forest from the graph and hang it under a virtual root
+ * Each node keeps the parent through which it is first reached (breadth first),
+ * so graphs with shared children or cycles still produce a tree
+ */
+function buildForest(nodes: Node[], edges: Edge[], rootIds?: string[]): TidyNode {
+  const outgoing: Record<string, string[]> = {};
+  const incomingCount: Record<string, number> = {};
+
+  nodes.forEach(node => {
+    outgoing[node.id] = [];
+    incomingCount[node.id] = 0;
+  });
+
+  edges.forEach(edge => {
+    // Skip self-loops and edges to unknown nodes
+    if (edge.source === edge.target) return;
+    if (!outgoing[edge.source] || !outgoing[edge.target]) return;
+
+    outgoing[edge.source].push(edge.target);
+    incomingCount[edge.target]++;
+  });
+
+  const virtualRoot = createTidyNode(null, null, 0, -1);
+  const treeNodes: Record<string, TidyNode> = {};
+
+  const growTree = (rootId: string) => {
+    if (treeNodes[rootId]) return;
+
+    const rootNode = createTidyNode(rootId, virtualRoot, virtualRoot.children.length + 1, 0);
+    virtualRoot.children.push(rootNode);
+    treeNodes[rootId] = rootNode;
+
+    const queue: TidyNode[] = [rootNode];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+
+      outgoing[current.id!].forEach(childId => {
+        if (treeNodes[childId]) return;
+
+        const child = createTidyNode(childId, current, current.children.length + 1, current.depth + 1);
+        current.children.push(child);
+        treeNodes[childId] = child;
+        queue.push(child);
+      });
+    }
+  };
+
+  const requestedRoots = (rootIds || []).filter(id => outgoing[id] !== undefined);
+  if (requestedRoots.length > 0) {
+    requestedRoots.forEach(growTree);
+  } else {
+    nodes.forEach(node => {
+      if (incomingCount[node.id] === 0) growTree(node.id);
+    });
+  }
+
+  // Nodes that are only reachable through cycles start trees of their own
+  nodes.forEach(node => growTree(node.id));
+
+  return virtualRoot;
+}
+
+function createTidyNode(
+  id: string | null,
+  parent: TidyNode | null,
+  number: number,
+  depth: number
+): TidyNode {
+  const node: TidyNode = {
+    id,
+    parent,
+    children: [],
+    number,
+    depth,
+    x: 0,
+    mod: 0,
+    thread: null,
+    ancestor: null as unknown as TidyNode,
+    change: 0,
+    shift: 0,
+  };
+  node.ancestor = node;
+  return node;
+}
+
+/**
+ * All real nodes of the forest, without the virtual root
+ */
+function collectNodes(root: TidyNode): TidyNode[] {
+  const result: TidyNode[] = [];
+  const stack = [...root.children];
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    result.push(node);
+    stack.push(...node.children);
+  }
+  return result;
+}
+
+// Contour helpers: the next node on the left or right contour, following threads
+function nextLeft(node: TidyNode): TidyNode | null {
+  return node.children.length > 0 ? node.children[0] : node.thread;
+}
+
+function nextRight(node: TidyNode): TidyNode | null {
+  return node.children.length > 0 ? node.children[node.children.length - 1] : node.thread;
+}
+
+function leftSibling(node: TidyNode): TidyNode | null {
+  return node.parent && node.number > 1 ? node.parent.children[node.number - 2] : null;
+}
+
+/**
+ * Post-order pass computing preliminary x coordinates and modifiers
+ * Uses an explicit stack so deep trees cannot overflow the call stack
+ */
+function firstWalk(
+  root: TidyNode,
+  separation: (left: TidyNode, right: TidyNode) => number
+): void {
+  const stack: { node: TidyNode; childIndex: number; defaultAncestor: TidyNode | null }[] = [
+    { node: root, childIndex: 0, defaultAncestor: root.children[0] || null },
+  ];
+
+  while (stack.length > 0) {
+    const frame = stack[stack.length - 1];
+    const v = frame.node;
+
+    if (frame.childIndex < v.children.length) {
+      const child = v.children[frame.childIndex++];
+      stack.push({ node: child, childIndex: 0, defaultAncestor: child.children[0] || null });
+      continue;
+    }
+
+    stack.pop();
+
+    const sibling = leftSibling(v);
+    if (v.children.length === 0) {
+      v.x = sibling ? sibling.x + separation(sibling, v) : 0;
+    } else {
+      executeShifts(v);
+      const midpoint = (v.children[0].x + v.children[v.children.length - 1].x) / 2;
+      if (sibling) {
+        v.x = sibling.x + separation(sibling, v);
+        v.mod = v.x - midpoint;
+      } else {
+        v.x = midpoint;
+      }
+    }
+
+    // Push the finished subtree away from its left siblings
+    const parentFrame = stack[stack.length - 1];
+    if (parentFrame) {
+      parentFrame.defaultAncestor = apportion(v, parentFrame.defaultAncestor!, separation);
+    }
+  }
+}
+
+function apportion(
+  v: TidyNode,
+  defaultAncestor: TidyNode,
+  separation: (left: TidyNode, right: TidyNode) => number
+): TidyNode {
+  const w = leftSibling(v);
+  if (!w) return defaultAncestor;
+
+  // Inner and outer contours of the right (v) and left (w) subtrees
+  let vir: TidyNode = v;
+  let vor: TidyNode = v;
+  let vil: TidyNode = w;
+  let vol: TidyNode = v.parent!.children[0];
+  let sir = v.mod;
+  let sor = v.mod;
+  let sil = vil.mod;
+  let sol = vol.mod;
+
+  let nextVil = nextRight(vil);
+  let nextVir = nextLeft(vir);
+
+  while (nextVil && nextVir) {
+    vil = nextVil;
+    vir = nextVir;
+    vol = nextLeft(vol)!;
+    vor = nextRight(vor)!;
+    vor.ancestor = v;
+
+    const shift = (vil.x + sil) - (vir.x + sir) + separation(vil, vir);
+    if (shift > 0) {
+      const ancestor = vil.ancestor.parent === v.parent ? vil.ancestor : defaultAncestor;
+      moveSubtree(ancestor, v, shift);
+      sir += shift;
+      sor += shift;
+    }
+
+    sil += vil.mod;
+    sir += vir.mod;
+    sol += vol.mod;
+    sor += vor.mod;
+
+    nextVil = nextRight(vil);
+    nextVir = nextLeft(vir);
+  }
+
+  // Thread the shorter subtree onto the contour of the taller one
+  if (nextVil && !nextRight(vor)) {
+    vor.thread = nextVil;
+    vor.mod += sil - sor;
+  } else {
+    if (nextVir && !nextLeft(vol)) {
+      vol.thread = nextVir;
+      vol.mod += sir - sol;
+    }
+    defaultAncestor = v;
+  }
+
+  return defaultAncestor;
+}
+
+function moveSubtree(wl: TidyNode, wr: TidyNode, shift: number): void {
+  const subtrees = wr.number - wl.number;
+  wr.change -= shift / subtrees;
+  wr.shift += shift;
+  wl.change += shift / subtrees;
+  wr.x += shift;
+  wr.mod += shift;
+}
+
+function executeShifts(v: TidyNode): void {
+  let shift = 0;
+  let change = 0;
+  for (let i = v.children.length - 1; i >= 0; i--) {
+    const w = v.children[i];
+    w.x += shift;
+    w.mod += shift;
+    change += w.change;
+    shift += w.shift + change;
+  }
+}
+
+/**
+ * Pre-order pass turning preliminary coordinates into final ones
+ */
+function secondWalk(root: TidyNode): void {
+  const stack: { node: TidyNode; modSum: number }[] = [{ node: root, modSum: 0 }];
+  while (stack.length > 0) {
+    const { node, modSum } = stack.pop()!;
+    node.x += modSum;
+    node.children.forEach(child => stack.push({ node: child, modSum: modSum + node.mod }));
+  }
+}
+
+/**
+ * Dendrogram placement: leaves are spaced evenly in depth-first order and
+ * every parent is centered above its children
+ */
+function clusterLayout(
+  root: TidyNode,
+  separation: (left: TidyNode, right: TidyNode) => number
+): void {
+  let previousLeaf: TidyNode | null = null;
+  const stack: { node: TidyNode; visited: boolean }[] = [{ node: root, visited: false }];
+
+  while (stack.length > 0) {
+    const frame = stack.pop()!;
+    const { node } = frame;
+
+    if (node.children.length === 0) {
+      node.x = previousLeaf ? previousLeaf.x + separation(previousLeaf, node) : 0;
+      previousLeaf = node;
+    } else if (frame.visited) {
+      node.x = (node.children[0].x + node.children[node.children.length - 1].x) / 2;
+    } else {
+      stack.push({ node, visited: true });
+      for (let i = node.children.length - 1; i >= 0; i--) {
+        stack.push({ node: node.children[i], visited: false });
+      }
+    }
+  }
+}
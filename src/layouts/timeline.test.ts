@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { timelineLayout, fitTimeScale, getNodeTime } from './timeline';
+import { Node, Position } from '../types/graph';
+
+const event = (id: string, timestamp: unknown, service?: string): Node => ({
+  id,
+  metadata: { timestamp, service },
+});
+
+describe('getNodeTime', () => {
+  it('reads numbers, dates and date strings', () => {
+    expect(getNodeTime(event('a', 42), 'metadata.timestamp')).toBe(42);
+    expect(getNodeTime(event('a', '17'), 'metadata.timestamp')).toBe(17);
+    expect(getNodeTime(event('a', new Date(Date.UTC(2024, 0, 1))), 'metadata.timestamp'))
+      .toBe(Date.UTC(2024, 0, 1));
+    expect(getNodeTime(event('a', '2024-01-01T00:00:00Z'), 'metadata.timestamp'))
+      .toBe(Date.UTC(2024, 0, 1));
+  });
+
+  it('returns null for missing or invalid times', () => {
+    expect(getNodeTime(event('a', undefined), 'metadata.timestamp')).toBeNull();
+    expect(getNodeTime(event('a', 'soon'), 'metadata.timestamp')).toBeNull();
+    expect(getNodeTime(event('a', NaN), 'metadata.timestamp')).toBeNull();
+    expect(getNodeTime({ id: 'a' }, 'metadata.timestamp')).toBeNull();
+  });
+});
+
+describe('timelineLayout', () => {
+  it('returns an empty object for an empty graph', () => {
+    expect(timelineLayout([], 800, 600)).toEqual({});
+  });
+
+  it('maps times linearly onto the axis', () => {
+    const nodes = [event('a', 0), event('b', 50), event('c', 100)];
+
+    const positions = timelineLayout(nodes, 1000, 600, { axisLength: 800 });
+
+    expect(positions.a.x).toBe(100);
+    expect(positions.b.x).toBe(500);
+    expect(positions.c.x).toBe(900);
+    expect(positions.a.y).toBe(300);
+  });
+
+  it('assigns one lane per value of the lane field', () => {
+    const nodes = [
+      event('a', 0, 'api'),
+      event('b', 10, 'db'),
+      event('c', 100, 'api'),
+      event('d', 50, 'db'),
+    ];
+
+    const positions = timelineLayout(nodes, 1000, 600, { laneField: 'metadata.service', laneSpacing: 100 });
+
+    expect(positions.c.y).toBe(positions.a.y);
+    expect(positions.d.y).toBe(positions.b.y);
+    // Lanes are ordered by their earliest node and centered across the axis
+    expect(positions.a.y).toBe(250);
+    expect(positions.b.y).toBe(350);
+  });
+
+  it('opens extra rows when nodes of a lane are too close in time', () => {
+    const nodes = [event('a', 0), event('b', 1), event('c', 2), event('d', 100)];
+
+    const positions = timelineLayout(nodes, 1000, 600, { axisLength: 800, nodeSpacing: 100 });
+
+    // a, b and c are 8px apart, so each needs its own row; d fits back into the first
+    expect(new Set([positions.a.y, positions.b.y, positions.c.y]).size).toBe(3);
+    expect(positions.d.y).toBe(positions.a.y);
+  });
+
+  it('lines up nodes without a time in a lane of their own', () => {
+    const nodes = [event('a', 0), event('b', 100), event('x', undefined), event('y', 'never')];
+
+    const positions = timelineLayout(nodes, 1000, 600, { nodeSpacing: 50, laneSpacing: 100 });
+
+    expect(positions.x.y).toBe(positions.y.y);
+    expect(positions.x.y).toBeGreaterThan(positions.a.y);
+    expect(positions.y.x - positions.x.x).toBe(50);
+  });
+
+  it('runs the time axis downwards when vertical', () => {
+    const nodes = [event('a', 0), event('b', 100)];
+
+    const positions = timelineLayout(nodes, 800, 1000, { orientation: 'vertical', axisLength: 800 });
+
+    expect(positions.a).toEqual({ x: 400, y: 100 });
+    expect(positions.b).toEqual({ x: 400, y: 900 });
+  });
+});
+
+describe('fitTimeScale', () => {
+  const nodes = [event('a', 0), event('b', 50), event('c', 100), event('x', undefined)];
+
+  it('recovers the scale used by the layout', () => {
+    const positions = timelineLayout(nodes, 1000, 600, { axisLength: 800 });
+
+    const scale = fitTimeScale(nodes, positions)!;
+
+    expect(scale.orientation).toBe('horizontal');
+    expect(scale.scale).toBeCloseTo(8);
+    expect(scale.offset).toBeCloseTo(100);
+    expect(scale.isDate).toBe(false);
+  });
+
+  it('follows positions that were moved and scaled afterwards', () => {
+    const laidOut = timelineLayout(nodes, 1000, 600, { axisLength: 800 });
+    const moved: Record<string, Position> = {};
+    Object.entries(laidOut).forEach(([id, { x, y }]) => {
+      moved[id] = { x: x * 0.5 - 200, y };
+    });
+
+    const scale = fitTimeScale(nodes, moved)!;
+
+    expect(scale.scale).toBeCloseTo(4);
+    expect(scale.offset).toBeCloseTo(-150);
+  });
+
+  it('reads the vertical axis and flags dates', () => {
+    const dated = [
+      event('a', '2024-01-01T00:00:00Z'),
+      event('b', '2024-01-02T00:00:00Z'),
+    ];
+    const positions = timelineLayout(dated, 800, 1000, { orientation: 'vertical', axisLength: 800 });
+
+    const scale = fitTimeScale(dated, positions, { orientation: 'vertical' })!;
+    const day = 24 * 60 * 60 * 1000;
+
+    expect(scale.isDate).toBe(true);
+    expect(scale.scale).toBeCloseTo(800 / day, 12);
+    expect(Date.UTC(2024, 0, 1) * scale.scale + scale.offset).toBeCloseTo(100, 3);
+  });
+
+  it('returns null without two distinct positioned times', () => {
+    expect(fitTimeScale(nodes, {})).toBeNull();
+    expect(fitTimeScale([event('a', 5), event('b', 5)], {
+      a: { x: 0, y: 0 },
+      b: { x: 100, y: 0 },
+    })).toBeNull();
+  });
+});
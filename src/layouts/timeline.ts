@@ -0,0 +1,219 @@
+/**
+ * Timeline layout places nodes along a time axis read from node data
+ * Nodes are spread over lanes, either by a configurable field or so that
+ * nodes close in time do not collide
+ */
+import { Node, Position } from '../types/graph';
+import { getNodeField } from '../utils/graph/nodeFields';
+
+export interface TimelineLayoutOptions {
+  /** Node field holding the time, e.g. 'metadata.timestamp' (numbers, Date objects or date strings) */
+  timeField?: string;
+  /** Node field assigning lanes, e.g. 'metadata.service' (lanes only avoid collisions if not set) */
+  laneField?: string;
+  /** Direction of the time axis */
+  orientation?: 'horizontal' | 'vertical';
+  /** Length of the time axis (80% of the viewport along the axis if not set) */
+  axisLength?: number;
+  /** Distance between neighbouring lanes */
+  laneSpacing?: number;
+  /** Minimum distance along the time axis between nodes sharing a lane */
+  nodeSpacing?: number;
+}
+
+/**
+ * Linear mapping from time to a coordinate along the time axis:
+ * `coordinate = time * scale + offset`
+ */
+export interface TimeScale {
+  /** Direction of the time axis */
+  orientation: 'horizontal' | 'vertical';
+  scale: number;
+  offset: number;
+  /** Whether the times were given as dates */
+  isDate: boolean;
+}
+
+// A node placed along the time axis
+interface TimedNode {
+  id: string;
+  coordinate: number;
+  lane: string;
+}
+
+/**
+ * Read the time of a node as a number (milliseconds for dates)
+ * Returns null for missing or unparseable values
+ */
+export function getNodeTime(node: Node, timeField: string): number | null {
+  const value = getNodeField(node, timeField);
+
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (value instanceof Date) {
+    const time = value.getTime();
+    return Number.isNaN(time) ? null : time;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const numeric = Number(value);
+    if (Number.isFinite(numeric)) return numeric;
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? null : time;
+  }
+
+  return null;
+}
+
+/**
+ * Calculate node positions in a timeline layout
+ * Nodes without a valid time are lined up in an extra lane after the others
+ */
+export function timelineLayout(
+  nodes: Node[],
+  width: number,
+  height: number,
+  options: TimelineLayoutOptions = {}
+): Record<string, Position> {
+  const {
+    timeField = 'metadata.timestamp',
+    laneField,
+    orientation = 'horizontal',
+    laneSpacing = 120,
+    nodeSpacing = 100,
+  } = options;
+
+  // If there are no nodes, return an empty positioning object
+  if (!nodes.length) return {};
+
+  const horizontal = orientation === 'horizontal';
+  const axisLength = options.axisLength ?? (horizontal ? width : height) * 0.8;
+  const axisStart = (horizontal ? width : height) / 2 - axisLength / 2;
+
+  const timed: { node: Node; time: number }[] = [];
+  const untimed: Node[] = [];
+  nodes.forEach(node => {
+    const time = getNodeTime(node, timeField);
+    if (time === null) {
+      untimed.push(node);
+    } else {
+      timed.push({ node, time });
+    }
+  });
+
+  let minTime = Infinity, maxTime = -Infinity;
+  timed.forEach(({ time }) => {
+    minTime = Math.min(minTime, time);
+    maxTime = Math.max(maxTime, time);
+  });
+  const span = maxTime - minTime;
+
+  const toCoordinate = (time: number) => span > 0
+    ? axisStart + (time - minTime) / span * axisLength
+    : axisStart + axisLength / 2;
+
+  // Group nodes into lanes, ordering lanes by their earliest node
+  const lanes = new Map<string, TimedNode[]>();
+  timed
+    .map(({ node, time }) => ({
+      id: node.id,
+      coordinate: toCoordinate(time),
+      lane: laneField ? String(getNodeField(node, laneField) ?? '') : '',
+    }))
+    .sort((a, b) => a.coordinate - b.coordinate)
+    .forEach(item => {
+      if (!lanes.has(item.lane)) lanes.set(item.lane, []);
+      lanes.get(item.lane)!.push(item);
+    });
+
+  // Split every lane into rows so that nodes of a row keep nodeSpacing apart
+  const rows: TimedNode[][] = [];
+  lanes.forEach(laneNodes => {
+    const laneRows: { end: number; items: TimedNode[] }[] = [];
+    laneNodes.forEach(item => {
+      let row = laneRows.find(candidate => item.coordinate - candidate.end >= nodeSpacing);
+      if (!row) {
+        row = { end: -Infinity, items: [] };
+        laneRows.push(row);
+      }
+      row.items.push(item);
+      row.end = item.coordinate;
+    });
+    laneRows.forEach(row => rows.push(row.items));
+  });
+
+  if (untimed.length > 0) {
+    rows.push(untimed.map((node, index) => ({
+      id: node.id,
+      coordinate: axisStart + index * nodeSpacing,
+      lane: '',
+    })));
+  }
+
+  // Center the rows across the time axis
+  const crossCenter = horizontal ? height / 2 : width / 2;
+  const positions: Record<string, Position> = {};
+  rows.forEach((row, rowIndex) => {
+    const cross = crossCenter + (rowIndex - (rows.length - 1) / 2) * laneSpacing;
+    row.forEach(({ id, coordinate }) => {
+      positions[id] = horizontal
+        ? { x: coordinate, y: cross }
+        : { x: cross, y: coordinate };
+    });
+  });
+
+  return positions;
+}
+
+/**
+ * Recover the time scale of a timeline from node positions
+ * Fits a line through the times and positions of the timed nodes, so it also
+ * works after the layout has been translated or scaled.
+ * Returns null when fewer than two distinct times are positioned.
+ */
+export function fitTimeScale(
+  nodes: Node[],
+  positions: Record<string, Position>,
+  options: Pick<TimelineLayoutOptions, 'timeField' | 'orientation'> = {}
+): TimeScale | null {
+  const { timeField = 'metadata.timestamp', orientation = 'horizontal' } = options;
+  const axis = orientation === 'horizontal' ? 'x' : 'y';
+
+  let count = 0, sumT = 0, sumC = 0, sumTT = 0, sumTC = 0;
+  let isDate = false;
+  let firstTime: number | null = null;
+
+  for (const node of nodes) {
+    const position = positions[node.id];
+    const time = position ? getNodeTime(node, timeField) : null;
+    if (time === null) continue;
+
+    // Shift times to keep the sums precise for millisecond timestamps
+    if (firstTime === null) firstTime = time;
+    const t = time - firstTime;
+    const c = position[axis];
+
+    count++;
+    sumT += t;
+    sumC += c;
+    sumTT += t * t;
+    sumTC += t * c;
+
+    const value = getNodeField(node, timeField);
+    if (value instanceof Date || (typeof value === 'string' && !Number.isFinite(Number(value)))) {
+      isDate = true;
+    }
+  }
+
+  const variance = count * sumTT - sumT * sumT;
+  if (count < 2 || firstTime === null || variance <= 0) return null;
+
+  const scale = (count * sumTC - sumT * sumC) / variance;
+  const intercept = (sumC - scale * sumT) / count;
+  if (!Number.isFinite(scale) || scale === 0) return null;
+
+  return {
+    orientation,
+    scale,
+    offset: intercept - scale * firstTime,
+    isDate,
+  };
+}
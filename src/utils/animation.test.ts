@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { getEasing, interpolatePositions } from './animation';
+
+describe('getEasing', () => {
+  it('starts at 0 and ends at 1 for every built-in curve', () => {
+    (['linear', 'ease-in', 'ease-out', 'ease-in-out'] as const).forEach(name => {
+      const ease = getEasing(name);
+      expect(ease(0)).toBe(0);
+      expect(ease(1)).toBe(1);
+    });
+  });
+
+  it('shapes the curves as named', () => {
+    expect(getEasing('linear')(0.25)).toBe(0.25);
+    expect(getEasing('ease-in')(0.5)).toBe(0.125);
+    expect(getEasing('ease-out')(0.5)).toBe(0.875);
+    expect(getEasing('ease-in-out')(0.5)).toBe(0.5);
+    expect(getEasing('ease-in-out')(0.25)).toBeLessThan(0.25);
+    expect(getEasing('ease-in-out')(0.75)).toBeGreaterThan(0.75);
+  });
+
+  it('defaults to ease-in-out and passes custom functions through', () => {
+    const custom = (t: number) => t * t;
+
+    expect(getEasing()).toBe(getEasing('ease-in-out'));
+    expect(getEasing('unknown' as never)).toBe(getEasing('ease-in-out'));
+    expect(getEasing(custom)).toBe(custom);
+  });
+});
+
+describe('interpolatePositions', () => {
+  const from = { a: { x: 0, y: 0 }, gone: { x: 5, y: 5 } };
+  const to = { a: { x: 100, y: -50 }, added: { x: 10, y: 20 } };
+
+  it('moves nodes linearly between their positions', () => {
+    expect(interpolatePositions(from, to, 0).a).toEqual({ x: 0, y: 0 });
+    expect(interpolatePositions(from, to, 0.5).a).toEqual({ x: 50, y: -25 });
+    expect(interpolatePositions(from, to, 1).a).toEqual({ x: 100, y: -50 });
+  });
+
+  it('shows new nodes at their target and drops removed ones', () => {
+    const positions = interpolatePositions(from, to, 0.5);
+
+    expect(positions.added).toEqual({ x: 10, y: 20 });
+    expect(positions).not.toHaveProperty('gone');
+  });
+});
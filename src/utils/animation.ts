@@ -0,0 +1,53 @@
+/**
+ * Easing and interpolation helpers for animated layout transitions
+ */
+import { Position } from '../types/graph';
+
+// Function mapping animation progress (0 to 1) to eased progress
+export type EasingFunction = (t: number) => number;
+
+// Built-in easing curves
+export type EasingName = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+
+export interface LayoutTransitionOptions {
+  /** Duration of the transition in milliseconds */
+  duration?: number;
+  /** Easing curve, either a built-in name or a custom function */
+  easing?: EasingName | EasingFunction;
+}
+
+// Cubic easing curves
+const easings: Record<EasingName, EasingFunction> = {
+  'linear': t => t,
+  'ease-in': t => t * t * t,
+  'ease-out': t => 1 - Math.pow(1 - t, 3),
+  'ease-in-out': t => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+};
+
+/**
+ * Resolve an easing name or function to an easing function
+ */
+export function getEasing(easing: EasingName | EasingFunction = 'ease-in-out'): EasingFunction {
+  if (typeof easing === 'function') return easing;
+  return easings[easing] || easings['ease-in-out'];
+}
+
+/**
+ * Interpolate between two sets of node positions
+ * Nodes only present in `to` appear at their target position; nodes missing from `to` are dropped
+ */
+export function interpolatePositions(
+  from: Record<string, Position>,
+  to: Record<string, Position>,
+  t: number
+): Record<string, Position> {
+  const result: Record<string, Position> = {};
+  Object.entries(to).forEach(([nodeId, target]) => {
+    const start = from[nodeId] || target;
+    result[nodeId] = {
+      x: start.x + (target.x - start.x) * t,
+      y: start.y + (target.y - start.y) * t,
+    };
+  });
+  return result;
+}
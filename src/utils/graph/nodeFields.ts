@@ -0,0 +1,16 @@
+/**
+ * Utility functions for reading configurable fields from nodes
+ */
+import { Node } from '../../types/graph';
+
+/**
+ * Read a node field by name; dotted paths such as 'metadata.team' reach into nested objects
+ */
+export function getNodeField(node: Node, path: string): unknown {
+  let value: unknown = node;
+  for (const key of path.split('.')) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
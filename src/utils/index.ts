@@ -18,4 +18,6 @@ export const zoomToFit = () => {
 };
 
 // Export graph utilities
-export * from './graph'; 
\ No newline at end of file
+export * from './graph';
+export * from './random';
+export * from './animation'; 
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { createRandom } from './random';
+import { forceLayout } from '../layouts/force';
+import { stressLayout } from '../layouts/stress';
+import { Node, Edge } from '../types/graph';
+
+const nodes: Node[] = ['a', 'b', 'c', 'd'].map(id => ({ id }));
+const edges: Edge[] = [
+  { id: 'e1', source: 'a', target: 'b' },
+  { id: 'e2', source: 'b', target: 'c' },
+  { id: 'e3', source: 'c', target: 'd' },
+];
+
+const sequence = (random: () => number, length = 5) => Array.from({ length }, () => random());
+
+describe('createRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    expect(sequence(createRandom(42))).toEqual(sequence(createRandom(42)));
+    expect(sequence(createRandom('graph'))).toEqual(sequence(createRandom('graph')));
+  });
+
+  it('gives different sequences for different seeds', () => {
+    expect(sequence(createRandom(1))).not.toEqual(sequence(createRandom(2)));
+    expect(sequence(createRandom('a'))).not.toEqual(sequence(createRandom('b')));
+  });
+
+  it('returns values in [0, 1)', () => {
+    sequence(createRandom(7), 1000).forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it('falls back to Math.random without a seed', () => {
+    expect(createRandom()).toBe(Math.random);
+  });
+});
+
+describe('seeded layouts', () => {
+  it('give identical positions for the same seed', () => {
+    expect(forceLayout(nodes, edges, 800, 600, { seed: 3 })).toEqual(forceLayout(nodes, edges, 800, 600, { seed: 3 }));
+    expect(stressLayout(nodes, edges, 800, 600, { seed: 3 })).toEqual(stressLayout(nodes, edges, 800, 600, { seed: 3 }));
+  });
+
+  it('give different positions for different seeds', () => {
+    expect(forceLayout(nodes, edges, 800, 600, { seed: 3 })).not.toEqual(forceLayout(nodes, edges, 800, 600, { seed: 4 }));
+    expect(stressLayout(nodes, edges, 800, 600, { seed: 3 })).not.toEqual(stressLayout(nodes, edges, 800, 600, { seed: 4 }));
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Seeded pseudo-random number generation shared by randomized layouts
+ */
+
+/**
+ * Hash a string seed into a 32-bit integer (FNV-1a)
+ */
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a random number generator returning values in [0, 1)
+ * The same seed always produces the same sequence (mulberry32).
+ * Without a seed, Math.random is returned.
+ */
+export function createRandom(seed?: number | string): () => number {
+  if (seed === undefined || seed === null) {
+    return Math.random;
+  }
+
+  let state = typeof seed === 'string' ? hashSeed(seed) : Math.floor(seed) >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}